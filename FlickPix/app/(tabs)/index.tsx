@@ -2,40 +2,45 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import {
   ActivityIndicator,
   Image,
-  Linking,
   Modal,
   Pressable,
   ScrollView,
   StyleSheet,
   TextInput,
   View,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { ErrorNotice } from '@/components/error-notice';
+import { RecommendationRail } from '@/components/recommendation-rail';
 import { ThemedText } from '@/components/themed-text';
+import { WatchTogether } from '@/components/watch-together';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { getRecommendations, getPosterUrl, type Recommendation } from '@/services/recommendations';
+import {
+  getRecommendationPage,
+  getRecommendationRails,
+  getRailPage,
+  getPosterUrl,
+  type Rail,
+  type Recommendation,
+} from '@/services/recommendations';
 import { getMoodRecommendations, getMoodPage, type MoodSearchResult } from '@/services/moodSearch';
+import { applyUserLocale } from '@/services/locale';
 import {
   getAvailableUsers,
   getActiveUserId,
   setActiveUser,
-  addToWatchHistory,
-  addToWatchlist,
-  removeFromWatchlist,
-  isInWatchlist,
   getWatchedMovieIds,
 } from '@/services/storage';
 import { ratingColor, ratingBg } from '@/utils/ratingColors';
 import {
-  getMovieDetails,
-  getMovieCredits,
-  getMovieVideos,
   searchMovies,
-  posterUrl as tmdbPosterUrl,
-  backdropUrl as tmdbBackdropUrl,
-  type MovieDetails,
-  type Credits,
+  describeError,
   type MovieSummary,
+  type ErrorDisplay,
 } from '@/services/tmdb';
 
 const COLORS = {
@@ -63,6 +68,22 @@ const COLORS = {
   },
 };
 
+/** Refresh cycles through this many pages of a rail before starting over. */
+const RAIL_REFRESH_PAGES = 5;
+
+const FOR_YOU_PAGE_SIZE = 10;
+
+/** Start loading the next For You page this close (in px) to the bottom. */
+const LOAD_MORE_DISTANCE = 600;
+
+function openMovie(movieId: number) {
+  router.push({ pathname: '/movie/[id]', params: { id: String(movieId) } });
+}
+
+function openRail(rail: Rail) {
+  router.push({ pathname: '/rail/[id]', params: { id: rail.id, title: rail.title } });
+}
+
 export default function HomeScreen() {
   const [movieInput, setMovieInput] = useState('');
   const [movieSearchResults, setMovieSearchResults] = useState<MovieSummary[]>([]);
@@ -71,144 +92,128 @@ export default function HomeScreen() {
   const [likedMovies, setLikedMovies] = useState<string[]>([]);
   const [picks, setPicks] = useState<Recommendation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorDisplay | null>(null);
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [moodInput, setMoodInput] = useState('');
   const [moodLoading, setMoodLoading] = useState(false);
   const [moodExplanation, setMoodExplanation] = useState<string | null>(null);
   const [moodResults, setMoodResults] = useState<Recommendation[] | null>(null);
-  const [moodError, setMoodError] = useState<string | null>(null);
+  const [moodError, setMoodError] = useState<ErrorDisplay | null>(null);
   const [moodFilters, setMoodFilters] = useState<MoodSearchResult['filters'] | null>(null);
   const [moodPage, setMoodPage] = useState(1);
-  const [forYouPage, setForYouPage] = useState(1);
+  const [forYouCursor, setForYouCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [moreError, setMoreError] = useState<ErrorDisplay | null>(null);
+  const [rails, setRails] = useState<Rail[]>([]);
+  const [railsLoading, setRailsLoading] = useState(true);
+  const [refreshingRail, setRefreshingRail] = useState<string | null>(null);
   const [activeUser, setActiveUserState] = useState(getActiveUserId());
-  const [selectedMovieId, setSelectedMovieId] = useState<number | null>(null);
-  const [movieDetail, setMovieDetail] = useState<MovieDetails | null>(null);
-  const [movieCredits, setMovieCredits] = useState<Credits | null>(null);
-  const [trailerKey, setTrailerKey] = useState<string | null>(null);
-  const [movieDetailLoading, setMovieDetailLoading] = useState(false);
-  const [movieDetailError, setMovieDetailError] = useState<string | null>(null);
-  const [movieInWatchlist, setMovieInWatchlist] = useState(false);
-  const [movieWatched, setMovieWatched] = useState(false);
-  const [showRatingPicker, setShowRatingPicker] = useState(false);
   const colorScheme = useColorScheme();
   const theme = COLORS[colorScheme ?? 'dark'];
 
+  // Watch history the current picks were built from; see the focus effect below
+  const picksWatchedKey = useRef<string | null>(null);
+  const loadingMoreRef = useRef(false);
+
   const users = getAvailableUsers();
   const activeUserName = users.find((u) => u.id === activeUser)?.name ?? 'User';
 
-  const loadRecommendations = useCallback(async (page = 1) => {
+  const loadRecommendations = useCallback(async () => {
     setIsLoading(true);
     setError(null);
+    setMoreError(null);
     try {
-      const recs = await getRecommendations({ limit: 10 });
-      setPicks(recs);
-      setForYouPage(page);
+      // The active user may browse in another language; load theirs first
+      await applyUserLocale();
+      const [page, watchedIds] = await Promise.all([
+        getRecommendationPage({ limit: FOR_YOU_PAGE_SIZE }),
+        getWatchedMovieIds(),
+      ]);
+      picksWatchedKey.current = watchedIds.join(',');
+      setPicks(page.items);
+      setForYouCursor(page.nextCursor);
     } catch (loadError) {
-      const message = loadError instanceof Error ? loadError.message : 'Failed to load recommendations';
-      setError(message);
+      setError(describeError(loadError, "Couldn't load recommendations"));
       setPicks([]);
+      setForYouCursor(null);
     } finally {
       setIsLoading(false);
     }
   }, []);
 
-  useEffect(() => {
-    loadRecommendations(1);
-  }, [loadRecommendations]);
-
-  useEffect(() => {
-    if (!selectedMovieId) {
-      setMovieDetail(null);
-      setMovieCredits(null);
-      setTrailerKey(null);
-      setMovieDetailError(null);
-      setShowRatingPicker(false);
-      return;
+  const loadMoreRecommendations = useCallback(async () => {
+    if (!forYouCursor || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setMoreError(null);
+    try {
+      const page = await getRecommendationPage({ limit: FOR_YOU_PAGE_SIZE, cursor: forYouCursor });
+      setPicks((current) => [...current, ...page.items.filter((m) => !current.some((c) => c.id === m.id))]);
+      setForYouCursor(page.nextCursor);
+    } catch (loadError) {
+      setMoreError(describeError(loadError, "Couldn't load more picks"));
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
     }
-    let cancelled = false;
-    setMovieDetailLoading(true);
-    setMovieDetailError(null);
-    Promise.all([
-      getMovieDetails(selectedMovieId),
-      getMovieCredits(selectedMovieId),
-      getMovieVideos(selectedMovieId),
-      isInWatchlist(selectedMovieId),
-      getWatchedMovieIds(),
-    ])
-      .then(([details, credits, videos, inList, watchedIds]) => {
-        if (cancelled) return;
-        setMovieDetail(details);
-        setMovieCredits(credits);
-        const trailer = videos.results.find(
-          (v) => v.site === 'YouTube' && (v.type === 'Trailer' || v.type === 'Teaser')
-        );
-        setTrailerKey(trailer?.key ?? null);
-        setMovieInWatchlist(inList);
-        setMovieWatched(watchedIds.includes(selectedMovieId));
-      })
-      .catch((err) => {
-        if (!cancelled) {
-          setMovieDetailError(err instanceof Error ? err.message : 'Failed to load movie');
-        }
-      })
-      .finally(() => {
-        if (!cancelled) setMovieDetailLoading(false);
-      });
-    return () => {
-      cancelled = true;
-    };
-  }, [selectedMovieId]);
+  }, [forYouCursor]);
 
-  const openTrailer = () => {
-    if (trailerKey) {
-      Linking.openURL(`https://www.youtube.com/watch?v=${trailerKey}`);
-    }
-  };
+  const handleScroll = useCallback((e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = e.nativeEvent;
+    const nearBottom = layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_DISTANCE;
+    if (nearBottom && !isLoading && !moreError) loadMoreRecommendations();
+  }, [isLoading, moreError, loadMoreRecommendations]);
 
-  const handleAddToWatched = async (rating: number) => {
-    if (!movieDetail || !selectedMovieId) return;
+  const loadRails = useCallback(async () => {
+    setRailsLoading(true);
     try {
-      await addToWatchHistory({
-        movieId: selectedMovieId,
-        title: movieDetail.title,
-        rating,
-        watchedAt: new Date().toISOString().slice(0, 10),
-        genres: movieDetail.genres.map((g) => g.id),
-        posterPath: movieDetail.poster_path,
-      });
-      setMovieWatched(true);
-      setShowRatingPicker(false);
-      loadRecommendations(forYouPage);
+      await applyUserLocale();
+      setRails(await getRecommendationRails());
     } catch {
-      // ignore
+      // Rails are extra; For You below still shows its own error
+      setRails([]);
+    } finally {
+      setRailsLoading(false);
     }
-  };
+  }, []);
 
-  const handleWatchlistPress = async () => {
-    if (!selectedMovieId || !movieDetail) return;
+  const refreshRail = useCallback(async (rail: Rail) => {
+    setRefreshingRail(rail.id);
     try {
-      if (movieInWatchlist) {
-        await removeFromWatchlist(selectedMovieId);
-        setMovieInWatchlist(false);
-      } else {
-        await addToWatchlist({
-          movieId: selectedMovieId,
-          title: movieDetail.title,
-          posterPath: movieDetail.poster_path,
-        });
-        setMovieInWatchlist(true);
-      }
+      const lastPage = Math.min(rail.totalPages, RAIL_REFRESH_PAGES);
+      const next = await getRailPage(rail, rail.page >= lastPage ? 1 : rail.page + 1);
+      setRails((current) => current.map((r) => (r.id === rail.id ? { ...r, ...next } : r)));
     } catch {
-      // ignore
+      // Keep what's there; the user can try again
+    } finally {
+      setRefreshingRail(null);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    loadRecommendations();
+    loadRails();
+  }, [loadRecommendations, loadRails]);
+
+  // Movies marked watched on their detail page shouldn't linger in For You
+  useFocusEffect(
+    useCallback(() => {
+      getWatchedMovieIds().then((ids) => {
+        const key = ids.join(',');
+        if (picksWatchedKey.current !== null && picksWatchedKey.current !== key) {
+          loadRecommendations();
+          loadRails();
+        }
+      });
+    }, [loadRecommendations, loadRails])
+  );
 
   const switchUser = (userId: string) => {
     setActiveUser(userId);
     setActiveUserState(userId);
     setShowUserMenu(false);
-    loadRecommendations(1);
+    loadRecommendations();
+    loadRails();
   };
 
   const searchByMood = useCallback(async () => {
@@ -226,12 +231,7 @@ export default function HomeScreen() {
       setMoodFilters(filters);
       setMoodPage(1);
     } catch (e) {
-      const msg = e instanceof Error ? e.message : 'Mood search failed';
-      if (msg.includes('insufficient_quota') || msg.includes('429')) {
-        setMoodError('OpenAI API quota exceeded — add billing credits at platform.openai.com');
-      } else {
-        setMoodError(msg);
-      }
+      setMoodError(describeError(e, 'Mood search failed'));
     } finally {
       setMoodLoading(false);
     }
@@ -246,8 +246,7 @@ export default function HomeScreen() {
       setMoodResults(recs);
       setMoodPage(page);
     } catch (e) {
-      const msg = e instanceof Error ? e.message : 'Failed to load page';
-      setMoodError(msg);
+      setMoodError(describeError(e, "Couldn't load more results"));
     } finally {
       setMoodLoading(false);
     }
@@ -282,7 +281,7 @@ export default function HomeScreen() {
     if (!likedMovies.includes(movie.title)) {
       setLikedMovies((prev) => [...prev, movie.title]);
     }
-    setSelectedMovieId(movie.id);
+    openMovie(movie.id);
   }, [likedMovies]);
 
   const removeMovie = (index: number) => {
@@ -308,6 +307,8 @@ export default function HomeScreen() {
       <ScrollView
         contentContainerStyle={styles.content}
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
       >
         {/* Header */}
         <View style={styles.header}>
@@ -384,188 +385,6 @@ export default function HomeScreen() {
           </Pressable>
         </Modal>
 
-        {/* Movie Detail Modal */}
-        <Modal
-          visible={selectedMovieId !== null}
-          transparent
-          animationType="slide"
-          onRequestClose={() => setSelectedMovieId(null)}
-        >
-          <View style={styles.detailModalOverlay}>
-            <Pressable style={StyleSheet.absoluteFill} onPress={() => setSelectedMovieId(null)} />
-            <View style={[styles.detailModalContent, { backgroundColor: theme.bg }]}>
-              <Pressable
-                style={[styles.detailModalClose, { backgroundColor: theme.card }]}
-                onPress={() => setSelectedMovieId(null)}
-              >
-                <ThemedText style={[styles.detailModalCloseText, { color: theme.text }]}>✕</ThemedText>
-              </Pressable>
-              {movieDetailLoading ? (
-                <View style={styles.detailModalLoading}>
-                  <ActivityIndicator size="large" color={theme.accent} />
-                  <ThemedText style={[styles.detailModalLoadingText, { color: theme.textMuted }]}>
-                    Loading...
-                  </ThemedText>
-                </View>
-              ) : movieDetailError ? (
-                <View style={styles.detailModalLoading}>
-                  <ThemedText style={[styles.detailModalLoadingText, { color: theme.textMuted }]}>
-                    {movieDetailError}
-                  </ThemedText>
-                  <Pressable
-                    style={[styles.detailModalButton, { backgroundColor: theme.accent }]}
-                    onPress={() => setSelectedMovieId(null)}
-                  >
-                    <ThemedText style={styles.detailModalButtonText}>Close</ThemedText>
-                  </Pressable>
-                </View>
-              ) : movieDetail ? (
-                <ScrollView
-                  style={styles.detailModalScroll}
-                  contentContainerStyle={styles.detailModalScrollContent}
-                  showsVerticalScrollIndicator={false}
-                >
-                  <View style={styles.detailModalBackdrop}>
-                    {tmdbBackdropUrl(movieDetail.backdrop_path, 'w780') ? (
-                      <Image
-                        source={{ uri: tmdbBackdropUrl(movieDetail.backdrop_path, 'w780')! }}
-                        style={StyleSheet.absoluteFill}
-                        resizeMode="cover"
-                      />
-                    ) : tmdbPosterUrl(movieDetail.poster_path, 'w500') ? (
-                      <Image
-                        source={{ uri: tmdbPosterUrl(movieDetail.poster_path, 'w500')! }}
-                        style={StyleSheet.absoluteFill}
-                        resizeMode="cover"
-                      />
-                    ) : null}
-                    <LinearGradient
-                      colors={['transparent', theme.bg]}
-                      style={styles.detailModalBackdropGradient}
-                    />
-                  </View>
-                  <View style={styles.detailModalBody}>
-                    <ThemedText style={[styles.detailModalTitle, { color: theme.text }]}>
-                      {movieDetail.title}
-                    </ThemedText>
-                    <View style={styles.detailModalMeta}>
-                      <ThemedText style={[styles.detailMetaText, { color: theme.textMuted }]}>
-                        {movieDetail.release_date?.slice(0, 4) || '—'}
-                      </ThemedText>
-                      <ThemedText style={[styles.detailMetaDot, { color: theme.textMuted }]}>•</ThemedText>
-                      <ThemedText style={[styles.detailMetaText, { color: theme.textMuted }]}>
-                        ★ {movieDetail.vote_average.toFixed(1)}
-                      </ThemedText>
-                      {movieDetail.runtime ? (
-                        <>
-                          <ThemedText style={[styles.detailMetaDot, { color: theme.textMuted }]}>•</ThemedText>
-                          <ThemedText style={[styles.detailMetaText, { color: theme.textMuted }]}>
-                            {movieDetail.runtime} min
-                          </ThemedText>
-                        </>
-                      ) : null}
-                    </View>
-                    {movieDetail.genres.length > 0 && (
-                      <View style={styles.detailModalGenres}>
-                        {movieDetail.genres.slice(0, 5).map((g) => (
-                          <View
-                            key={g.id}
-                            style={[styles.detailGenreChip, { backgroundColor: theme.accentSoft, borderColor: theme.cardBorder }]}
-                          >
-                            <ThemedText style={[styles.detailGenreChipText, { color: theme.accent }]}>
-                              {g.name}
-                            </ThemedText>
-                          </View>
-                        ))}
-                      </View>
-                    )}
-                    {movieDetail.tagline ? (
-                      <ThemedText style={[styles.detailTagline, { color: theme.textMuted }]}>
-                        {movieDetail.tagline}
-                      </ThemedText>
-                    ) : null}
-                    {movieDetail.overview ? (
-                      <>
-                        <ThemedText style={[styles.detailSectionLabel, { color: theme.textMuted }]}>
-                          SYNOPSIS
-                        </ThemedText>
-                        <ThemedText style={[styles.detailOverview, { color: theme.text }]}>
-                          {movieDetail.overview}
-                        </ThemedText>
-                      </>
-                    ) : null}
-                    {trailerKey ? (
-                      <Pressable
-                        style={[styles.detailModalButton, styles.detailTrailerButton, { backgroundColor: theme.accent }]}
-                        onPress={openTrailer}
-                      >
-                        <ThemedText style={styles.detailModalButtonText}>▶ Watch Trailer</ThemedText>
-                      </Pressable>
-                    ) : null}
-                    {movieCredits && movieCredits.cast.length > 0 && (
-                      <>
-                        <ThemedText style={[styles.detailSectionLabel, { color: theme.textMuted }]}>
-                          CAST
-                        </ThemedText>
-                        <ThemedText style={[styles.detailCastText, { color: theme.text }]}>
-                          {movieCredits.cast.slice(0, 10).map((c) => c.name).join(' · ')}
-                        </ThemedText>
-                      </>
-                    )}
-                    <View style={styles.detailModalActions}>
-                      {!movieWatched && !showRatingPicker && (
-                        <Pressable
-                          style={[styles.detailModalActionButton, { backgroundColor: theme.accent }]}
-                          onPress={() => setShowRatingPicker(true)}
-                        >
-                          <ThemedText style={styles.detailModalButtonText}>Add to Watched</ThemedText>
-                        </Pressable>
-                      )}
-                      {!movieWatched && showRatingPicker && (
-                        <View style={styles.ratingPickerContainer}>
-                          <ThemedText style={[styles.ratingPickerLabel, { color: theme.textMuted }]}>Rate it:</ThemedText>
-                          <View style={styles.ratingPickerRow}>
-                            {[1,2,3,4,5,6,7,8,9,10].map((r) => (
-                              <Pressable
-                                key={r}
-                                style={[styles.ratingPickerChip, { backgroundColor: ratingBg(r), borderColor: ratingColor(r) }]}
-                                onPress={() => handleAddToWatched(r)}
-                              >
-                                <ThemedText style={[styles.ratingPickerChipText, { color: ratingColor(r) }]}>{r}</ThemedText>
-                              </Pressable>
-                            ))}
-                          </View>
-                        </View>
-                      )}
-                      {movieWatched && (
-                        <View style={[styles.detailModalActionButton, { backgroundColor: theme.accentSoft, borderColor: theme.cardBorder }]}>
-                          <ThemedText style={[styles.detailModalButtonText, { color: theme.accent }]}>✓ Watched</ThemedText>
-                        </View>
-                      )}
-                      <Pressable
-                        style={[
-                          styles.detailModalActionButton,
-                          { backgroundColor: movieInWatchlist ? theme.accentSoft : theme.card, borderColor: theme.cardBorder },
-                        ]}
-                        onPress={handleWatchlistPress}
-                      >
-                        <ThemedText
-                          style={[
-                            styles.detailModalButtonText,
-                            { color: movieInWatchlist ? theme.accent : theme.text },
-                          ]}
-                        >
-                          {movieInWatchlist ? 'In Watchlist' : '+ Watchlist'}
-                        </ThemedText>
-                      </Pressable>
-                    </View>
-                  </View>
-                </ScrollView>
-              ) : null}
-            </View>
-          </View>
-        </Modal>
-
         {/* Input Section */}
         <View style={styles.section}>
           <ThemedText style={[styles.sectionLabel, { color: theme.textMuted }]}>
@@ -718,7 +537,7 @@ export default function HomeScreen() {
                           transform: [{ scale: pressed ? 0.97 : 1 }],
                         },
                       ]}
-                      onPress={() => setSelectedMovieId(movie.id)}
+                      onPress={() => openMovie(movie.id)}
                     >
                       {posterUri ? (
                         <Image source={{ uri: posterUri }} style={styles.posterImage} />
@@ -801,7 +620,7 @@ export default function HomeScreen() {
           {moodError && (
             <View style={[styles.moodExplanation, { backgroundColor: 'rgba(239, 68, 68, 0.12)', borderColor: 'rgba(239, 68, 68, 0.3)' }]}>
               <ThemedText style={[styles.moodExplanationText, { color: '#EF4444', fontStyle: 'normal' }]}>
-                {moodError}
+                {moodError.title} — {moodError.message}
               </ThemedText>
               <Pressable onPress={clearMoodResults}>
                 <ThemedText style={[styles.chipX, { color: '#EF4444' }]}>×</ThemedText>
@@ -810,7 +629,43 @@ export default function HomeScreen() {
           )}
         </View>
 
-        {/* Recommendations */}
+        {/* Watch together */}
+        {users.length > 1 && (
+          <View style={styles.section}>
+            <ThemedText style={[styles.sectionLabel, { color: theme.textMuted }]}>
+              WATCH TOGETHER
+            </ThemedText>
+            <WatchTogether key={activeUser} users={users} activeUserId={activeUser} onOpenMovie={openMovie} colors={theme} />
+          </View>
+        )}
+
+        {/* Rails */}
+        {railsLoading && rails.length === 0 ? (
+          <View style={styles.loadingState}>
+            <ActivityIndicator size="small" color={theme.accent} />
+          </View>
+        ) : rails.length > 0 ? (
+          <View style={styles.section}>
+            <ThemedText style={[styles.sectionLabel, { color: theme.textMuted }]}>
+              MORE TO EXPLORE
+            </ThemedText>
+            <View style={styles.rails}>
+              {rails.map((rail) => (
+                <RecommendationRail
+                  key={rail.id}
+                  rail={rail}
+                  refreshing={refreshingRail === rail.id}
+                  onRefresh={() => refreshRail(rail)}
+                  onSeeAll={() => openRail(rail)}
+                  onOpenMovie={openMovie}
+                  colors={theme}
+                />
+              ))}
+            </View>
+          </View>
+        ) : null}
+
+        {/* Recommendations (last: it grows as the user scrolls) */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <ThemedText style={[styles.sectionLabel, { color: theme.textMuted }]}>
@@ -845,7 +700,7 @@ export default function HomeScreen() {
                           transform: [{ scale: pressed ? 0.97 : 1 }],
                         },
                       ]}
-                      onPress={() => setSelectedMovieId(movie.id)}
+                      onPress={() => openMovie(movie.id)}
                     >
                       {posterUri ? (
                         <Image source={{ uri: posterUri }} style={styles.posterImage} />
@@ -881,51 +736,24 @@ export default function HomeScreen() {
                   );
                 })}
               </View>
-              <View style={styles.pager}>
-                <Pressable
-                  onPress={() => loadRecommendations(forYouPage - 1)}
-                  disabled={forYouPage <= 1 || isLoading}
-                  style={({ pressed }) => [
-                    styles.pagerButton,
-                    {
-                      backgroundColor: forYouPage <= 1 ? theme.inputBg : theme.accentSoft,
-                      opacity: pressed ? 0.7 : 1,
-                    },
-                  ]}
-                >
-                  <ThemedText style={[styles.pagerButtonText, { color: forYouPage <= 1 ? theme.textMuted : theme.accent }]}>
-                    Prev
-                  </ThemedText>
-                </Pressable>
-                <ThemedText style={[styles.pagerInfo, { color: theme.textMuted }]}>
-                  Page {forYouPage}
+              {loadingMore ? (
+                <View style={styles.loadingState}>
+                  <ActivityIndicator size="small" color={theme.accent} />
+                </View>
+              ) : moreError ? (
+                <ErrorNotice error={moreError} colors={theme} onRetry={loadMoreRecommendations} />
+              ) : !forYouCursor ? (
+                <ThemedText style={[styles.footerHint, { color: theme.textMuted }]}>
+                  You&apos;ve seen everything for now. Rate a few more movies for fresh picks.
                 </ThemedText>
-                <Pressable
-                  onPress={() => loadRecommendations(forYouPage + 1)}
-                  disabled={isLoading}
-                  style={({ pressed }) => [
-                    styles.pagerButton,
-                    {
-                      backgroundColor: theme.accentSoft,
-                      opacity: pressed ? 0.7 : 1,
-                    },
-                  ]}
-                >
-                  <ThemedText style={[styles.pagerButtonText, { color: theme.accent }]}>
-                    Next
-                  </ThemedText>
-                </Pressable>
-              </View>
+              ) : null}
             </>
+          ) : error ? (
+            <ErrorNotice error={error} colors={theme} onRetry={loadRecommendations} />
           ) : (
             <ThemedText style={[styles.footerHint, { color: theme.textMuted }]}>No recommendations yet.</ThemedText>
           )}
         </View>
-
-        {/* Footer hint */}
-        <ThemedText style={[styles.footerHint, { color: theme.textMuted }]}>
-          {error ? error : 'Browse pages for more movies'}
-        </ThemedText>
       </ScrollView>
     </View>
   );
@@ -1210,6 +1038,9 @@ const styles = StyleSheet.create({
     minWidth: 40,
     textAlign: 'center',
   },
+  rails: {
+    gap: 28,
+  },
   loadingState: {
     paddingVertical: 8,
     alignItems: 'center',
@@ -1235,172 +1066,4 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
   },
   // Movie detail modal
-  detailModalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.65)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 16,
-  },
-  detailModalContent: {
-    width: '100%',
-    maxHeight: '90%',
-    borderRadius: 16,
-    overflow: 'hidden',
-  },
-  detailModalClose: {
-    position: 'absolute',
-    top: 12,
-    right: 12,
-    zIndex: 10,
-    width: 36,
-    height: 36,
-    borderRadius: 18,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  detailModalCloseText: {
-    fontSize: 18,
-    fontWeight: '600',
-  },
-  detailModalLoading: {
-    padding: 48,
-    alignItems: 'center',
-    gap: 16,
-  },
-  detailModalLoadingText: {
-    fontSize: 15,
-    textAlign: 'center',
-  },
-  detailModalScroll: {
-    maxHeight: '100%',
-  },
-  detailModalScrollContent: {
-    paddingBottom: 32,
-  },
-  detailModalBackdrop: {
-    height: 180,
-    width: '100%',
-    backgroundColor: 'rgba(0,0,0,0.3)',
-  },
-  detailModalBackdropGradient: {
-    position: 'absolute',
-    left: 0,
-    right: 0,
-    bottom: 0,
-    height: 100,
-  },
-  detailModalBody: {
-    padding: 20,
-    gap: 10,
-  },
-  detailModalTitle: {
-    fontSize: 22,
-    fontWeight: '700',
-    marginTop: 8,
-  },
-  detailModalMeta: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    flexWrap: 'wrap',
-    gap: 6,
-  },
-  detailMetaText: {
-    fontSize: 14,
-  },
-  detailMetaDot: {
-    fontSize: 12,
-  },
-  detailModalGenres: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 8,
-    marginTop: 4,
-  },
-  detailGenreChip: {
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderRadius: 8,
-    borderWidth: 1,
-  },
-  detailGenreChipText: {
-    fontSize: 12,
-    fontWeight: '600',
-  },
-  detailTagline: {
-    fontSize: 14,
-    fontStyle: 'italic',
-    marginTop: 4,
-  },
-  detailSectionLabel: {
-    fontSize: 11,
-    fontWeight: '700',
-    letterSpacing: 1.2,
-    marginTop: 14,
-    marginBottom: 4,
-  },
-  detailOverview: {
-    fontSize: 15,
-    lineHeight: 22,
-  },
-  detailModalButton: {
-    paddingHorizontal: 20,
-    paddingVertical: 12,
-    borderRadius: 12,
-    alignItems: 'center',
-    marginTop: 8,
-  },
-  detailTrailerButton: {
-    marginTop: 12,
-  },
-  detailModalButtonText: {
-    color: '#FFF',
-    fontSize: 15,
-    fontWeight: '600',
-  },
-  detailCastText: {
-    fontSize: 14,
-    lineHeight: 20,
-  },
-  detailModalActions: {
-    flexDirection: 'row',
-    gap: 12,
-    marginTop: 20,
-    flexWrap: 'wrap',
-  },
-  detailModalActionButton: {
-    paddingHorizontal: 18,
-    paddingVertical: 12,
-    borderRadius: 12,
-    borderWidth: 1,
-    minWidth: 120,
-    alignItems: 'center',
-  },
-  ratingPickerContainer: {
-    flex: 1,
-    gap: 8,
-  },
-  ratingPickerLabel: {
-    fontSize: 12,
-    fontWeight: '600',
-    textTransform: 'uppercase',
-    letterSpacing: 0.5,
-  },
-  ratingPickerRow: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 6,
-  },
-  ratingPickerChip: {
-    width: 36,
-    height: 36,
-    borderRadius: 8,
-    borderWidth: 1,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  ratingPickerChipText: {
-    fontSize: 14,
-    fontWeight: '700',
-  },
 });
\ No newline at end of file
@@ -1,7 +1,5 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import {
-  ActivityIndicator,
-  Linking,
   Pressable,
   ScrollView,
   StyleSheet,
@@ -12,32 +10,44 @@ import {
   Modal,
   Platform,
 } from 'react-native';
+import { router } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { ErrorNotice } from '@/components/error-notice';
+import { LocaleModal } from '@/components/locale-modal';
+import { RatingDatasetsModal } from '@/components/rating-datasets-modal';
+import { StreamingServicesModal } from '@/components/streaming-services-modal';
+import { TasteMatchCard } from '@/components/taste-match-card';
 import { ThemedText } from '@/components/themed-text';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { ratingColor, ratingBg } from '@/utils/ratingColors';
+import { applyUserLocale, languageLabel, updateUserLocale } from '@/services/locale';
+import { getUnfinishedFranchises, type FranchiseProgress } from '@/services/collections';
+import { getTasteDrift } from '@/services/tasteProfile';
 import {
   getGenres,
-  getMovieDetails,
-  getMovieCredits,
-  getMovieVideos,
+  describeError,
+  isAbortError,
   posterUrl as tmdbPosterUrl,
-  backdropUrl as tmdbBackdropUrl,
-  type MovieDetails,
-  type Credits,
+  type ErrorDisplay,
 } from '@/services/tmdb';
 import {
+  getActiveUserId,
+  getAvailableUsers,
   getUserProfile,
   getUserName,
   clearCache,
   getWatchlist,
+  getHiddenMovieIds,
+  getRatingDatasets,
   removeFromWatchHistory,
   removeFromWatchlist,
-  addToWatchHistory,
-  addToWatchlist,
-  isInWatchlist,
-  getWatchedMovieIds,
+  updateWatchSettings,
+  watchSettingsFrom,
+  DEFAULT_LANGUAGE,
+  DEFAULT_REGION,
+  type LocaleSettings,
+  type WatchSettings,
   type UserProfile,
   type WatchedMovie,
 } from '@/services/storage';
@@ -98,6 +108,10 @@ function deriveTopGenres(watchHistory: WatchedMovie[], genreMap: Record<number,
     }));
 }
 
+function openMovie(movieId: number) {
+  router.push({ pathname: '/movie/[id]', params: { id: String(movieId) } });
+}
+
 export default function ProfileScreen() {
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [profile, setProfile] = useState<UserProfile | null>(null);
@@ -106,23 +120,71 @@ export default function ProfileScreen() {
   const [hoveredStat, setHoveredStat] = useState<'watched' | 'watchlist' | null>(null);
   const [displayName, setDisplayName] = useState('You');
   const [genreMap, setGenreMap] = useState<Record<number, string>>({});
+  const [genreError, setGenreError] = useState<ErrorDisplay | null>(null);
+  const [showStreamingModal, setShowStreamingModal] = useState(false);
+  const [showLocaleModal, setShowLocaleModal] = useState(false);
+  const [showRatingsModal, setShowRatingsModal] = useState(false);
+  const [franchises, setFranchises] = useState<FranchiseProgress[]>([]);
+  const [hiddenCount, setHiddenCount] = useState(0);
+  const [datasetCount, setDatasetCount] = useState(0);
   const colorScheme = useColorScheme();
   const theme = COLORS[colorScheme ?? 'dark'];
 
+  const loadGenres = useCallback(() => {
+    setGenreError(null);
+    getGenres()
+      .then((genres) => {
+        const map: Record<number, string> = {};
+        for (const g of genres) map[g.id] = g.name;
+        setGenreMap(map);
+      })
+      .catch((e) => setGenreError(describeError(e, "Couldn't load genre names")));
+  }, []);
+
   useFocusEffect(
     useCallback(() => {
+      const controller = new AbortController();
       clearCache();
       getUserProfile().then(setProfile);
       getWatchlist().then(setWatchlist);
       getUserName().then(setDisplayName);
-      getGenres().then((genres) => {
-        const map: Record<number, string> = {};
-        for (const g of genres) map[g.id] = g.name;
-        setGenreMap(map);
+      getHiddenMovieIds().then((ids) => setHiddenCount(ids.length));
+      getRatingDatasets().then((datasets) => setDatasetCount(datasets.length));
+      // Genre names and titles are localized, so fetch them in the user's language
+      applyUserLocale().then(() => {
+        loadGenres();
+        getUnfinishedFranchises({ signal: controller.signal })
+          .then(setFranchises)
+          .catch((e) => {
+            if (!isAbortError(e)) setFranchises([]);
+          });
       });
-    }, [])
+      return () => controller.abort();
+    }, [loadGenres])
   );
 
+  const streamingSettings = useMemo<WatchSettings>(() => watchSettingsFrom(profile?.preferences ?? {}), [profile]);
+
+  const localeSettings = useMemo<LocaleSettings>(() => ({
+    language: profile?.preferences.language ?? DEFAULT_LANGUAGE,
+    region: profile?.preferences.region ?? DEFAULT_REGION,
+  }), [profile]);
+
+  const handleSaveLocale = useCallback(async (settings: LocaleSettings) => {
+    setShowLocaleModal(false);
+    await updateUserLocale(settings);
+    const updated = await getUserProfile();
+    setProfile({ ...updated });
+    loadGenres();
+  }, [loadGenres]);
+
+  const handleSaveStreaming = useCallback(async (settings: WatchSettings) => {
+    setShowStreamingModal(false);
+    await updateWatchSettings(settings);
+    const updated = await getUserProfile();
+    setProfile({ ...updated });
+  }, []);
+
   const watchHistory = profile?.watchHistory ?? [];
   const watchedCount = watchHistory.length;
   const avgRating = watchedCount > 0
@@ -131,81 +193,13 @@ export default function ProfileScreen() {
   const topGenres = deriveTopGenres(watchHistory, genreMap);
   const maxGenreCount = topGenres.length > 0 ? topGenres[0].count : 1;
   const recentRatings = [...watchHistory].reverse().slice(0, 5);
+  const tasteDrift = getTasteDrift(watchHistory);
+  // One color per genre across every quarter, so shifts are easy to follow
+  const driftGenres = [...new Set(tasteDrift.flatMap((q) => q.genres.map((g) => g.id)))];
+  const driftColor = (genreId: number) => GENRE_COLORS[driftGenres.indexOf(genreId) % GENRE_COLORS.length];
 
   const activeUserName = displayName;
-
-  // ── Movie detail modal state ────────────────────────────────────────────────
-  const [selectedMovieId, setSelectedMovieId] = useState<number | null>(null);
-  const [movieDetail, setMovieDetail] = useState<MovieDetails | null>(null);
-  const [movieCredits, setMovieCredits] = useState<Credits | null>(null);
-  const [trailerKey, setTrailerKey] = useState<string | null>(null);
-  const [movieDetailLoading, setMovieDetailLoading] = useState(false);
-  const [movieDetailError, setMovieDetailError] = useState<string | null>(null);
-  const [movieInWatchlist, setMovieInWatchlist] = useState(false);
-  const [movieWatched, setMovieWatched] = useState(false);
-  const [showRatingPicker, setShowRatingPicker] = useState(false);
-
-  useEffect(() => {
-    if (!selectedMovieId) {
-      setMovieDetail(null);
-      setMovieCredits(null);
-      setTrailerKey(null);
-      setMovieDetailError(null);
-      setShowRatingPicker(false);
-      return;
-    }
-    setMovieDetailLoading(true);
-    setMovieDetailError(null);
-    Promise.all([
-      getMovieDetails(selectedMovieId),
-      getMovieCredits(selectedMovieId),
-      getMovieVideos(selectedMovieId),
-      isInWatchlist(selectedMovieId),
-      getWatchedMovieIds(),
-    ]).then(([details, credits, videos, inList, watchedIds]) => {
-      setMovieDetail(details);
-      setMovieCredits(credits);
-      const trailer = videos.results.find((v) => v.type === 'Trailer' && v.site === 'YouTube');
-      setTrailerKey(trailer?.key ?? null);
-      setMovieInWatchlist(inList);
-      setMovieWatched(watchedIds.includes(selectedMovieId));
-    }).catch((e) => {
-      setMovieDetailError(e instanceof Error ? e.message : 'Failed to load movie');
-    }).finally(() => {
-      setMovieDetailLoading(false);
-    });
-  }, [selectedMovieId]);
-
-  const openTrailer = useCallback(() => {
-    if (trailerKey) Linking.openURL(`https://www.youtube.com/watch?v=${trailerKey}`);
-  }, [trailerKey]);
-
-  const handleDetailWatchlistPress = useCallback(async () => {
-    if (!movieDetail) return;
-    if (movieInWatchlist) {
-      setMovieInWatchlist(false);
-      await removeFromWatchlist(movieDetail.id);
-    } else {
-      setMovieInWatchlist(true);
-      await addToWatchlist({ movieId: movieDetail.id, title: movieDetail.title, posterPath: movieDetail.poster_path });
-    }
-    refreshLists();
-  }, [movieDetail, movieInWatchlist]);
-
-  const handleDetailAddToWatched = useCallback(async (rating: number) => {
-    if (!movieDetail) return;
-    setShowRatingPicker(false);
-    setMovieWatched(true);
-    await addToWatchHistory({
-      movieId: movieDetail.id,
-      title: movieDetail.title,
-      rating,
-      watchedAt: new Date().toISOString().split('T')[0],
-      genres: movieDetail.genres.map((g) => g.id),
-      posterPath: movieDetail.poster_path,
-    });
-    refreshLists();
-  }, [movieDetail]);
+  const users = getAvailableUsers();
 
   const refreshLists = useCallback(() => {
     getUserProfile().then(setProfile);
@@ -321,6 +315,7 @@ export default function ProfileScreen() {
             Top Genres
           </ThemedText>
           <View style={[styles.genresCard, { backgroundColor: theme.surface, borderColor: theme.cardBorder }]}>
+            {genreError && <ErrorNotice error={genreError} colors={theme} onRetry={loadGenres} />}
             {topGenres.map((genre) => (
               <View key={genre.name} style={styles.genreRow}>
                 <View style={styles.genreInfo}>
@@ -348,6 +343,58 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Taste Drift */}
+        {tasteDrift.length > 1 && (
+          <View style={styles.section}>
+            <ThemedText style={[styles.sectionTitle, { color: theme.text }]}>
+              Taste Drift
+            </ThemedText>
+            <View style={[styles.genresCard, { backgroundColor: theme.surface, borderColor: theme.cardBorder }]}>
+              {tasteDrift.map((quarter) => (
+                <View key={quarter.label} style={styles.driftRow}>
+                  <View style={styles.driftQuarter}>
+                    <ThemedText style={[styles.driftLabel, { color: theme.text }]}>{quarter.label}</ThemedText>
+                    <ThemedText style={[styles.driftMeta, { color: theme.textMuted }]}>
+                      {quarter.watched} watched
+                    </ThemedText>
+                  </View>
+                  <View style={styles.driftBody}>
+                    <View style={[styles.genreBarContainer, styles.driftBar]}>
+                      {quarter.genres.map((g) => (
+                        <View
+                          key={g.id}
+                          style={{ width: `${g.share * 100}%`, backgroundColor: driftColor(g.id) }}
+                        />
+                      ))}
+                    </View>
+                    <ThemedText style={[styles.driftMeta, { color: theme.textMuted }]} numberOfLines={1}>
+                      {quarter.genres.length > 0
+                        ? quarter.genres.map((g) => genreMap[g.id] ?? `Genre ${g.id}`).join(' · ')
+                        : 'Nothing rated above 5'}
+                    </ThemedText>
+                  </View>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Taste Match */}
+        {users.length > 1 && (
+          <View style={styles.section}>
+            <ThemedText style={[styles.sectionTitle, { color: theme.text }]}>
+              Taste Match
+            </ThemedText>
+            <TasteMatchCard
+              key={getActiveUserId()}
+              users={users}
+              activeUserId={getActiveUserId()}
+              onOpenMovie={openMovie}
+              colors={theme}
+            />
+          </View>
+        )}
+
         {/* Recent Ratings */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -381,7 +428,7 @@ export default function ProfileScreen() {
                       transform: [{ scale: pressed ? 0.95 : 1 }],
                     }
                   ]}
-                  onPress={() => setSelectedMovieId(movie.movieId)}
+                  onPress={() => openMovie(movie.movieId)}
                 >
                   <View style={[styles.miniPoster, { backgroundColor: theme.posterBg }]}>
                     {posterUri ? (
@@ -407,6 +454,64 @@ export default function ProfileScreen() {
           </ScrollView>
         </View>
 
+        {/* Unfinished Franchises */}
+        {franchises.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <ThemedText style={[styles.sectionTitle, { color: theme.text }]}>
+                Unfinished Franchises
+              </ThemedText>
+            </View>
+
+            <View style={[styles.watchlistCard, { backgroundColor: theme.surface, borderColor: theme.cardBorder }]}>
+              {franchises.map((franchise, index) => {
+                const next = franchise.next;
+                if (!next) return null;
+                const posterUri = tmdbPosterUrl(next.poster_path, 'w185');
+                const total = franchise.entries.length;
+                return (
+                  <View key={franchise.collection.id}>
+                    <Pressable style={styles.watchlistItem} onPress={() => openMovie(next.id)}>
+                      <View style={[styles.watchlistPoster, { backgroundColor: theme.posterBg }]}>
+                        {posterUri ? (
+                          <Image source={{ uri: posterUri }} style={styles.watchlistPosterImage} />
+                        ) : (
+                          <ThemedText style={styles.watchlistPosterEmoji}>🎬</ThemedText>
+                        )}
+                      </View>
+                      <View style={styles.watchlistInfo}>
+                        <ThemedText style={[styles.watchlistTitle, { color: theme.text }]} numberOfLines={1}>
+                          {franchise.collection.name}
+                        </ThemedText>
+                        <ThemedText style={[styles.franchiseNext, { color: theme.accent }]} numberOfLines={1}>
+                          Next: {next.title}
+                          {next.release_date ? ` (${next.release_date.slice(0, 4)})` : ''}
+                        </ThemedText>
+                        <View style={styles.franchiseProgressRow}>
+                          <View style={[styles.franchiseTrack, { backgroundColor: theme.posterBg }]}>
+                            <View
+                              style={[
+                                styles.franchiseFill,
+                                { width: `${(franchise.watchedCount / total) * 100}%`, backgroundColor: theme.accent },
+                              ]}
+                            />
+                          </View>
+                          <ThemedText style={[styles.franchiseCount, { color: theme.textMuted }]}>
+                            {franchise.watchedCount} of {total} watched
+                          </ThemedText>
+                        </View>
+                      </View>
+                    </Pressable>
+                    {index < franchises.length - 1 && (
+                      <View style={[styles.divider, { backgroundColor: theme.cardBorder }]} />
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
         {/* Watchlist Preview */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -432,7 +537,7 @@ export default function ProfileScreen() {
                   : null;
                 return (
                 <View key={movie.movieId}>
-                  <Pressable style={styles.watchlistItem} onPress={() => setSelectedMovieId(movie.movieId)}>
+                  <Pressable style={styles.watchlistItem} onPress={() => openMovie(movie.movieId)}>
                     <View style={[styles.watchlistPoster, { backgroundColor: theme.posterBg }]}>
                       {posterUri ? (
                         <Image source={{ uri: posterUri }} style={styles.watchlistPosterImage} />
@@ -511,6 +616,64 @@ export default function ProfileScreen() {
                 TMDB
               </ThemedText>
             </Pressable>
+
+            <View style={[styles.divider, { backgroundColor: theme.cardBorder }]} />
+
+            <Pressable style={styles.settingsRow} onPress={() => setShowStreamingModal(true)}>
+              <View style={styles.settingsLeft}>
+                <ThemedText style={styles.settingsEmoji}>📺</ThemedText>
+                <ThemedText style={[styles.settingsLabel, { color: theme.text }]}>
+                  Streaming Services
+                </ThemedText>
+              </View>
+              <ThemedText style={[styles.settingsValue, { color: theme.textMuted }]}>
+                {streamingSettings.region} · {streamingSettings.services.length > 0
+                  ? `${streamingSettings.services.length} service${streamingSettings.services.length !== 1 ? 's' : ''}`
+                  : 'None'} ›
+              </ThemedText>
+            </Pressable>
+
+            <View style={[styles.divider, { backgroundColor: theme.cardBorder }]} />
+
+            <Pressable style={styles.settingsRow} onPress={() => setShowLocaleModal(true)}>
+              <View style={styles.settingsLeft}>
+                <ThemedText style={styles.settingsEmoji}>🌐</ThemedText>
+                <ThemedText style={[styles.settingsLabel, { color: theme.text }]}>
+                  Language & Region
+                </ThemedText>
+              </View>
+              <ThemedText style={[styles.settingsValue, { color: theme.textMuted }]}>
+                {languageLabel(localeSettings.language)} · {localeSettings.region} ›
+              </ThemedText>
+            </Pressable>
+
+            <View style={[styles.divider, { backgroundColor: theme.cardBorder }]} />
+
+            <Pressable style={styles.settingsRow} onPress={() => router.push('/hidden')}>
+              <View style={styles.settingsLeft}>
+                <ThemedText style={styles.settingsEmoji}>🙈</ThemedText>
+                <ThemedText style={[styles.settingsLabel, { color: theme.text }]}>
+                  Not Interested
+                </ThemedText>
+              </View>
+              <ThemedText style={[styles.settingsValue, { color: theme.textMuted }]}>
+                {hiddenCount > 0 ? `${hiddenCount} hidden` : 'None'} ›
+              </ThemedText>
+            </Pressable>
+
+            <View style={[styles.divider, { backgroundColor: theme.cardBorder }]} />
+
+            <Pressable style={styles.settingsRow} onPress={() => setShowRatingsModal(true)}>
+              <View style={styles.settingsLeft}>
+                <ThemedText style={styles.settingsEmoji}>📊</ThemedText>
+                <ThemedText style={[styles.settingsLabel, { color: theme.text }]}>
+                  Rating Data
+                </ThemedText>
+              </View>
+              <ThemedText style={[styles.settingsValue, { color: theme.textMuted }]}>
+                {datasetCount > 0 ? `${datasetCount} imported` : 'None'} ›
+              </ThemedText>
+            </Pressable>
             
           </View>
         </View>
@@ -538,126 +701,28 @@ export default function ProfileScreen() {
         <View style={{ height: 100 }} />
       </ScrollView>
 
-      {/* Movie Detail Modal */}
-      <Modal
-        visible={selectedMovieId !== null}
-        transparent
-        animationType="slide"
-        onRequestClose={() => setSelectedMovieId(null)}
-      >
-        <View style={styles.detailModalOverlay}>
-          <Pressable style={StyleSheet.absoluteFill} onPress={() => setSelectedMovieId(null)} />
-          <View style={[styles.detailModalContent, { backgroundColor: theme.bg }]}>
-            <Pressable
-              style={[styles.detailModalClose, { backgroundColor: theme.card }]}
-              onPress={() => setSelectedMovieId(null)}
-            >
-              <ThemedText style={[styles.detailModalCloseText, { color: theme.text }]}>✕</ThemedText>
-            </Pressable>
-            {movieDetailLoading ? (
-              <View style={styles.detailModalLoading}>
-                <ActivityIndicator size="large" color={theme.accent} />
-                <ThemedText style={[styles.detailModalLoadingText, { color: theme.textMuted }]}>Loading...</ThemedText>
-              </View>
-            ) : movieDetailError ? (
-              <View style={styles.detailModalLoading}>
-                <ThemedText style={[styles.detailModalLoadingText, { color: theme.textMuted }]}>{movieDetailError}</ThemedText>
-                <Pressable style={[styles.detailModalButton, { backgroundColor: theme.accent }]} onPress={() => setSelectedMovieId(null)}>
-                  <ThemedText style={styles.detailModalButtonText}>Close</ThemedText>
-                </Pressable>
-              </View>
-            ) : movieDetail ? (
-              <ScrollView style={styles.detailModalScroll} contentContainerStyle={styles.detailModalScrollContent} showsVerticalScrollIndicator={false}>
-                <View style={styles.detailModalBackdrop}>
-                  {tmdbBackdropUrl(movieDetail.backdrop_path, 'w780') ? (
-                    <Image source={{ uri: tmdbBackdropUrl(movieDetail.backdrop_path, 'w780')! }} style={StyleSheet.absoluteFill} resizeMode="cover" />
-                  ) : tmdbPosterUrl(movieDetail.poster_path, 'w500') ? (
-                    <Image source={{ uri: tmdbPosterUrl(movieDetail.poster_path, 'w500')! }} style={StyleSheet.absoluteFill} resizeMode="cover" />
-                  ) : null}
-                  <LinearGradient colors={['transparent', theme.bg]} style={styles.detailModalBackdropGradient} />
-                </View>
-                <View style={styles.detailModalBody}>
-                  <ThemedText style={[styles.detailModalTitle, { color: theme.text }]}>{movieDetail.title}</ThemedText>
-                  <View style={styles.detailModalMeta}>
-                    <ThemedText style={[styles.detailMetaText, { color: theme.textMuted }]}>{movieDetail.release_date?.slice(0, 4) || '—'}</ThemedText>
-                    <ThemedText style={[styles.detailMetaDot, { color: theme.textMuted }]}>•</ThemedText>
-                    <ThemedText style={[styles.detailMetaText, { color: theme.textMuted }]}>★ {movieDetail.vote_average.toFixed(1)}</ThemedText>
-                    {movieDetail.runtime ? (
-                      <>
-                        <ThemedText style={[styles.detailMetaDot, { color: theme.textMuted }]}>•</ThemedText>
-                        <ThemedText style={[styles.detailMetaText, { color: theme.textMuted }]}>{movieDetail.runtime} min</ThemedText>
-                      </>
-                    ) : null}
-                  </View>
-                  {movieDetail.genres.length > 0 && (
-                    <View style={styles.detailModalGenres}>
-                      {movieDetail.genres.slice(0, 5).map((g) => (
-                        <View key={g.id} style={[styles.detailGenreChip, { backgroundColor: theme.accentSoft, borderColor: theme.cardBorder }]}>
-                          <ThemedText style={[styles.detailGenreChipText, { color: theme.accent }]}>{g.name}</ThemedText>
-                        </View>
-                      ))}
-                    </View>
-                  )}
-                  {movieDetail.tagline ? (
-                    <ThemedText style={[styles.detailTagline, { color: theme.textMuted }]}>{movieDetail.tagline}</ThemedText>
-                  ) : null}
-                  {movieDetail.overview ? (
-                    <>
-                      <ThemedText style={[styles.detailSectionLabel, { color: theme.textMuted }]}>SYNOPSIS</ThemedText>
-                      <ThemedText style={[styles.detailOverview, { color: theme.text }]}>{movieDetail.overview}</ThemedText>
-                    </>
-                  ) : null}
-                  {trailerKey ? (
-                    <Pressable style={[styles.detailModalButton, styles.detailTrailerButton, { backgroundColor: theme.accent }]} onPress={openTrailer}>
-                      <ThemedText style={styles.detailModalButtonText}>▶ Watch Trailer</ThemedText>
-                    </Pressable>
-                  ) : null}
-                  {movieCredits && movieCredits.cast.length > 0 && (
-                    <>
-                      <ThemedText style={[styles.detailSectionLabel, { color: theme.textMuted }]}>CAST</ThemedText>
-                      <ThemedText style={[styles.detailCastText, { color: theme.text }]}>
-                        {movieCredits.cast.slice(0, 10).map((c) => c.name).join(' · ')}
-                      </ThemedText>
-                    </>
-                  )}
-                  <View style={styles.detailModalActions}>
-                    {!movieWatched && !showRatingPicker && (
-                      <Pressable style={[styles.detailModalActionButton, { backgroundColor: theme.accent }]} onPress={() => setShowRatingPicker(true)}>
-                        <ThemedText style={styles.detailModalButtonText}>Add to Watched</ThemedText>
-                      </Pressable>
-                    )}
-                    {!movieWatched && showRatingPicker && (
-                      <View style={styles.detailRatingPicker}>
-                        <ThemedText style={[styles.detailRatingLabel, { color: theme.textMuted }]}>Rate it:</ThemedText>
-                        <View style={styles.detailRatingRow}>
-                          {[1,2,3,4,5,6,7,8,9,10].map((r) => (
-                            <Pressable key={r} style={[styles.detailRatingChip, { backgroundColor: theme.accentSoft, borderColor: theme.accent }]} onPress={() => handleDetailAddToWatched(r)}>
-                              <ThemedText style={[styles.detailRatingChipText, { color: theme.accent }]}>{r}</ThemedText>
-                            </Pressable>
-                          ))}
-                        </View>
-                      </View>
-                    )}
-                    {movieWatched && (
-                      <View style={[styles.detailModalActionButton, { backgroundColor: theme.accentSoft }]}>
-                        <ThemedText style={[styles.detailModalButtonText, { color: theme.accent }]}>✓ Watched</ThemedText>
-                      </View>
-                    )}
-                    <Pressable
-                      style={[styles.detailModalActionButton, { backgroundColor: movieInWatchlist ? theme.accentSoft : theme.card, borderColor: theme.cardBorder }]}
-                      onPress={handleDetailWatchlistPress}
-                    >
-                      <ThemedText style={[styles.detailModalButtonText, { color: movieInWatchlist ? theme.accent : theme.text }]}>
-                        {movieInWatchlist ? 'In Watchlist' : '+ Watchlist'}
-                      </ThemedText>
-                    </Pressable>
-                  </View>
-                </View>
-              </ScrollView>
-            ) : null}
-          </View>
-        </View>
-      </Modal>
+      <StreamingServicesModal
+        visible={showStreamingModal}
+        initial={streamingSettings}
+        onClose={() => setShowStreamingModal(false)}
+        onSave={handleSaveStreaming}
+        colors={theme}
+      />
+
+      <LocaleModal
+        visible={showLocaleModal}
+        initial={localeSettings}
+        onClose={() => setShowLocaleModal(false)}
+        onSave={handleSaveLocale}
+        colors={theme}
+      />
+
+      <RatingDatasetsModal
+        visible={showRatingsModal}
+        onClose={() => setShowRatingsModal(false)}
+        onChange={(datasets) => setDatasetCount(datasets.length)}
+        colors={theme}
+      />
 
       {/* List modal (Watched / Watchlist) */}
       <Modal
@@ -701,7 +766,7 @@ export default function ProfileScreen() {
                     <Pressable
                       key={movie.movieId}
                       style={[styles.listModalRow, { borderColor: theme.cardBorder }]}
-                      onPress={() => { setListModal(null); setSelectedMovieId(movie.movieId); }}
+                      onPress={() => { setListModal(null); openMovie(movie.movieId); }}
                     >
                       <View style={[styles.listModalPoster, { backgroundColor: theme.posterBg }]}>
                         {uri ? (
@@ -743,7 +808,7 @@ export default function ProfileScreen() {
                     <Pressable
                       key={movie.movieId}
                       style={[styles.listModalRow, { borderColor: theme.cardBorder }]}
-                      onPress={() => { setListModal(null); setSelectedMovieId(movie.movieId); }}
+                      onPress={() => { setListModal(null); openMovie(movie.movieId); }}
                     >
                       <View style={[styles.listModalPoster, { backgroundColor: theme.posterBg }]}>
                         {uri ? (
@@ -923,6 +988,29 @@ const styles = StyleSheet.create({
     width: 24,
     textAlign: 'right',
   },
+  driftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  driftQuarter: {
+    width: 90,
+  },
+  driftLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  driftMeta: {
+    fontSize: 12,
+  },
+  driftBody: {
+    flex: 1,
+    gap: 6,
+  },
+  driftBar: {
+    flex: 0,
+    flexDirection: 'row',
+  },
   ratingsScroll: {
     paddingHorizontal: 20,
     gap: 12,
@@ -1024,6 +1112,30 @@ const styles = StyleSheet.create({
     height: 1,
     marginHorizontal: 14,
   },
+  franchiseNext: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  franchiseProgressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 6,
+  },
+  franchiseTrack: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  franchiseFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+  franchiseCount: {
+    fontSize: 11,
+  },
   settingsCard: {
     marginHorizontal: 20,
     borderRadius: 14,
@@ -1163,57 +1275,4 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
-  detailModalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.65)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 16,
-  },
-  detailModalContent: {
-    width: '100%',
-    maxHeight: '90%',
-    borderRadius: 16,
-    overflow: 'hidden',
-  },
-  detailModalClose: {
-    position: 'absolute',
-    top: 12,
-    right: 12,
-    zIndex: 10,
-    width: 36,
-    height: 36,
-    borderRadius: 18,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  detailModalCloseText: { fontSize: 18, fontWeight: '600' },
-  detailModalLoading: { padding: 48, alignItems: 'center', gap: 16 },
-  detailModalLoadingText: { fontSize: 15, textAlign: 'center' },
-  detailModalScroll: { maxHeight: '100%' },
-  detailModalScrollContent: { paddingBottom: 32 },
-  detailModalBackdrop: { height: 180, width: '100%', backgroundColor: 'rgba(0,0,0,0.3)' },
-  detailModalBackdropGradient: { position: 'absolute', left: 0, right: 0, bottom: 0, height: 100 },
-  detailModalBody: { padding: 20, gap: 10 },
-  detailModalTitle: { fontSize: 22, fontWeight: '700', marginTop: 8 },
-  detailModalMeta: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 6 },
-  detailMetaText: { fontSize: 14 },
-  detailMetaDot: { fontSize: 12 },
-  detailModalGenres: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 4 },
-  detailGenreChip: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 8, borderWidth: 1 },
-  detailGenreChipText: { fontSize: 12, fontWeight: '600' },
-  detailTagline: { fontSize: 14, fontStyle: 'italic', marginTop: 4 },
-  detailSectionLabel: { fontSize: 11, fontWeight: '700', letterSpacing: 1.2, marginTop: 14, marginBottom: 4 },
-  detailOverview: { fontSize: 15, lineHeight: 22 },
-  detailModalButton: { paddingHorizontal: 20, paddingVertical: 12, borderRadius: 12, alignItems: 'center', marginTop: 8 },
-  detailTrailerButton: { marginTop: 12 },
-  detailModalButtonText: { color: '#FFF', fontSize: 15, fontWeight: '600' },
-  detailCastText: { fontSize: 14, lineHeight: 20 },
-  detailModalActions: { flexDirection: 'row', gap: 12, marginTop: 20, flexWrap: 'wrap' },
-  detailModalActionButton: { paddingHorizontal: 18, paddingVertical: 12, borderRadius: 12, borderWidth: 1 },
-  detailRatingPicker: { gap: 8 },
-  detailRatingLabel: { fontSize: 13, fontWeight: '600' },
-  detailRatingRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
-  detailRatingChip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 8, borderWidth: 1 },
-  detailRatingChipText: { fontSize: 13, fontWeight: '700' },
 });
\ No newline at end of file
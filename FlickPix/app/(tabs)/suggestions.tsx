@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState, useCallback, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import {
   ActivityIndicator,
   Modal,
@@ -8,24 +8,37 @@ import {
   View,
   Dimensions,
   Image,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router } from 'expo-router';
-import { Linking } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { DiversitySlider } from '@/components/diversity-slider';
+import { ErrorNotice } from '@/components/error-notice';
+import { MatchExplanation } from '@/components/match-explanation';
+import { NotInterestedPicker } from '@/components/not-interested-picker';
 import { ThemedText } from '@/components/themed-text';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { getRecommendations } from '@/services/recommendations';
+import type { MatchBreakdown } from '@/services/matchScore';
+import { getRecommendationPage, type Recommendation } from '@/services/recommendations';
 import {
   getGenres,
-  getMovieDetails,
-  getMovieCredits,
-  getMovieVideos,
-  posterUrl as tmdbPosterUrl,
-  backdropUrl as tmdbBackdropUrl,
-  type MovieDetails,
-  type Credits,
+  describeError,
+  type ErrorDisplay,
 } from '@/services/tmdb';
-import { addToWatchlist, removeFromWatchlist, isInWatchlist, addToWatchHistory, removeFromWatchHistory, getWatchedMovieIds, getWatchHistory } from '@/services/storage';
+import {
+  addToWatchlist,
+  removeFromWatchlist,
+  isInWatchlist,
+  addToWatchHistory,
+  removeFromWatchHistory,
+  getWatchedMovieIds,
+  getWatchHistory,
+  getWatchSettings,
+  hideMovie,
+  type NotInterestedReason,
+} from '@/services/storage';
 import { ratingColor, ratingBg } from '@/utils/ratingColors';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -64,6 +77,8 @@ const COLORS = {
 };
 
 const ALL_GENRE_ID = 0;
+const PAGE_SIZE = 12;
+const LOAD_MORE_DISTANCE = 600;
 
 interface Movie {
   id: number;
@@ -71,6 +86,7 @@ interface Movie {
   year: string;
   rating: number;
   matchScore: number;
+  match: MatchBreakdown | null;
   poster: string | null;
   reason: string;
   genres: string[];
@@ -79,17 +95,30 @@ interface Movie {
 
 const QUICK_RATINGS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
 
-function SuggestionCard({ movie, theme, onPress }: { movie: Movie; theme: typeof COLORS.dark; onPress: () => void }) {
+function SuggestionCard({
+  movie,
+  theme,
+  onPress,
+  onHide,
+}: {
+  movie: Movie;
+  theme: typeof COLORS.dark;
+  onPress: () => void;
+  onHide: () => void;
+}) {
   const [imageError, setImageError] = useState(false);
   const [watchlisted, setWatchlisted] = useState(false);
-  useEffect(() => {
-    isInWatchlist(movie.id).then(setWatchlisted);
-  }, [movie.id]);
   const [watched, setWatched] = useState(false);
   const [showRating, setShowRating] = useState(false);
-  useEffect(() => {
-    getWatchedMovieIds().then((ids) => setWatched(ids.includes(movie.id)));
-  }, [movie.id]);
+  const [showHide, setShowHide] = useState(false);
+  const [showWhy, setShowWhy] = useState(false);
+  // Re-check on focus: the movie may have been rated or listed on its own page
+  useFocusEffect(
+    useCallback(() => {
+      isInWatchlist(movie.id).then(setWatchlisted);
+      getWatchedMovieIds().then((ids) => setWatched(ids.includes(movie.id)));
+    }, [movie.id])
+  );
 
   const posterUrl = movie.poster
     ? `https://image.tmdb.org/t/p/w500${movie.poster}`
@@ -118,6 +147,12 @@ function SuggestionCard({ movie, theme, onPress }: { movie: Movie; theme: typeof
     });
   }, [movie]);
 
+  const handleHide = useCallback(async (reason: NotInterestedReason | null) => {
+    setShowHide(false);
+    onHide();
+    await hideMovie({ movieId: movie.id, title: movie.title, posterPath: movie.poster, genres: movie.genreIds, reason });
+  }, [movie, onHide]);
+
   return (
     <View
       style={[
@@ -149,11 +184,16 @@ function SuggestionCard({ movie, theme, onPress }: { movie: Movie; theme: typeof
           <ThemedText style={[styles.cardTitle, { color: theme.text }]} numberOfLines={1}>
             {movie.title}
           </ThemedText>
-          <View style={[styles.matchBadge, { backgroundColor: theme.greenSoft }]}>
+          <Pressable
+            style={[styles.matchBadge, { backgroundColor: theme.greenSoft }]}
+            onPress={() => setShowWhy((prev) => !prev)}
+            disabled={!movie.match}
+            accessibilityLabel="Why this score"
+          >
             <ThemedText style={[styles.matchText, { color: theme.green }]}>
-              {movie.matchScore}% match
+              {movie.matchScore}% match{movie.match ? ' ⓘ' : ''}
             </ThemedText>
-          </View>
+          </Pressable>
         </View>
 
         <View style={styles.cardMeta}>
@@ -180,6 +220,8 @@ function SuggestionCard({ movie, theme, onPress }: { movie: Movie; theme: typeof
           {movie.reason}
         </ThemedText>
 
+        {showWhy && movie.match && <MatchExplanation match={movie.match} colors={theme} />}
+
         {/* Inline rating picker */}
         {showRating && (
           <View style={styles.ratingPicker}>
@@ -198,8 +240,12 @@ function SuggestionCard({ movie, theme, onPress }: { movie: Movie; theme: typeof
           </View>
         )}
 
+        {showHide && (
+          <NotInterestedPicker onPick={handleHide} onCancel={() => setShowHide(false)} colors={theme} />
+        )}
+
         {/* Actions */}
-        {!showRating && (
+        {!showRating && !showHide && (
           <View style={styles.cardActions}>
             <Pressable
               style={[styles.addButton, { backgroundColor: watchlisted ? theme.accentSoft : theme.accent }]}
@@ -224,6 +270,13 @@ function SuggestionCard({ movie, theme, onPress }: { movie: Movie; theme: typeof
                 {watched ? '✓ Watched' : 'Seen it'}
               </ThemedText>
             </Pressable>
+            <Pressable
+              style={[styles.seenButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+              onPress={() => setShowHide(true)}
+              accessibilityLabel="Not interested"
+            >
+              <ThemedText style={[styles.seenButtonText, { color: theme.textMuted }]}>✕</ThemedText>
+            </Pressable>
           </View>
         )}
       </View>
@@ -237,93 +290,48 @@ export default function SuggestionsScreen() {
   const [showGenresModal, setShowGenresModal] = useState(false);
   const [suggestions, setSuggestions] = useState<Movie[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorDisplay | null>(null);
+  const [onMyServices, setOnMyServices] = useState(false);
+  const [hasServices, setHasServices] = useState(false);
+  const [diversity, setDiversity] = useState(0.3);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [moreError, setMoreError] = useState<ErrorDisplay | null>(null);
+  const genreNames = useRef(new Map<number, string>());
+  const loadingMoreRef = useRef(false);
   const colorScheme = useColorScheme();
   const theme = COLORS[colorScheme ?? 'dark'];
 
-  // ── Movie detail modal ───────────────────────────────────────────────────────
-  const [selectedMovieId, setSelectedMovieId] = useState<number | null>(null);
-  const [movieDetail, setMovieDetail] = useState<MovieDetails | null>(null);
-  const [movieCredits, setMovieCredits] = useState<Credits | null>(null);
-  const [trailerKey, setTrailerKey] = useState<string | null>(null);
-  const [detailLoading, setDetailLoading] = useState(false);
-  const [detailError, setDetailError] = useState<string | null>(null);
-  const [detailInWatchlist, setDetailInWatchlist] = useState(false);
-  const [detailWatched, setDetailWatched] = useState(false);
-  const [detailRatingPicker, setDetailRatingPicker] = useState(false);
-  const detailCancelRef = useRef(false);
-
-  useEffect(() => {
-    if (!selectedMovieId) {
-      setMovieDetail(null); setMovieCredits(null); setTrailerKey(null);
-      setDetailError(null); setDetailRatingPicker(false);
-      return;
-    }
-    detailCancelRef.current = false;
-    setDetailLoading(true);
-    setDetailError(null);
-    Promise.all([
-      getMovieDetails(selectedMovieId),
-      getMovieCredits(selectedMovieId),
-      getMovieVideos(selectedMovieId),
-      isInWatchlist(selectedMovieId),
-      getWatchedMovieIds(),
-    ]).then(([details, credits, videos, inList, watchedIds]) => {
-      if (detailCancelRef.current) return;
-      setMovieDetail(details);
-      setMovieCredits(credits);
-      const trailer = videos.results.find((v) => v.site === 'YouTube' && (v.type === 'Trailer' || v.type === 'Teaser'));
-      setTrailerKey(trailer?.key ?? null);
-      setDetailInWatchlist(inList);
-      setDetailWatched(watchedIds.includes(selectedMovieId));
-    }).catch((e) => {
-      if (!detailCancelRef.current) setDetailError(e instanceof Error ? e.message : 'Failed to load');
-    }).finally(() => {
-      if (!detailCancelRef.current) setDetailLoading(false);
-    });
-    return () => { detailCancelRef.current = true; };
-  }, [selectedMovieId]);
-
-  const openTrailer = useCallback(() => {
-    if (trailerKey) Linking.openURL(`https://www.youtube.com/watch?v=${trailerKey}`);
-  }, [trailerKey]);
-
-  const handleDetailWatchlist = useCallback(async () => {
-    if (!movieDetail) return;
-    if (detailInWatchlist) {
-      setDetailInWatchlist(false);
-      await removeFromWatchlist(movieDetail.id);
-    } else {
-      setDetailInWatchlist(true);
-      await addToWatchlist({ movieId: movieDetail.id, title: movieDetail.title, posterPath: movieDetail.poster_path });
-    }
-  }, [movieDetail, detailInWatchlist]);
-
-  const handleDetailRate = useCallback(async (rating: number) => {
-    if (!movieDetail) return;
-    setDetailRatingPicker(false);
-    setDetailWatched(true);
-    await addToWatchHistory({
-      movieId: movieDetail.id,
-      title: movieDetail.title,
-      rating,
-      watchedAt: new Date().toISOString().split('T')[0],
-      genres: movieDetail.genres.map((g) => g.id),
-      posterPath: movieDetail.poster_path,
-    });
-  }, [movieDetail]);
-
-  const loadSuggestions = async () => {
+  const toMovie = useCallback((recommendation: Recommendation): Movie => ({
+    id: recommendation.id,
+    title: recommendation.title,
+    year: recommendation.releaseDate?.slice(0, 4) || '—',
+    rating: Number(recommendation.voteAverage.toFixed(1)),
+    matchScore: recommendation.matchScore ?? 0,
+    match: recommendation.match ?? null,
+    poster: recommendation.posterPath,
+    reason: recommendation.reason,
+    genreIds: recommendation.genreIds,
+    genres: recommendation.genreIds
+      .map((id) => genreNames.current.get(id))
+      .filter((name): name is string => !!name),
+  }), []);
+
+  const loadSuggestions = useCallback(async () => {
     setIsLoading(true);
     setError(null);
+    setMoreError(null);
 
     try {
-      const [recommendations, genres] = await Promise.all([
-        getRecommendations({ limit: 12 }),
+      const [page, genres, watchSettings] = await Promise.all([
+        getRecommendationPage({ limit: PAGE_SIZE, onMyServices, diversity }),
         getGenres(),
+        getWatchSettings(),
       ]);
+      setHasServices(watchSettings.services.length > 0);
 
       const genreMap = new Map(genres.map((genre) => [genre.id, genre.name]));
+      genreNames.current = genreMap;
 
       // Build genre chips from user's watch history top genres
       const watchHistory = await getWatchHistory();
@@ -343,37 +351,45 @@ export default function SuggestionsScreen() {
         ...topGenreIds.map((id) => ({ id, name: genreMap.get(id)! })),
       ]);
 
-      const mapped = recommendations.map((recommendation) => {
-        const matchScore = Math.max(70, Math.min(99, Math.round(recommendation.voteAverage * 10)));
-
-        return {
-          id: recommendation.id,
-          title: recommendation.title,
-          year: recommendation.releaseDate?.slice(0, 4) || '—',
-          rating: Number(recommendation.voteAverage.toFixed(1)),
-          matchScore,
-          poster: recommendation.posterPath,
-          reason: recommendation.reason,
-          genreIds: recommendation.genreIds,
-          genres: recommendation.genreIds
-            .map((id) => genreMap.get(id))
-            .filter((name): name is string => !!name),
-        };
-      });
-
-      setSuggestions(mapped);
+      setSuggestions(page.items.map(toMovie));
+      setCursor(page.nextCursor);
     } catch (loadError) {
-      const message = loadError instanceof Error ? loadError.message : 'Failed to load suggestions';
-      setError(message);
+      setError(describeError(loadError, "Couldn't load suggestions"));
       setSuggestions([]);
+      setCursor(null);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [onMyServices, diversity, toMovie]);
+
+  // The cursor only pins the order; the same options must come with every page
+  const loadMoreSuggestions = useCallback(async () => {
+    if (!cursor || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setMoreError(null);
+    try {
+      const page = await getRecommendationPage({ limit: PAGE_SIZE, onMyServices, diversity, cursor });
+      const more = page.items.map(toMovie);
+      setSuggestions((current) => [...current, ...more.filter((m) => !current.some((c) => c.id === m.id))]);
+      setCursor(page.nextCursor);
+    } catch (loadError) {
+      setMoreError(describeError(loadError, "Couldn't load more suggestions"));
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [cursor, onMyServices, diversity, toMovie]);
+
+  const handleScroll = useCallback((e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = e.nativeEvent;
+    const nearBottom = layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_DISTANCE;
+    if (nearBottom && !isLoading && !error && !moreError) loadMoreSuggestions();
+  }, [isLoading, error, moreError, loadMoreSuggestions]);
 
   useEffect(() => {
     loadSuggestions();
-  }, []);
+  }, [loadSuggestions]);
 
   const filteredSuggestions = useMemo(() => {
     if (activeGenre === ALL_GENRE_ID) {
@@ -415,6 +431,8 @@ export default function SuggestionsScreen() {
       <ScrollView
         showsVerticalScrollIndicator={false}
         contentContainerStyle={styles.scrollContent}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
       >
         {/* Header */}
         <View style={styles.header}>
@@ -483,6 +501,22 @@ export default function SuggestionsScreen() {
           showsHorizontalScrollIndicator={false}
           contentContainerStyle={styles.genreFilter}
         >
+          {hasServices && (
+            <Pressable
+              onPress={() => setOnMyServices((prev) => !prev)}
+              style={[
+                styles.genreChip,
+                {
+                  backgroundColor: onMyServices ? theme.green : theme.surface,
+                  borderColor: onMyServices ? theme.green : theme.cardBorder,
+                },
+              ]}
+            >
+              <ThemedText style={[styles.genreChipText, { color: onMyServices ? '#FFF' : theme.textMuted }]}>
+                📺 On my services
+              </ThemedText>
+            </Pressable>
+          )}
           {genreChips.map((genre) => (
             <Pressable
               key={genre.id}
@@ -507,6 +541,8 @@ export default function SuggestionsScreen() {
           ))}
         </ScrollView>
 
+        <DiversitySlider value={diversity} onChange={setDiversity} colors={theme} />
+
         {/* Suggestions */}
         <View style={styles.suggestionsSection}>
           <View style={styles.sectionHeader}>
@@ -532,9 +568,7 @@ export default function SuggestionsScreen() {
               <ThemedText style={[styles.stateText, { color: theme.textMuted }]}>Loading recommendations...</ThemedText>
             </View>
           ) : error ? (
-            <View style={styles.stateContainer}>
-              <ThemedText style={[styles.stateText, { color: theme.textMuted }]}>{error}</ThemedText>
-            </View>
+            <ErrorNotice error={error} colors={theme} onRetry={loadSuggestions} style={styles.stateContainer} />
           ) : filteredSuggestions.length === 0 ? (
             <View style={styles.stateContainer}>
               <ThemedText style={[styles.stateText, { color: theme.textMuted }]}>No matches for this genre yet.</ThemedText>
@@ -545,10 +579,25 @@ export default function SuggestionsScreen() {
                 key={movie.id}
                 movie={movie}
                 theme={theme}
-                onPress={() => setSelectedMovieId(movie.id)}
+                onPress={() => router.push({ pathname: '/movie/[id]', params: { id: String(movie.id) } })}
+                onHide={() => setSuggestions((current) => current.filter((m) => m.id !== movie.id))}
               />
             ))
           )}
+
+          {!isLoading && !error && suggestions.length > 0 && (
+            <View style={styles.listFooter}>
+              {loadingMore ? (
+                <ActivityIndicator size="small" color={theme.accent} />
+              ) : moreError ? (
+                <ErrorNotice error={moreError} colors={theme} onRetry={loadMoreSuggestions} />
+              ) : !cursor ? (
+                <ThemedText style={[styles.stateText, styles.endText, { color: theme.textMuted }]}>
+                  You&apos;ve seen everything for now. Rate a few more movies for fresh picks.
+                </ThemedText>
+              ) : null}
+            </View>
+          )}
         </View>
 
         {/* More suggestions prompt */}
@@ -576,117 +625,6 @@ export default function SuggestionsScreen() {
         <View style={{ height: 100 }} />
       </ScrollView>
 
-      {/* Movie Detail Modal */}
-      <Modal
-        visible={selectedMovieId !== null}
-        transparent
-        animationType="slide"
-        onRequestClose={() => setSelectedMovieId(null)}
-      >
-        <View style={styles.detailOverlay}>
-          <Pressable style={StyleSheet.absoluteFill} onPress={() => setSelectedMovieId(null)} />
-          <View style={[styles.detailContent, { backgroundColor: theme.bg }]}>
-            <Pressable style={[styles.detailClose, { backgroundColor: theme.card }]} onPress={() => setSelectedMovieId(null)}>
-              <ThemedText style={[styles.detailCloseText, { color: theme.text }]}>✕</ThemedText>
-            </Pressable>
-            {detailLoading ? (
-              <View style={styles.detailStateBox}>
-                <ActivityIndicator size="large" color={theme.accent} />
-                <ThemedText style={[styles.detailStateText, { color: theme.textMuted }]}>Loading...</ThemedText>
-              </View>
-            ) : detailError ? (
-              <View style={styles.detailStateBox}>
-                <ThemedText style={[styles.detailStateText, { color: theme.textMuted }]}>{detailError}</ThemedText>
-                <Pressable style={[styles.detailBtn, { backgroundColor: theme.accent }]} onPress={() => setSelectedMovieId(null)}>
-                  <ThemedText style={styles.detailBtnText}>Close</ThemedText>
-                </Pressable>
-              </View>
-            ) : movieDetail ? (
-              <ScrollView style={styles.detailScroll} contentContainerStyle={{ paddingBottom: 32 }} showsVerticalScrollIndicator={false}>
-                <View style={styles.detailBackdrop}>
-                  {tmdbBackdropUrl(movieDetail.backdrop_path, 'w780') ? (
-                    <Image source={{ uri: tmdbBackdropUrl(movieDetail.backdrop_path, 'w780')! }} style={StyleSheet.absoluteFill} resizeMode="cover" />
-                  ) : tmdbPosterUrl(movieDetail.poster_path, 'w500') ? (
-                    <Image source={{ uri: tmdbPosterUrl(movieDetail.poster_path, 'w500')! }} style={StyleSheet.absoluteFill} resizeMode="cover" />
-                  ) : null}
-                  <LinearGradient colors={['transparent', theme.bg]} style={styles.detailBackdropGradient} />
-                </View>
-                <View style={styles.detailBody}>
-                  <ThemedText style={[styles.detailTitle, { color: theme.text }]}>{movieDetail.title}</ThemedText>
-                  <View style={styles.detailMeta}>
-                    <ThemedText style={[styles.detailMetaText, { color: theme.textMuted }]}>{movieDetail.release_date?.slice(0, 4) || '—'}</ThemedText>
-                    <ThemedText style={[styles.detailMetaDot, { color: theme.textMuted }]}>•</ThemedText>
-                    <ThemedText style={[styles.detailMetaText, { color: theme.textMuted }]}>★ {movieDetail.vote_average.toFixed(1)}</ThemedText>
-                    {movieDetail.runtime ? (<>
-                      <ThemedText style={[styles.detailMetaDot, { color: theme.textMuted }]}>•</ThemedText>
-                      <ThemedText style={[styles.detailMetaText, { color: theme.textMuted }]}>{movieDetail.runtime} min</ThemedText>
-                    </>) : null}
-                  </View>
-                  {movieDetail.genres.length > 0 && (
-                    <View style={styles.detailGenres}>
-                      {movieDetail.genres.slice(0, 5).map((g) => (
-                        <View key={g.id} style={[styles.detailGenreChip, { backgroundColor: theme.accentSoft, borderColor: theme.cardBorder }]}>
-                          <ThemedText style={[styles.detailGenreChipText, { color: theme.accent }]}>{g.name}</ThemedText>
-                        </View>
-                      ))}
-                    </View>
-                  )}
-                  {movieDetail.tagline ? (
-                    <ThemedText style={[styles.detailTagline, { color: theme.textMuted }]}>{movieDetail.tagline}</ThemedText>
-                  ) : null}
-                  {movieDetail.overview ? (<>
-                    <ThemedText style={[styles.detailSectionLabel, { color: theme.textMuted }]}>SYNOPSIS</ThemedText>
-                    <ThemedText style={[styles.detailOverview, { color: theme.text }]}>{movieDetail.overview}</ThemedText>
-                  </>) : null}
-                  {trailerKey ? (
-                    <Pressable style={[styles.detailBtn, styles.detailTrailerBtn, { backgroundColor: theme.accent }]} onPress={openTrailer}>
-                      <ThemedText style={styles.detailBtnText}>▶ Watch Trailer</ThemedText>
-                    </Pressable>
-                  ) : null}
-                  {movieCredits && movieCredits.cast.length > 0 && (<>
-                    <ThemedText style={[styles.detailSectionLabel, { color: theme.textMuted }]}>CAST</ThemedText>
-                    <ThemedText style={[styles.detailCast, { color: theme.text }]}>
-                      {movieCredits.cast.slice(0, 10).map((c) => c.name).join(' · ')}
-                    </ThemedText>
-                  </>)}
-                  <View style={styles.detailActions}>
-                    {!detailWatched && !detailRatingPicker && (
-                      <Pressable style={[styles.detailActionBtn, { backgroundColor: theme.accent }]} onPress={() => setDetailRatingPicker(true)}>
-                        <ThemedText style={styles.detailBtnText}>Add to Watched</ThemedText>
-                      </Pressable>
-                    )}
-                    {!detailWatched && detailRatingPicker && (
-                      <View style={styles.detailRatingPicker}>
-                        <ThemedText style={[styles.detailRatingLabel, { color: theme.textMuted }]}>Rate it:</ThemedText>
-                        <View style={styles.detailRatingRow}>
-                          {[1,2,3,4,5,6,7,8,9,10].map((r) => (
-                            <Pressable key={r} style={[styles.detailRatingChip, { backgroundColor: ratingBg(r), borderColor: ratingColor(r) }]} onPress={() => handleDetailRate(r)}>
-                              <ThemedText style={[styles.detailRatingChipText, { color: ratingColor(r) }]}>{r}</ThemedText>
-                            </Pressable>
-                          ))}
-                        </View>
-                      </View>
-                    )}
-                    {detailWatched && (
-                      <View style={[styles.detailActionBtn, { backgroundColor: theme.accentSoft }]}>
-                        <ThemedText style={[styles.detailBtnText, { color: theme.accent }]}>✓ Watched</ThemedText>
-                      </View>
-                    )}
-                    <Pressable
-                      style={[styles.detailActionBtn, { backgroundColor: detailInWatchlist ? theme.accentSoft : theme.card, borderColor: theme.cardBorder }]}
-                      onPress={handleDetailWatchlist}
-                    >
-                      <ThemedText style={[styles.detailBtnText, { color: detailInWatchlist ? theme.accent : theme.text }]}>
-                        {detailInWatchlist ? 'In Watchlist' : '+ Watchlist'}
-                      </ThemedText>
-                    </Pressable>
-                  </View>
-                </View>
-              </ScrollView>
-            ) : null}
-          </View>
-        </View>
-      </Modal>
     </View>
   );
 }
@@ -794,6 +732,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 2,
   },
+  listFooter: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  endText: {
+    textAlign: 'center',
+  },
   refreshBtn: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -1019,50 +964,4 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
-  detailOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.65)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 16,
-  },
-  detailContent: {
-    width: '100%',
-    maxHeight: '90%',
-    borderRadius: 16,
-    overflow: 'hidden',
-  },
-  detailClose: {
-    position: 'absolute', top: 12, right: 12, zIndex: 10,
-    width: 36, height: 36, borderRadius: 18,
-    alignItems: 'center', justifyContent: 'center',
-  },
-  detailCloseText: { fontSize: 18, fontWeight: '600' },
-  detailStateBox: { padding: 48, alignItems: 'center', gap: 16 },
-  detailStateText: { fontSize: 15, textAlign: 'center' },
-  detailScroll: { maxHeight: '100%' },
-  detailBackdrop: { height: 180, width: '100%', backgroundColor: 'rgba(0,0,0,0.3)' },
-  detailBackdropGradient: { position: 'absolute', left: 0, right: 0, bottom: 0, height: 100 },
-  detailBody: { padding: 20, gap: 10 },
-  detailTitle: { fontSize: 22, fontWeight: '700', marginTop: 8 },
-  detailMeta: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 6 },
-  detailMetaText: { fontSize: 14 },
-  detailMetaDot: { fontSize: 12 },
-  detailGenres: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 4 },
-  detailGenreChip: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 8, borderWidth: 1 },
-  detailGenreChipText: { fontSize: 12, fontWeight: '600' },
-  detailTagline: { fontSize: 14, fontStyle: 'italic', marginTop: 4 },
-  detailSectionLabel: { fontSize: 11, fontWeight: '700', letterSpacing: 1.2, marginTop: 14, marginBottom: 4 },
-  detailOverview: { fontSize: 15, lineHeight: 22 },
-  detailBtn: { paddingHorizontal: 20, paddingVertical: 12, borderRadius: 12, alignItems: 'center', marginTop: 8 },
-  detailTrailerBtn: { marginTop: 12 },
-  detailBtnText: { color: '#FFF', fontSize: 15, fontWeight: '600' },
-  detailCast: { fontSize: 14, lineHeight: 20 },
-  detailActions: { flexDirection: 'row', gap: 12, marginTop: 20, flexWrap: 'wrap' },
-  detailActionBtn: { paddingHorizontal: 18, paddingVertical: 12, borderRadius: 12, borderWidth: 1 },
-  detailRatingPicker: { gap: 8 },
-  detailRatingLabel: { fontSize: 13, fontWeight: '600' },
-  detailRatingRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
-  detailRatingChip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 8, borderWidth: 1 },
-  detailRatingChipText: { fontSize: 13, fontWeight: '700' },
 });
\ No newline at end of file
@@ -7,8 +7,9 @@ import 'react-native-reanimated';
 
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { setApiKey } from '@/services/tmdb';
+import { DEFAULT_LOCALE, setApiKey, setLocale } from '@/services/tmdb';
 import { setOpenAIKey } from '@/services/moodSearch';
+import { applyUserLocale } from '@/services/locale';
 import { hasCompletedOnboardingSync, hasCompletedOnboarding } from '@/services/storage';
 
 export const unstable_settings = {
@@ -50,6 +51,9 @@ export default function RootLayout() {
       setOpenAIKey(openaiKey);
     }
 
+    // Unreadable settings shouldn't stop the app; use the default locale
+    applyUserLocale().catch(() => setLocale(DEFAULT_LOCALE));
+
     // Async check for native (AsyncStorage)
     hasCompletedOnboarding().then(setOnboarded);
   }, []);
@@ -59,6 +63,10 @@ export default function RootLayout() {
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="onboarding" options={{ headerShown: false, animation: 'fade' }} />
+        <Stack.Screen name="movie/[id]" options={{ headerShown: false }} />
+        <Stack.Screen name="person/[id]" options={{ headerShown: false }} />
+        <Stack.Screen name="rail/[id]" options={{ headerShown: false }} />
+        <Stack.Screen name="hidden" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
       </Stack>
       {!onboarded && <Redirect href="/onboarding" />}
@@ -0,0 +1,221 @@
+import { useCallback, useState } from 'react';
+import { FlatList, Image, Pressable, StyleSheet, View } from 'react-native';
+import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { REASON_LABELS } from '@/components/not-interested-picker';
+import { ThemedText } from '@/components/themed-text';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { posterUrl } from '@/services/tmdb';
+import { getHiddenMovies, unhideMovie, type HiddenMovie } from '@/services/storage';
+
+const COLORS = {
+  dark: {
+    bg: '#0A0A0C',
+    surface: '#141417',
+    card: 'rgba(255, 255, 255, 0.04)',
+    cardBorder: 'rgba(255, 255, 255, 0.08)',
+    text: '#FAFAFA',
+    textMuted: 'rgba(255, 255, 255, 0.5)',
+    accent: '#8B5CF6',
+    accentSoft: 'rgba(139, 92, 246, 0.15)',
+    posterBg: 'rgba(255, 255, 255, 0.08)',
+  },
+  light: {
+    bg: '#F8F8FA',
+    surface: '#FFFFFF',
+    card: 'rgba(0, 0, 0, 0.02)',
+    cardBorder: 'rgba(0, 0, 0, 0.06)',
+    text: '#1A1A1A',
+    textMuted: 'rgba(0, 0, 0, 0.5)',
+    accent: '#7C3AED',
+    accentSoft: 'rgba(124, 58, 237, 0.1)',
+    posterBg: 'rgba(0, 0, 0, 0.06)',
+  },
+};
+
+/**
+ * Everything dismissed with "Not interested", with the reason given. Undo
+ * lets a title back into recommendations and mood results.
+ */
+export default function HiddenScreen() {
+  const colorScheme = useColorScheme();
+  const theme = COLORS[colorScheme ?? 'dark'];
+  const [hidden, setHidden] = useState<HiddenMovie[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      getHiddenMovies().then((movies) => {
+        setHidden(movies);
+        setLoaded(true);
+      });
+    }, [])
+  );
+
+  const handleUndo = useCallback(async (movieId: number) => {
+    setHidden((current) => current.filter((m) => m.movieId !== movieId));
+    await unhideMovie(movieId);
+  }, []);
+
+  const renderItem = ({ item: movie }: { item: HiddenMovie }) => {
+    const poster = posterUrl(movie.posterPath, 'w185');
+    return (
+      <View style={[styles.row, { backgroundColor: theme.surface, borderColor: theme.cardBorder }]}>
+        <Pressable
+          style={styles.rowMain}
+          onPress={() => router.push({ pathname: '/movie/[id]', params: { id: String(movie.movieId) } })}
+        >
+          <View style={[styles.poster, { backgroundColor: theme.posterBg }]}>
+            {poster ? (
+              <Image source={{ uri: poster }} style={styles.posterImage} />
+            ) : (
+              <ThemedText style={styles.posterEmoji}>🎬</ThemedText>
+            )}
+          </View>
+          <View style={styles.info}>
+            <ThemedText style={[styles.title, { color: theme.text }]} numberOfLines={2}>
+              {movie.title}
+            </ThemedText>
+            <ThemedText style={[styles.reason, { color: theme.textMuted }]} numberOfLines={1}>
+              {movie.reason ? REASON_LABELS[movie.reason] : 'No reason given'} · {new Date(movie.hiddenAt).toLocaleDateString()}
+            </ThemedText>
+          </View>
+        </Pressable>
+        <Pressable
+          style={({ pressed }) => [styles.undoButton, { backgroundColor: theme.accentSoft, opacity: pressed ? 0.7 : 1 }]}
+          onPress={() => handleUndo(movie.movieId)}
+        >
+          <ThemedText style={[styles.undoText, { color: theme.accent }]}>Undo</ThemedText>
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.bg }]}>
+      <Pressable
+        style={[styles.backButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+        onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)/profile'))}
+      >
+        <ThemedText style={[styles.backText, { color: theme.text }]}>‹ Back</ThemedText>
+      </Pressable>
+
+      <FlatList
+        data={hidden}
+        keyExtractor={(movie) => String(movie.movieId)}
+        renderItem={renderItem}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText style={[styles.heading, { color: theme.text }]}>Not Interested</ThemedText>
+            <ThemedText style={[styles.subheading, { color: theme.textMuted }]}>
+              Hidden from your recommendations. Your reasons help tune what you see.
+            </ThemedText>
+          </View>
+        }
+        ListEmptyComponent={
+          loaded ? (
+            <ThemedText style={[styles.empty, { color: theme.textMuted }]}>
+              Nothing hidden. Tap ✕ on a suggestion to hide it.
+            </ThemedText>
+          ) : null
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    position: 'absolute',
+    top: 56,
+    left: 20,
+    zIndex: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  backText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scrollContent: {
+    paddingTop: 108,
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+    gap: 10,
+  },
+  header: {
+    marginBottom: 8,
+    gap: 4,
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: '800',
+    lineHeight: 30,
+  },
+  subheading: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 10,
+  },
+  rowMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  poster: {
+    width: 44,
+    height: 66,
+    borderRadius: 8,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  posterImage: {
+    width: '100%',
+    height: '100%',
+  },
+  posterEmoji: {
+    fontSize: 18,
+  },
+  info: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    lineHeight: 20,
+  },
+  reason: {
+    fontSize: 12,
+  },
+  undoButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  undoText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  empty: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
@@ -0,0 +1,73 @@
+import { Pressable, StyleSheet, View } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { MovieDetailSheet } from '@/components/movie-detail-sheet';
+import { ThemedText } from '@/components/themed-text';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { movieIdFromParam, useMovieDetail } from '@/hooks/use-movie-detail';
+
+const COLORS = {
+  dark: {
+    bg: '#0D0D0F',
+    card: 'rgba(255, 255, 255, 0.04)',
+    cardBorder: 'rgba(255, 255, 255, 0.08)',
+    text: '#FAFAFA',
+    textMuted: 'rgba(255, 255, 255, 0.5)',
+    accent: '#6366F1',
+    accentSoft: 'rgba(99, 102, 241, 0.15)',
+  },
+  light: {
+    bg: '#FAFAFA',
+    card: 'rgba(0, 0, 0, 0.02)',
+    cardBorder: 'rgba(0, 0, 0, 0.06)',
+    text: '#1A1A1A',
+    textMuted: 'rgba(0, 0, 0, 0.45)',
+    accent: '#6366F1',
+    accentSoft: 'rgba(99, 102, 241, 0.1)',
+  },
+};
+
+/**
+ * Movie detail screen. Reachable from every list in the app and from
+ * outside it: flickpix://movie/550 or /movie/550 on the web.
+ */
+export default function MovieScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const detail = useMovieDetail(movieIdFromParam(id));
+  const colorScheme = useColorScheme();
+  const theme = COLORS[colorScheme ?? 'dark'];
+
+  const goBack = () => {
+    // Deep links open with nothing underneath; fall back to Home
+    if (router.canGoBack()) router.back();
+    else router.replace('/(tabs)');
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.bg }]}>
+      <Pressable style={[styles.backButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]} onPress={goBack}>
+        <ThemedText style={[styles.backText, { color: theme.text }]}>‹ Back</ThemedText>
+      </Pressable>
+      <MovieDetailSheet detail={detail} colors={theme} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    position: 'absolute',
+    top: 56,
+    left: 20,
+    zIndex: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  backText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
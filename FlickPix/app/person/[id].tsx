@@ -0,0 +1,427 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Dimensions, Image, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { ErrorNotice } from '@/components/error-notice';
+import { ThemedText } from '@/components/themed-text';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { filmography, type Filmography } from '@/utils/filmography';
+import { ratingColor, ratingBg } from '@/utils/ratingColors';
+import {
+  getPerson,
+  getPersonMovieCredits,
+  describeError,
+  isAbortError,
+  posterUrl as tmdbPosterUrl,
+  profileUrl,
+  type ErrorDisplay,
+  type Person,
+  type PersonMovieCredits,
+} from '@/services/tmdb';
+import { getWatchHistory, getWatchlist } from '@/services/storage';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const GRID_COLUMNS = 3;
+const GRID_GAP = 10;
+const GRID_PADDING = 20;
+const TILE_WIDTH = (SCREEN_WIDTH - GRID_PADDING * 2 - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS;
+const BIO_PREVIEW_LINES = 5;
+
+const COLORS = {
+  dark: {
+    bg: '#0D0D0F',
+    card: 'rgba(255, 255, 255, 0.04)',
+    cardBorder: 'rgba(255, 255, 255, 0.08)',
+    text: '#FAFAFA',
+    textMuted: 'rgba(255, 255, 255, 0.5)',
+    accent: '#6366F1',
+    accentSoft: 'rgba(99, 102, 241, 0.15)',
+    posterBg: 'rgba(255, 255, 255, 0.08)',
+  },
+  light: {
+    bg: '#FAFAFA',
+    card: 'rgba(0, 0, 0, 0.02)',
+    cardBorder: 'rgba(0, 0, 0, 0.06)',
+    text: '#1A1A1A',
+    textMuted: 'rgba(0, 0, 0, 0.45)',
+    accent: '#6366F1',
+    accentSoft: 'rgba(99, 102, 241, 0.1)',
+    posterBg: 'rgba(0, 0, 0, 0.06)',
+  },
+};
+
+type Tab = keyof Filmography;
+
+function formatDate(date: string | null): string | null {
+  if (!date) return null;
+  const parsed = new Date(`${date}T00:00:00`);
+  return Number.isNaN(parsed.getTime())
+    ? date
+    : parsed.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function ageOn(birthday: string, until: string | null): number {
+  const end = until ? new Date(`${until}T00:00:00`) : new Date();
+  const start = new Date(`${birthday}T00:00:00`);
+  let age = end.getFullYear() - start.getFullYear();
+  const beforeBirthday =
+    end.getMonth() < start.getMonth() || (end.getMonth() === start.getMonth() && end.getDate() < start.getDate());
+  if (beforeBirthday) age--;
+  return age;
+}
+
+export default function PersonScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const personId = Number(id);
+  const colorScheme = useColorScheme();
+  const theme = COLORS[colorScheme ?? 'dark'];
+
+  const [person, setPerson] = useState<Person | null>(null);
+  const [credits, setCredits] = useState<PersonMovieCredits | null>(null);
+  const [ratings, setRatings] = useState<Record<number, number>>({});
+  const [watchlistIds, setWatchlistIds] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ErrorDisplay | null>(null);
+  const [tab, setTab] = useState<Tab>('acting');
+  const [bioExpanded, setBioExpanded] = useState(false);
+
+  const load = useCallback((signal?: AbortSignal) => {
+    setLoading(true);
+    setError(null);
+    Promise.all([getPerson(personId, { signal }), getPersonMovieCredits(personId, { signal })])
+      .then(([details, movieCredits]) => {
+        if (signal?.aborted) return;
+        setPerson(details);
+        setCredits(movieCredits);
+        // Directors and writers open on what they're known for
+        const known = details.known_for_department;
+        setTab(known && known !== 'Acting' && movieCredits.crew.length > 0 ? 'crew' : 'acting');
+      })
+      .catch((e) => {
+        if (signal?.aborted || isAbortError(e)) return;
+        setError(describeError(e, "Couldn't load this person"));
+      })
+      .finally(() => {
+        if (!signal?.aborted) setLoading(false);
+      });
+  }, [personId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  // Refreshed on focus so coming back from a movie page shows new ratings
+  useFocusEffect(
+    useCallback(() => {
+      getWatchHistory().then((history) => setRatings(Object.fromEntries(history.map((m) => [m.movieId, m.rating]))));
+      getWatchlist().then((watchlist) => setWatchlistIds(new Set(watchlist.map((w) => w.movieId))));
+    }, [])
+  );
+
+  const films = useMemo(() => (credits ? filmography(credits) : { acting: [], crew: [] }), [credits]);
+  const visible = films[tab];
+  const seenCount = visible.filter((m) => ratings[m.id] !== undefined).length;
+
+  const photo = person ? profileUrl(person.profile_path, 'h632') : null;
+  const born = person ? formatDate(person.birthday) : null;
+  const died = person ? formatDate(person.deathday) : null;
+  const age = person?.birthday ? ageOn(person.birthday, person.deathday) : null;
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.bg }]}>
+      <Pressable
+        style={[styles.backButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+        onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)'))}
+      >
+        <ThemedText style={[styles.backText, { color: theme.text }]}>‹ Back</ThemedText>
+      </Pressable>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.accent} />
+        </View>
+      ) : error || !person ? (
+        <View style={styles.centered}>
+          <ErrorNotice
+            error={error ?? describeError(null, "Couldn't load this person")}
+            colors={theme}
+            onRetry={() => load()}
+          />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          <View style={styles.header}>
+            <View style={[styles.photo, { backgroundColor: theme.posterBg }]}>
+              {photo ? (
+                <Image source={{ uri: photo }} style={styles.photoImage} resizeMode="cover" />
+              ) : (
+                <ThemedText style={[styles.photoInitial, { color: theme.textMuted }]}>{person.name.charAt(0)}</ThemedText>
+              )}
+            </View>
+            <View style={styles.headerInfo}>
+              <ThemedText style={[styles.name, { color: theme.text }]}>{person.name}</ThemedText>
+              {person.known_for_department ? (
+                <ThemedText style={[styles.department, { color: theme.accent }]}>{person.known_for_department}</ThemedText>
+              ) : null}
+              {born ? (
+                <ThemedText style={[styles.fact, { color: theme.textMuted }]}>
+                  Born {born}{age !== null && !died ? ` (${age})` : ''}
+                </ThemedText>
+              ) : null}
+              {died ? (
+                <ThemedText style={[styles.fact, { color: theme.textMuted }]}>
+                  Died {died}{age !== null ? ` (${age})` : ''}
+                </ThemedText>
+              ) : null}
+              {person.place_of_birth ? (
+                <ThemedText style={[styles.fact, { color: theme.textMuted }]} numberOfLines={2}>
+                  {person.place_of_birth}
+                </ThemedText>
+              ) : null}
+            </View>
+          </View>
+
+          {person.biography ? (
+            <Pressable onPress={() => setBioExpanded((v) => !v)}>
+              <ThemedText style={[styles.sectionLabel, { color: theme.textMuted }]}>BIOGRAPHY</ThemedText>
+              <ThemedText
+                style={[styles.biography, { color: theme.text }]}
+                numberOfLines={bioExpanded ? undefined : BIO_PREVIEW_LINES}
+              >
+                {person.biography}
+              </ThemedText>
+              <ThemedText style={[styles.readMore, { color: theme.accent }]}>
+                {bioExpanded ? 'Show less' : 'Read more'}
+              </ThemedText>
+            </Pressable>
+          ) : null}
+
+          <View style={styles.tabs}>
+            {(['acting', 'crew'] as const).map((key) => {
+              const count = films[key].length;
+              if (count === 0) return null;
+              const active = key === tab;
+              return (
+                <Pressable
+                  key={key}
+                  onPress={() => setTab(key)}
+                  style={[
+                    styles.tab,
+                    { backgroundColor: active ? theme.accentSoft : theme.card, borderColor: active ? theme.accent : theme.cardBorder },
+                  ]}
+                >
+                  <ThemedText style={[styles.tabText, { color: active ? theme.accent : theme.textMuted }]}>
+                    {key === 'acting' ? 'Acting' : 'Crew'} · {count}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+          {visible.length > 0 ? (
+            <ThemedText style={[styles.seenSummary, { color: theme.textMuted }]}>
+              You&apos;ve seen {seenCount} of {visible.length}
+            </ThemedText>
+          ) : (
+            <ThemedText style={[styles.seenSummary, { color: theme.textMuted }]}>No movie credits yet.</ThemedText>
+          )}
+
+          <View style={styles.grid}>
+            {visible.map((movie) => {
+              const poster = tmdbPosterUrl(movie.poster_path, 'w185');
+              const rating = ratings[movie.id];
+              const listed = watchlistIds.has(movie.id);
+              return (
+                <Pressable
+                  key={movie.id}
+                  style={({ pressed }) => [styles.tile, { opacity: pressed ? 0.7 : 1 }]}
+                  onPress={() => router.push({ pathname: '/movie/[id]', params: { id: String(movie.id) } })}
+                >
+                  <View style={[styles.tilePoster, { backgroundColor: theme.posterBg }]}>
+                    {poster ? (
+                      <Image source={{ uri: poster }} style={styles.tilePosterImage} resizeMode="cover" />
+                    ) : (
+                      <ThemedText style={[styles.tilePlaceholder, { color: theme.textMuted }]} numberOfLines={3}>
+                        {movie.title}
+                      </ThemedText>
+                    )}
+                    {rating !== undefined ? (
+                      <View style={[styles.badge, { backgroundColor: ratingBg(rating), borderColor: ratingColor(rating) }]}>
+                        <ThemedText style={[styles.badgeText, { color: ratingColor(rating) }]}>✓ {rating}</ThemedText>
+                      </View>
+                    ) : listed ? (
+                      <View style={[styles.badge, { backgroundColor: theme.accentSoft, borderColor: theme.accent }]}>
+                        <ThemedText style={[styles.badgeText, { color: theme.accent }]}>＋ List</ThemedText>
+                      </View>
+                    ) : null}
+                  </View>
+                  <ThemedText style={[styles.tileTitle, { color: theme.text }]} numberOfLines={2}>
+                    {movie.title}
+                  </ThemedText>
+                  <ThemedText style={[styles.tileMeta, { color: theme.textMuted }]} numberOfLines={1}>
+                    {movie.release_date?.slice(0, 4) || 'TBA'}{movie.role ? ` · ${movie.role}` : ''}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    position: 'absolute',
+    top: 56,
+    left: 20,
+    zIndex: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  backText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  scrollContent: {
+    paddingTop: 108,
+    paddingHorizontal: GRID_PADDING,
+    paddingBottom: 48,
+  },
+  header: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  photo: {
+    width: 120,
+    height: 180,
+    borderRadius: 16,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  photoInitial: {
+    fontSize: 40,
+    fontWeight: '700',
+  },
+  headerInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: '800',
+    lineHeight: 30,
+  },
+  department: {
+    fontSize: 13,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
+  fact: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  biography: {
+    fontSize: 14,
+    lineHeight: 21,
+  },
+  readMore: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 24,
+  },
+  tab: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  tabText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  seenSummary: {
+    fontSize: 12,
+    marginTop: 10,
+    marginBottom: 14,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: GRID_GAP,
+  },
+  tile: {
+    width: TILE_WIDTH,
+    marginBottom: 8,
+  },
+  tilePoster: {
+    width: TILE_WIDTH,
+    height: TILE_WIDTH * 1.5,
+    borderRadius: 10,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  tilePosterImage: {
+    width: '100%',
+    height: '100%',
+  },
+  tilePlaceholder: {
+    fontSize: 11,
+    textAlign: 'center',
+    padding: 6,
+  },
+  badge: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  badgeText: {
+    fontSize: 10,
+    fontWeight: '800',
+  },
+  tileTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    lineHeight: 16,
+    marginTop: 6,
+  },
+  tileMeta: {
+    fontSize: 11,
+    lineHeight: 14,
+  },
+});
@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Dimensions, FlatList, Image, Pressable, StyleSheet, View } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ErrorNotice } from '@/components/error-notice';
+import { ThemedText } from '@/components/themed-text';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { ratingColor, ratingBg } from '@/utils/ratingColors';
+import { getRailPage, getPosterUrl, type Recommendation } from '@/services/recommendations';
+import { describeError, type ErrorDisplay } from '@/services/tmdb';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const GRID_COLUMNS = 3;
+const GRID_GAP = 10;
+const GRID_PADDING = 20;
+const TILE_WIDTH = (SCREEN_WIDTH - GRID_PADDING * 2 - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS;
+
+const COLORS = {
+  dark: {
+    bg: '#0D0D0F',
+    card: 'rgba(255, 255, 255, 0.04)',
+    cardBorder: 'rgba(255, 255, 255, 0.08)',
+    text: '#FAFAFA',
+    textMuted: 'rgba(255, 255, 255, 0.5)',
+    accent: '#6366F1',
+    accentSoft: 'rgba(99, 102, 241, 0.15)',
+    posterBg: 'rgba(255, 255, 255, 0.08)',
+  },
+  light: {
+    bg: '#FAFAFA',
+    card: 'rgba(0, 0, 0, 0.02)',
+    cardBorder: 'rgba(0, 0, 0, 0.06)',
+    text: '#1A1A1A',
+    textMuted: 'rgba(0, 0, 0, 0.45)',
+    accent: '#6366F1',
+    accentSoft: 'rgba(99, 102, 241, 0.1)',
+    posterBg: 'rgba(0, 0, 0, 0.06)',
+  },
+};
+
+/**
+ * "See all" for a Home rail: every page of it as a grid, loading the next
+ * page as the user scrolls.
+ */
+export default function RailScreen() {
+  const { id, title } = useLocalSearchParams<{ id: string; title?: string }>();
+  const railTitle = title ?? 'Recommendations';
+  const colorScheme = useColorScheme();
+  const theme = COLORS[colorScheme ?? 'dark'];
+
+  const [items, setItems] = useState<Recommendation[]>([]);
+  const [page, setPage] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ErrorDisplay | null>(null);
+  const loadingRef = useRef(false);
+
+  const loadPage = useCallback(async (next: number) => {
+    if (loadingRef.current) return;
+    loadingRef.current = true;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getRailPage({ id, title: railTitle }, next);
+      setItems((current) => {
+        if (next === 1) return result.items;
+        // TMDB pages can overlap when its ordering shifts between requests
+        const seen = new Set(current.map((m) => m.id));
+        return [...current, ...result.items.filter((m) => !seen.has(m.id))];
+      });
+      setPage(next);
+      setTotalPages(result.totalPages);
+    } catch (e) {
+      setError(describeError(e, "Couldn't load this list"));
+    } finally {
+      loadingRef.current = false;
+      setLoading(false);
+    }
+  }, [id, railTitle]);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  const loadMore = () => {
+    if (!error && page > 0 && page < totalPages) loadPage(page + 1);
+  };
+
+  const renderItem = ({ item: movie }: { item: Recommendation }) => {
+    const poster = getPosterUrl(movie.posterPath, 'w185');
+    return (
+      <Pressable
+        style={({ pressed }) => [styles.tile, { opacity: pressed ? 0.7 : 1 }]}
+        onPress={() => router.push({ pathname: '/movie/[id]', params: { id: String(movie.id) } })}
+      >
+        <View style={[styles.tilePoster, { backgroundColor: theme.posterBg }]}>
+          {poster ? (
+            <Image source={{ uri: poster }} style={styles.tilePosterImage} resizeMode="cover" />
+          ) : (
+            <ThemedText style={[styles.tilePlaceholder, { color: theme.textMuted }]} numberOfLines={3}>
+              {movie.title}
+            </ThemedText>
+          )}
+          <View style={[styles.badge, { backgroundColor: ratingBg(movie.voteAverage), borderColor: ratingColor(movie.voteAverage) }]}>
+            <ThemedText style={[styles.badgeText, { color: ratingColor(movie.voteAverage) }]}>
+              {movie.voteAverage.toFixed(1)}
+            </ThemedText>
+          </View>
+        </View>
+        <ThemedText style={[styles.tileTitle, { color: theme.text }]} numberOfLines={2}>
+          {movie.title}
+        </ThemedText>
+        <ThemedText style={[styles.tileMeta, { color: theme.textMuted }]} numberOfLines={1}>
+          {movie.releaseDate?.slice(0, 4) || 'TBA'}
+        </ThemedText>
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.bg }]}>
+      <Pressable
+        style={[styles.backButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+        onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)'))}
+      >
+        <ThemedText style={[styles.backText, { color: theme.text }]}>‹ Back</ThemedText>
+      </Pressable>
+
+      <FlatList
+        data={items}
+        keyExtractor={(movie) => String(movie.id)}
+        renderItem={renderItem}
+        numColumns={GRID_COLUMNS}
+        columnWrapperStyle={styles.row}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          <ThemedText style={[styles.title, { color: theme.text }]}>{railTitle}</ThemedText>
+        }
+        ListEmptyComponent={
+          !loading && !error ? (
+            <ThemedText style={[styles.footerText, { color: theme.textMuted }]}>
+              Nothing here you haven&apos;t seen.
+            </ThemedText>
+          ) : null
+        }
+        ListFooterComponent={
+          error ? (
+            <ErrorNotice error={error} colors={theme} onRetry={() => loadPage(page + 1)} />
+          ) : loading ? (
+            <ActivityIndicator style={styles.footer} color={theme.accent} />
+          ) : items.length > 0 && page >= totalPages ? (
+            <ThemedText style={[styles.footerText, { color: theme.textMuted }]}>That&apos;s everything.</ThemedText>
+          ) : null
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    position: 'absolute',
+    top: 56,
+    left: 20,
+    zIndex: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  backText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scrollContent: {
+    paddingTop: 108,
+    paddingHorizontal: GRID_PADDING,
+    paddingBottom: 48,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    lineHeight: 30,
+    marginBottom: 16,
+  },
+  row: {
+    gap: GRID_GAP,
+  },
+  tile: {
+    width: TILE_WIDTH,
+    marginBottom: 12,
+  },
+  tilePoster: {
+    width: TILE_WIDTH,
+    height: TILE_WIDTH * 1.5,
+    borderRadius: 10,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  tilePosterImage: {
+    width: '100%',
+    height: '100%',
+  },
+  tilePlaceholder: {
+    fontSize: 11,
+    textAlign: 'center',
+    padding: 6,
+  },
+  badge: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  badgeText: {
+    fontSize: 10,
+    fontWeight: '800',
+  },
+  tileTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    lineHeight: 16,
+    marginTop: 6,
+  },
+  tileMeta: {
+    fontSize: 11,
+    lineHeight: 14,
+  },
+  footer: {
+    marginVertical: 20,
+  },
+  footerText: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginVertical: 20,
+  },
+});
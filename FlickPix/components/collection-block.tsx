@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'expo-router';
+import { Image, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { getCollectionProgress, type FranchiseProgress } from '@/services/collections';
+import { isAbortError, posterUrl } from '@/services/tmdb';
+import { ratingColor } from '@/utils/ratingColors';
+
+type Props = {
+  collectionId: number;
+  currentMovieId: number;
+  /** The user's rating of the current movie; progress reloads when it changes. */
+  currentRating: number | null;
+  colors: { text: string; textMuted: string; card: string; cardBorder: string; accent: string; accentSoft: string };
+};
+
+/**
+ * "Part of the X collection": every entry in release order with the user's
+ * watched state. Each entry opens its own detail page.
+ */
+export function CollectionBlock({ collectionId, currentMovieId, currentRating, colors }: Props) {
+  const router = useRouter();
+  const [progress, setProgress] = useState<FranchiseProgress | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getCollectionProgress(collectionId, { signal: controller.signal })
+      .then(setProgress)
+      .catch((e) => {
+        // The rest of the page is still useful without this section
+        if (!isAbortError(e)) setProgress(null);
+      });
+    return () => controller.abort();
+  }, [collectionId, currentRating]);
+
+  if (!progress || progress.entries.length < 2) return null;
+
+  const openMovie = (id: number) => {
+    if (id === currentMovieId) return;
+    router.push({ pathname: '/movie/[id]', params: { id: String(id) } });
+  };
+
+  return (
+    <View>
+      <ThemedText style={[styles.label, { color: colors.textMuted }]}>COLLECTION</ThemedText>
+      <View style={styles.header}>
+        <ThemedText style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+          Part of the {progress.collection.name}
+        </ThemedText>
+        <ThemedText style={[styles.count, { color: colors.textMuted }]}>
+          {progress.watchedCount}/{progress.entries.length} watched
+        </ThemedText>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {progress.entries.map(({ movie, released, rating }, index) => {
+          const uri = posterUrl(movie.poster_path, 'w185');
+          const isCurrent = movie.id === currentMovieId;
+          const isNext = movie.id === progress.next?.id;
+          return (
+            <Pressable
+              key={movie.id}
+              onPress={() => openMovie(movie.id)}
+              style={({ pressed }) => [styles.entry, { opacity: pressed ? 0.7 : 1 }]}
+            >
+              <View
+                style={[
+                  styles.poster,
+                  { backgroundColor: colors.card, borderColor: isCurrent ? colors.accent : colors.cardBorder },
+                  isCurrent && styles.posterCurrent,
+                  rating === null && !isCurrent && styles.posterUnwatched,
+                ]}
+              >
+                {uri ? <Image source={{ uri }} style={styles.posterImage} /> : null}
+                {rating !== null && (
+                  <View style={[styles.badge, { backgroundColor: ratingColor(rating) }]}>
+                    <ThemedText style={styles.badgeText}>✓ {rating}</ThemedText>
+                  </View>
+                )}
+              </View>
+              <ThemedText style={[styles.entryTitle, { color: colors.text }]} numberOfLines={2}>
+                {index + 1}. {movie.title}
+              </ThemedText>
+              <ThemedText
+                style={[styles.entryMeta, { color: isNext && !isCurrent ? colors.accent : colors.textMuted }]}
+                numberOfLines={1}
+              >
+                {!released
+                  ? movie.release_date ? `Coming ${movie.release_date.slice(0, 4)}` : 'Announced'
+                  : isNext && !isCurrent
+                    ? 'Up next'
+                    : movie.release_date.slice(0, 4)}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 10,
+  },
+  title: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  count: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  row: {
+    gap: 10,
+  },
+  entry: {
+    width: 96,
+    gap: 4,
+  },
+  poster: {
+    width: 96,
+    height: 144,
+    borderRadius: 10,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  posterCurrent: {
+    borderWidth: 2,
+  },
+  posterUnwatched: {
+    opacity: 0.55,
+  },
+  posterImage: {
+    width: '100%',
+    height: '100%',
+  },
+  badge: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  badgeText: {
+    color: '#FFF',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  entryTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    lineHeight: 16,
+  },
+  entryMeta: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,153 @@
+import { useRouter } from 'expo-router';
+import { Image, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { profileUrl, type Credits } from '@/services/tmdb';
+
+/** Crew jobs worth surfacing on a detail view, in display order. */
+const KEY_CREW_JOBS = ['Director', 'Screenplay', 'Writer', 'Novel', 'Original Music Composer', 'Director of Photography'];
+
+const MAX_CAST = 12;
+const MAX_CREW = 6;
+
+type Props = {
+  credits: Credits;
+  colors: { text: string; textMuted: string; card: string; cardBorder: string };
+};
+
+type Chip = { id: number; name: string; role: string; photo: string | null };
+
+/** Key crew, one chip per person with their jobs joined. */
+function keyCrew(crew: Credits['crew']): Chip[] {
+  const byPerson = new Map<number, Chip & { rank: number }>();
+  for (const member of crew) {
+    const rank = KEY_CREW_JOBS.indexOf(member.job);
+    if (rank < 0) continue;
+    const existing = byPerson.get(member.id);
+    if (existing) {
+      if (!existing.role.includes(member.job)) existing.role += `, ${member.job}`;
+      existing.rank = Math.min(existing.rank, rank);
+    } else {
+      byPerson.set(member.id, { id: member.id, name: member.name, role: member.job, photo: member.profile_path, rank });
+    }
+  }
+  return [...byPerson.values()].sort((a, b) => a.rank - b.rank).slice(0, MAX_CREW);
+}
+
+/**
+ * Cast and key crew as tappable chips. Each opens that person's page.
+ */
+export function CreditChips({ credits, colors }: Props) {
+  const router = useRouter();
+
+  const cast: Chip[] = credits.cast.slice(0, MAX_CAST).map((c) => ({
+    id: c.id,
+    name: c.name,
+    role: c.character,
+    photo: c.profile_path,
+  }));
+  const crew = keyCrew(credits.crew);
+
+  const openPerson = (id: number) => {
+    router.push({ pathname: '/person/[id]', params: { id: String(id) } });
+  };
+
+  const renderRow = (label: string, chips: Chip[]) =>
+    chips.length > 0 ? (
+      <>
+        <ThemedText style={[styles.label, { color: colors.textMuted }]}>{label}</ThemedText>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+          {chips.map((chip) => {
+            const uri = profileUrl(chip.photo, 'w185');
+            return (
+              <Pressable
+                key={`${label}-${chip.id}`}
+                onPress={() => openPerson(chip.id)}
+                style={({ pressed }) => [
+                  styles.chip,
+                  { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.7 : 1 },
+                ]}
+              >
+                <View style={[styles.photo, { backgroundColor: colors.cardBorder }]}>
+                  {uri ? (
+                    <Image source={{ uri }} style={styles.photoImage} />
+                  ) : (
+                    <ThemedText style={[styles.initial, { color: colors.textMuted }]}>{chip.name.charAt(0)}</ThemedText>
+                  )}
+                </View>
+                <View style={styles.chipText}>
+                  <ThemedText style={[styles.name, { color: colors.text }]} numberOfLines={1}>
+                    {chip.name}
+                  </ThemedText>
+                  {chip.role ? (
+                    <ThemedText style={[styles.role, { color: colors.textMuted }]} numberOfLines={1}>
+                      {chip.role}
+                    </ThemedText>
+                  ) : null}
+                </View>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      </>
+    ) : null;
+
+  return (
+    <View>
+      {renderRow('CAST', cast)}
+      {renderRow('CREW', crew)}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  row: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    paddingLeft: 6,
+    paddingRight: 12,
+    borderRadius: 22,
+    borderWidth: 1,
+    maxWidth: 200,
+  },
+  photo: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  initial: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  chipText: {
+    flexShrink: 1,
+  },
+  name: {
+    fontSize: 12,
+    fontWeight: '600',
+    lineHeight: 16,
+  },
+  role: {
+    fontSize: 11,
+    lineHeight: 14,
+  },
+});
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, View, type GestureResponderEvent } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+
+const STEPS = [0, 0.15, 0.3, 0.5, 0.75, 1];
+const THUMB_SIZE = 22;
+
+type Props = {
+  value: number;
+  onChange: (value: number) => void;
+  colors: { text: string; textMuted: string; surface: string; cardBorder: string; accent: string; accentSoft: string };
+};
+
+/**
+ * Familiar ↔ Varied slider for the recommendation `diversity` option. Snaps
+ * to a few steps and only reports the value when the finger lifts, so a
+ * drag doesn't reload the list at every step.
+ */
+export function DiversitySlider({ value, onChange, colors }: Props) {
+  const [width, setWidth] = useState(0);
+  const [preview, setPreview] = useState(value);
+
+  useEffect(() => {
+    setPreview(value);
+  }, [value]);
+
+  const stepAt = (e: GestureResponderEvent) => {
+    const ratio = width > 0 ? Math.min(Math.max(e.nativeEvent.locationX / width, 0), 1) : value;
+    return STEPS.reduce((best, step) => (Math.abs(step - ratio) < Math.abs(best - ratio) ? step : best));
+  };
+
+  const release = (e: GestureResponderEvent) => {
+    const step = stepAt(e);
+    setPreview(step);
+    if (step !== value) onChange(step);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.cardBorder }]}>
+      <View style={styles.labels}>
+        <ThemedText style={[styles.label, { color: colors.textMuted }]}>Familiar</ThemedText>
+        <ThemedText style={[styles.title, { color: colors.text }]}>Variety</ThemedText>
+        <ThemedText style={[styles.label, { color: colors.textMuted }]}>Varied</ThemedText>
+      </View>
+      <View
+        style={styles.hitArea}
+        onLayout={(e) => setWidth(e.nativeEvent.layout.width)}
+        onStartShouldSetResponder={() => true}
+        onMoveShouldSetResponder={() => true}
+        onResponderGrant={(e) => setPreview(stepAt(e))}
+        onResponderMove={(e) => setPreview(stepAt(e))}
+        onResponderRelease={release}
+      >
+        <View pointerEvents="none" style={[styles.track, { backgroundColor: colors.accentSoft }]}>
+          <View style={[styles.fill, { backgroundColor: colors.accent, width: `${preview * 100}%` }]} />
+        </View>
+        {STEPS.map((step) => (
+          <View
+            key={step}
+            pointerEvents="none"
+            style={[styles.tick, { left: `${step * 100}%`, backgroundColor: step <= preview ? colors.accent : colors.cardBorder }]}
+          />
+        ))}
+        <View
+          pointerEvents="none"
+          style={[styles.thumb, { left: width * preview - THUMB_SIZE / 2, borderColor: colors.accent }]}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginBottom: 24,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 4,
+  },
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 12,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  hitArea: {
+    height: 32,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+  },
+  tick: {
+    position: 'absolute',
+    width: 4,
+    height: 4,
+    marginLeft: -2,
+    borderRadius: 2,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    borderWidth: 3,
+    backgroundColor: '#FFF',
+  },
+});
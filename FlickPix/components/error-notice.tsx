@@ -0,0 +1,61 @@
+import { Pressable, StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { ErrorDisplay } from '@/services/errors';
+
+type Props = {
+  error: ErrorDisplay;
+  colors: { text: string; textMuted: string; accent: string };
+  onRetry?: () => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+/**
+ * Inline error state: a short title, an actionable message and, when the
+ * failure is transient, a "Try again" button.
+ */
+export function ErrorNotice({ error, colors, onRetry, style }: Props) {
+  return (
+    <View style={[styles.container, style]}>
+      <ThemedText style={[styles.title, { color: colors.text }]}>{error.title}</ThemedText>
+      <ThemedText style={[styles.message, { color: colors.textMuted }]}>{error.message}</ThemedText>
+      {error.canRetry && onRetry ? (
+        <Pressable
+          onPress={onRetry}
+          style={({ pressed }) => [styles.retryButton, { borderColor: colors.accent, opacity: pressed ? 0.7 : 1 }]}
+        >
+          <ThemedText style={[styles.retryText, { color: colors.accent }]}>Try again</ThemedText>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 12,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 13,
+    lineHeight: 18,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  retryText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
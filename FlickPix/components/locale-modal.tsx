@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { SUPPORTED_LANGUAGES, SUPPORTED_REGIONS } from '@/services/locale';
+import type { LocaleSettings } from '@/services/storage';
+
+type Props = {
+  visible: boolean;
+  initial: LocaleSettings;
+  onClose: () => void;
+  onSave: (settings: LocaleSettings) => void;
+  colors: {
+    bg: string;
+    card: string;
+    cardBorder: string;
+    text: string;
+    textMuted: string;
+    accent: string;
+    accentSoft: string;
+  };
+};
+
+/**
+ * Picks the language titles and overviews are shown in, and the region used
+ * for popular lists and release dates.
+ */
+export function LocaleModal({ visible, initial, onClose, onSave, colors }: Props) {
+  const [language, setLanguage] = useState(initial.language);
+  const [region, setRegion] = useState(initial.region);
+
+  // Start from the saved settings every time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setLanguage(initial.language);
+    setRegion(initial.region);
+  }, [visible, initial.language, initial.region]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={[styles.content, { backgroundColor: colors.bg, borderColor: colors.cardBorder }]} onPress={() => {}}>
+          <View style={[styles.header, { borderBottomColor: colors.cardBorder }]}>
+            <ThemedText style={[styles.title, { color: colors.text }]}>Language & region</ThemedText>
+            <Pressable style={[styles.closeButton, { backgroundColor: colors.card }]} onPress={onClose}>
+              <ThemedText style={[styles.closeText, { color: colors.text }]}>✕</ThemedText>
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false}>
+            <ThemedText style={[styles.sectionLabel, { color: colors.textMuted }]}>LANGUAGE</ThemedText>
+            <View style={styles.chipGrid}>
+              {SUPPORTED_LANGUAGES.map((option) => {
+                const active = option.code === language;
+                return (
+                  <Pressable
+                    key={option.code}
+                    onPress={() => setLanguage(option.code)}
+                    style={[
+                      styles.chip,
+                      { backgroundColor: active ? colors.accentSoft : colors.card, borderColor: active ? colors.accent : colors.cardBorder },
+                    ]}
+                  >
+                    <ThemedText style={[styles.chipText, { color: active ? colors.text : colors.textMuted }]}>
+                      {option.label}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <ThemedText style={[styles.sectionLabel, { color: colors.textMuted }]}>REGION</ThemedText>
+            <View style={styles.chipGrid}>
+              {SUPPORTED_REGIONS.map((option) => {
+                const active = option.code === region;
+                return (
+                  <Pressable
+                    key={option.code}
+                    onPress={() => setRegion(option.code)}
+                    style={[
+                      styles.chip,
+                      { backgroundColor: active ? colors.accentSoft : colors.card, borderColor: active ? colors.accent : colors.cardBorder },
+                    ]}
+                  >
+                    <ThemedText style={[styles.chipText, { color: active ? colors.text : colors.textMuted }]}>
+                      {option.label}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <ThemedText style={[styles.hint, { color: colors.textMuted }]}>
+              Overviews without a translation are shown in English.
+            </ThemedText>
+          </ScrollView>
+
+          <Pressable
+            style={[styles.saveButton, { backgroundColor: colors.accent }]}
+            onPress={() => onSave({ language, region })}
+          >
+            <ThemedText style={styles.saveText}>Save</ThemedText>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeText: {
+    fontSize: 14,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    paddingHorizontal: 20,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    paddingHorizontal: 20,
+    marginTop: 16,
+  },
+  saveButton: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  saveText: {
+    color: '#FFF',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
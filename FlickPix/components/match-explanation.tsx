@@ -0,0 +1,109 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { MATCH_WEIGHTS, type MatchBreakdown } from '@/services/matchScore';
+
+type Props = {
+  match: MatchBreakdown;
+  colors: { text: string; textMuted: string; card: string; cardBorder: string; accent: string; green: string };
+};
+
+const PARTS: { key: keyof typeof MATCH_WEIGHTS; label: string }[] = [
+  { key: 'genreAffinity', label: 'Genres you love' },
+  { key: 'collaborative', label: 'Liked by similar raters' },
+  { key: 'content', label: 'Like movies you loved' },
+  { key: 'quality', label: 'Critical reception' },
+  { key: 'popularity', label: 'Popularity' },
+];
+
+const PENALTY_COLOR = '#EF4444';
+
+/**
+ * "Why this score": how many points of the match score each part earned,
+ * with a bar for how strong that part was, and what was taken off.
+ */
+export function MatchExplanation({ match, colors }: Props) {
+  const penalties = [
+    { label: 'Like movies you disliked or hid', value: match.dislikePenalty },
+    { label: 'Older than you usually watch', value: match.recencyPenalty },
+  ].filter((p) => p.value > 0);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+      {PARTS.filter(({ key }) => match.weights[key] > 0).map(({ key, label }) => (
+        <View key={key} style={styles.row}>
+          <ThemedText style={[styles.label, { color: colors.textMuted }]}>{label}</ThemedText>
+          <View style={[styles.track, { backgroundColor: colors.cardBorder }]}>
+            <View style={[styles.fill, { backgroundColor: colors.accent, width: `${Math.round(match[key] * 100)}%` }]} />
+          </View>
+          <ThemedText style={[styles.points, { color: colors.green }]}>
+            +{Math.round(match[key] * match.weights[key] * 100)}
+          </ThemedText>
+        </View>
+      ))}
+      {penalties.map(({ label, value }) => (
+        <View key={label} style={styles.row}>
+          <ThemedText style={[styles.label, styles.penaltyLabel, { color: colors.textMuted }]}>{label}</ThemedText>
+          <ThemedText style={[styles.points, { color: PENALTY_COLOR }]}>−{Math.round(value * 100)}</ThemedText>
+        </View>
+      ))}
+      <View style={[styles.totalRow, { borderTopColor: colors.cardBorder }]}>
+        <ThemedText style={[styles.totalLabel, { color: colors.text }]}>Match</ThemedText>
+        <ThemedText style={[styles.totalValue, { color: colors.green }]}>{match.score}%</ThemedText>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  label: {
+    width: 130,
+    fontSize: 12,
+  },
+  penaltyLabel: {
+    flex: 1,
+    width: undefined,
+  },
+  track: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+  },
+  points: {
+    width: 32,
+    fontSize: 12,
+    fontWeight: '700',
+    textAlign: 'right',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    paddingTop: 6,
+    marginTop: 2,
+  },
+  totalLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  totalValue: {
+    fontSize: 13,
+    fontWeight: '800',
+  },
+});
@@ -0,0 +1,315 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Image, Linking, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+
+import { CollectionBlock } from '@/components/collection-block';
+import { CreditChips } from '@/components/credit-chips';
+import { ErrorNotice } from '@/components/error-notice';
+import { ThemedText } from '@/components/themed-text';
+import { WhereToWatch } from '@/components/where-to-watch';
+import type { MovieDetailState } from '@/hooks/use-movie-detail';
+import { describeError, posterUrl as tmdbPosterUrl, backdropUrl as tmdbBackdropUrl } from '@/services/tmdb';
+import { ratingColor, ratingBg } from '@/utils/ratingColors';
+
+const RATINGS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+type Props = {
+  detail: MovieDetailState;
+  colors: {
+    bg: string;
+    card: string;
+    cardBorder: string;
+    text: string;
+    textMuted: string;
+    accent: string;
+    accentSoft: string;
+  };
+};
+
+/**
+ * The movie detail view: backdrop, synopsis, trailer, where to watch,
+ * cast & crew, its collection and the watched/watchlist actions. Pair with
+ * useMovieDetail().
+ */
+export function MovieDetailSheet({ detail, colors }: Props) {
+  const { movie, credits, trailerKey, watchProviders, watchSettings, loading, error, inWatchlist, rating } = detail;
+  const [showRatingPicker, setShowRatingPicker] = useState(false);
+
+  useEffect(() => {
+    setShowRatingPicker(false);
+  }, [movie?.id]);
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.accent} />
+        <ThemedText style={[styles.loadingText, { color: colors.textMuted }]}>Loading...</ThemedText>
+      </View>
+    );
+  }
+
+  if (error || !movie) {
+    return (
+      <View style={styles.centered}>
+        <ErrorNotice
+          error={error ?? describeError(null, "Couldn't load this movie")}
+          colors={colors}
+          onRetry={detail.reload}
+        />
+      </View>
+    );
+  }
+
+  const backdrop = tmdbBackdropUrl(movie.backdrop_path, 'w1280') ?? tmdbPosterUrl(movie.poster_path, 'w780');
+  const watched = rating !== null;
+
+  const rate = (value: number) => {
+    setShowRatingPicker(false);
+    detail.markWatched(value);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+      <View style={styles.backdrop}>
+        {backdrop ? <Image source={{ uri: backdrop }} style={StyleSheet.absoluteFill} resizeMode="cover" /> : null}
+        <LinearGradient colors={['transparent', colors.bg]} style={styles.backdropGradient} />
+      </View>
+      <View style={styles.body}>
+        <ThemedText style={[styles.title, { color: colors.text }]}>{movie.title}</ThemedText>
+        <View style={styles.meta}>
+          <ThemedText style={[styles.metaText, { color: colors.textMuted }]}>
+            {movie.release_date?.slice(0, 4) || '—'}
+          </ThemedText>
+          <ThemedText style={[styles.metaDot, { color: colors.textMuted }]}>•</ThemedText>
+          <ThemedText style={[styles.metaText, { color: colors.textMuted }]}>
+            ★ {movie.vote_average.toFixed(1)}
+          </ThemedText>
+          {movie.runtime ? (
+            <>
+              <ThemedText style={[styles.metaDot, { color: colors.textMuted }]}>•</ThemedText>
+              <ThemedText style={[styles.metaText, { color: colors.textMuted }]}>{movie.runtime} min</ThemedText>
+            </>
+          ) : null}
+        </View>
+        {movie.genres.length > 0 && (
+          <View style={styles.genres}>
+            {movie.genres.slice(0, 5).map((g) => (
+              <View key={g.id} style={[styles.genreChip, { backgroundColor: colors.accentSoft, borderColor: colors.cardBorder }]}>
+                <ThemedText style={[styles.genreChipText, { color: colors.accent }]}>{g.name}</ThemedText>
+              </View>
+            ))}
+          </View>
+        )}
+        {movie.tagline ? (
+          <ThemedText style={[styles.tagline, { color: colors.textMuted }]}>{movie.tagline}</ThemedText>
+        ) : null}
+        {movie.overview ? (
+          <>
+            <ThemedText style={[styles.sectionLabel, { color: colors.textMuted }]}>SYNOPSIS</ThemedText>
+            <ThemedText style={[styles.overview, { color: colors.text }]}>{movie.overview}</ThemedText>
+          </>
+        ) : null}
+        {trailerKey ? (
+          <Pressable
+            style={[styles.button, styles.trailerButton, { backgroundColor: colors.accent }]}
+            onPress={() => Linking.openURL(`https://www.youtube.com/watch?v=${trailerKey}`)}
+          >
+            <ThemedText style={styles.buttonText}>▶ Watch Trailer</ThemedText>
+          </Pressable>
+        ) : null}
+        <WhereToWatch
+          providers={watchProviders}
+          region={watchSettings.region}
+          myServices={watchSettings.services}
+          colors={colors}
+        />
+        {credits && <CreditChips credits={credits} colors={colors} />}
+        {movie.belongs_to_collection && (
+          <CollectionBlock
+            collectionId={movie.belongs_to_collection.id}
+            currentMovieId={movie.id}
+            currentRating={rating}
+            colors={colors}
+          />
+        )}
+        <View style={styles.actions}>
+          {!watched && !showRatingPicker && (
+            <Pressable style={[styles.actionButton, { backgroundColor: colors.accent }]} onPress={() => setShowRatingPicker(true)}>
+              <ThemedText style={styles.buttonText}>Add to Watched</ThemedText>
+            </Pressable>
+          )}
+          {!watched && showRatingPicker && (
+            <View style={styles.ratingPicker}>
+              <ThemedText style={[styles.ratingPickerLabel, { color: colors.textMuted }]}>Rate it:</ThemedText>
+              <View style={styles.ratingPickerRow}>
+                {RATINGS.map((r) => (
+                  <Pressable
+                    key={r}
+                    style={[styles.ratingPickerChip, { backgroundColor: ratingBg(r), borderColor: ratingColor(r) }]}
+                    onPress={() => rate(r)}
+                  >
+                    <ThemedText style={[styles.ratingPickerChipText, { color: ratingColor(r) }]}>{r}</ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          )}
+          {watched && (
+            <View style={[styles.actionButton, { backgroundColor: colors.accentSoft, borderColor: colors.cardBorder }]}>
+              <ThemedText style={[styles.buttonText, { color: colors.accent }]}>✓ Watched · {rating}</ThemedText>
+            </View>
+          )}
+          <Pressable
+            style={[
+              styles.actionButton,
+              { backgroundColor: inWatchlist ? colors.accentSoft : colors.card, borderColor: colors.cardBorder },
+            ]}
+            onPress={detail.toggleWatchlist}
+          >
+            <ThemedText style={[styles.buttonText, { color: inWatchlist ? colors.accent : colors.text }]}>
+              {inWatchlist ? 'In Watchlist' : '+ Watchlist'}
+            </ThemedText>
+          </Pressable>
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  scrollContent: {
+    paddingBottom: 48,
+  },
+  backdrop: {
+    height: 300,
+    width: '100%',
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  backdropGradient: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 140,
+  },
+  body: {
+    paddingHorizontal: 20,
+    gap: 10,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    lineHeight: 32,
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  metaText: {
+    fontSize: 14,
+  },
+  metaDot: {
+    fontSize: 12,
+  },
+  genres: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  genreChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  genreChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  tagline: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1.2,
+    marginTop: 14,
+    marginBottom: 4,
+  },
+  overview: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  button: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  trailerButton: {
+    marginTop: 12,
+  },
+  buttonText: {
+    color: '#FFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+    flexWrap: 'wrap',
+  },
+  actionButton: {
+    paddingHorizontal: 18,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    minWidth: 120,
+    alignItems: 'center',
+  },
+  ratingPicker: {
+    flex: 1,
+    gap: 8,
+  },
+  ratingPickerLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  ratingPickerRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  ratingPickerChip: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  ratingPickerChipText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,77 @@
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { NotInterestedReason } from '@/services/storage';
+
+export const REASON_LABELS: Record<NotInterestedReason, string> = {
+  seenElsewhere: 'Already seen it elsewhere',
+  notMyGenre: 'Not my genre',
+  dislikeActor: "Don't like this actor",
+};
+
+const REASONS = Object.keys(REASON_LABELS) as NotInterestedReason[];
+
+type Props = {
+  onPick: (reason: NotInterestedReason | null) => void;
+  onCancel: () => void;
+  colors: { text: string; textMuted: string; card: string; cardBorder: string };
+};
+
+/**
+ * Inline "Not interested" prompt: an optional reason, or just hide it. The
+ * reason decides what the recommendations learn from it.
+ */
+export function NotInterestedPicker({ onPick, onCancel, colors }: Props) {
+  return (
+    <View style={styles.container}>
+      <ThemedText style={[styles.label, { color: colors.textMuted }]}>Not interested? Tell us why (optional):</ThemedText>
+      <View style={styles.chips}>
+        {REASONS.map((reason) => (
+          <Pressable
+            key={reason}
+            style={[styles.chip, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            onPress={() => onPick(reason)}
+          >
+            <ThemedText style={[styles.chipText, { color: colors.text }]}>{REASON_LABELS[reason]}</ThemedText>
+          </Pressable>
+        ))}
+        <Pressable
+          style={[styles.chip, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+          onPress={() => onPick(null)}
+        >
+          <ThemedText style={[styles.chipText, { color: colors.text }]}>Just hide it</ThemedText>
+        </Pressable>
+        <Pressable style={styles.chip} onPress={onCancel}>
+          <ThemedText style={[styles.chipText, { color: colors.textMuted }]}>Cancel</ThemedText>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 10,
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
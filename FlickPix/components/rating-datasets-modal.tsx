@@ -0,0 +1,309 @@
+import { useEffect, useState } from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { parseRatingsCsv } from '@/services/collaborative';
+import {
+  getRatingDatasets,
+  importRatingDataset,
+  removeRatingDataset,
+  type RatingDataset,
+} from '@/services/storage';
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  onChange: (datasets: RatingDataset[]) => void;
+  colors: {
+    bg: string;
+    card: string;
+    cardBorder: string;
+    text: string;
+    textMuted: string;
+    accent: string;
+    accentSoft: string;
+    red: string;
+  };
+};
+
+const SCALES = [
+  { max: 5, label: 'Out of 5 (MovieLens)' },
+  { max: 10, label: 'Out of 10' },
+];
+
+/**
+ * Imported rating datasets for "people who liked X also liked this": paste
+ * a ratings CSV (plus links.csv for MovieLens), say what scale it uses, and
+ * remove datasets that are no longer wanted.
+ */
+export function RatingDatasetsModal({ visible, onClose, onChange, colors }: Props) {
+  const [datasets, setDatasets] = useState<RatingDataset[]>([]);
+  const [name, setName] = useState('');
+  const [ratingsCsv, setRatingsCsv] = useState('');
+  const [linksCsv, setLinksCsv] = useState('');
+  const [scale, setScale] = useState(5);
+  const [message, setMessage] = useState<{ text: string; failed: boolean } | null>(null);
+
+  // Start from a blank form and the stored datasets every time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setName('');
+    setRatingsCsv('');
+    setLinksCsv('');
+    setMessage(null);
+    getRatingDatasets().then(setDatasets);
+  }, [visible]);
+
+  const update = (next: RatingDataset[]) => {
+    setDatasets(next);
+    onChange(next);
+  };
+
+  const handleImport = async () => {
+    try {
+      const ratings = parseRatingsCsv(ratingsCsv, { scale, links: linksCsv.trim() || undefined });
+      if (ratings.length === 0) {
+        setMessage({ text: 'No ratings with a TMDB ID on that scale were found.', failed: true });
+        return;
+      }
+      const dataset = await importRatingDataset(name, ratings);
+      update([...datasets, dataset]);
+      setName('');
+      setRatingsCsv('');
+      setLinksCsv('');
+      setMessage({ text: `Imported ${ratings.length} ratings as "${dataset.name}".`, failed: false });
+    } catch (importError) {
+      setMessage({ text: importError instanceof Error ? importError.message : "Couldn't import those ratings", failed: true });
+    }
+  };
+
+  const handleRemove = async (datasetId: string) => {
+    await removeRatingDataset(datasetId);
+    update(datasets.filter((d) => d.id !== datasetId));
+  };
+
+  const inputStyle = [styles.input, { backgroundColor: colors.card, borderColor: colors.cardBorder, color: colors.text }];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={[styles.content, { backgroundColor: colors.bg, borderColor: colors.cardBorder }]} onPress={() => {}}>
+          <View style={[styles.header, { borderBottomColor: colors.cardBorder }]}>
+            <ThemedText style={[styles.title, { color: colors.text }]}>Rating data</ThemedText>
+            <Pressable style={[styles.closeButton, { backgroundColor: colors.card }]} onPress={onClose}>
+              <ThemedText style={[styles.closeText, { color: colors.text }]}>✕</ThemedText>
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <ThemedText style={[styles.sectionLabel, { color: colors.textMuted }]}>IMPORTED</ThemedText>
+            {datasets.length === 0 ? (
+              <ThemedText style={[styles.hint, { color: colors.textMuted }]}>
+                Nothing imported yet. Only ratings from profiles on this device are used.
+              </ThemedText>
+            ) : (
+              datasets.map((dataset) => (
+                <View key={dataset.id} style={[styles.datasetRow, { borderColor: colors.cardBorder }]}>
+                  <View style={styles.datasetInfo}>
+                    <ThemedText style={[styles.datasetName, { color: colors.text }]} numberOfLines={1}>
+                      {dataset.name}
+                    </ThemedText>
+                    <ThemedText style={[styles.datasetMeta, { color: colors.textMuted }]}>
+                      {dataset.count} ratings · {new Date(dataset.importedAt).toLocaleDateString()}
+                    </ThemedText>
+                  </View>
+                  <Pressable onPress={() => handleRemove(dataset.id)} hitSlop={8}>
+                    <ThemedText style={[styles.removeText, { color: colors.red }]}>Remove</ThemedText>
+                  </Pressable>
+                </View>
+              ))
+            )}
+
+            <ThemedText style={[styles.sectionLabel, { color: colors.textMuted }]}>IMPORT A CSV</ThemedText>
+            <View style={styles.form}>
+              <TextInput
+                style={inputStyle}
+                value={name}
+                onChangeText={setName}
+                placeholder="Name (e.g. MovieLens small)"
+                placeholderTextColor={colors.textMuted}
+              />
+              <TextInput
+                style={[inputStyle, styles.csvInput]}
+                value={ratingsCsv}
+                onChangeText={setRatingsCsv}
+                placeholder={'ratings.csv: userId,tmdbId,rating\n(or userId,movieId,rating with links.csv below)'}
+                placeholderTextColor={colors.textMuted}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TextInput
+                style={[inputStyle, styles.csvInput]}
+                value={linksCsv}
+                onChangeText={setLinksCsv}
+                placeholder="links.csv: movieId,imdbId,tmdbId (optional)"
+                placeholderTextColor={colors.textMuted}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={styles.chipGrid}>
+                {SCALES.map((option) => {
+                  const active = option.max === scale;
+                  return (
+                    <Pressable
+                      key={option.max}
+                      onPress={() => setScale(option.max)}
+                      style={[
+                        styles.chip,
+                        { backgroundColor: active ? colors.accentSoft : colors.card, borderColor: active ? colors.accent : colors.cardBorder },
+                      ]}
+                    >
+                      <ThemedText style={[styles.chipText, { color: active ? colors.text : colors.textMuted }]}>
+                        {option.label}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              {message && (
+                <ThemedText style={[styles.message, { color: message.failed ? colors.red : colors.textMuted }]}>
+                  {message.text}
+                </ThemedText>
+              )}
+            </View>
+          </ScrollView>
+
+          <Pressable
+            style={[styles.saveButton, { backgroundColor: ratingsCsv.trim() ? colors.accent : colors.card }]}
+            onPress={handleImport}
+            disabled={!ratingsCsv.trim()}
+          >
+            <ThemedText style={[styles.saveText, { color: ratingsCsv.trim() ? '#FFF' : colors.textMuted }]}>Import</ThemedText>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeText: {
+    fontSize: 14,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    paddingHorizontal: 20,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    paddingHorizontal: 20,
+  },
+  datasetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 20,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  datasetInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  datasetName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  datasetMeta: {
+    fontSize: 12,
+  },
+  removeText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  form: {
+    gap: 10,
+    paddingHorizontal: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+  },
+  csvInput: {
+    minHeight: 88,
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  message: {
+    fontSize: 12,
+  },
+  saveButton: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  saveText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
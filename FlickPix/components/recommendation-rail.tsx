@@ -0,0 +1,166 @@
+import { ActivityIndicator, Image, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { getPosterUrl, type Rail } from '@/services/recommendations';
+import { ratingColor, ratingBg } from '@/utils/ratingColors';
+
+type Props = {
+  rail: Rail;
+  refreshing: boolean;
+  onRefresh: () => void;
+  onSeeAll: () => void;
+  onOpenMovie: (movieId: number) => void;
+  colors: { text: string; textMuted: string; card: string; cardBorder: string; accent: string; accentSoft: string; inputBg: string };
+};
+
+/**
+ * One named recommendation rail: title, refresh and "See all" actions, and a
+ * horizontally scrolling row of posters.
+ */
+export function RecommendationRail({ rail, refreshing, onRefresh, onSeeAll, onOpenMovie, colors }: Props) {
+  return (
+    <View style={styles.rail}>
+      <View style={styles.header}>
+        <ThemedText style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+          {rail.title}
+        </ThemedText>
+        <Pressable
+          onPress={onRefresh}
+          disabled={refreshing}
+          hitSlop={8}
+          style={({ pressed }) => [styles.action, { backgroundColor: colors.accentSoft, opacity: pressed ? 0.7 : 1 }]}
+        >
+          {refreshing ? (
+            <ActivityIndicator size="small" color={colors.accent} />
+          ) : (
+            <ThemedText style={[styles.actionText, { color: colors.accent }]}>↻</ThemedText>
+          )}
+        </Pressable>
+        <Pressable onPress={onSeeAll} hitSlop={8}>
+          <ThemedText style={[styles.seeAll, { color: colors.accent }]}>See all</ThemedText>
+        </Pressable>
+      </View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}
+        style={{ opacity: refreshing ? 0.5 : 1 }}
+      >
+        {rail.items.map((movie) => {
+          const posterUri = getPosterUrl(movie.posterPath, 'w342');
+          return (
+            <Pressable
+              key={movie.id}
+              onPress={() => onOpenMovie(movie.id)}
+              style={({ pressed }) => [
+                styles.card,
+                {
+                  backgroundColor: colors.card,
+                  borderColor: colors.cardBorder,
+                  transform: [{ scale: pressed ? 0.97 : 1 }],
+                },
+              ]}
+            >
+              {posterUri ? (
+                <Image source={{ uri: posterUri }} style={styles.poster} />
+              ) : (
+                <View style={[styles.poster, styles.posterPlaceholder, { backgroundColor: colors.inputBg }]}>
+                  <ThemedText style={{ fontSize: 20 }}>🎬</ThemedText>
+                </View>
+              )}
+              <View style={styles.info}>
+                <ThemedText style={[styles.movieTitle, { color: colors.text }]} numberOfLines={2}>
+                  {movie.title}
+                </ThemedText>
+                <View style={styles.meta}>
+                  <ThemedText style={[styles.year, { color: colors.textMuted }]}>
+                    {movie.releaseDate?.slice(0, 4) || '—'}
+                  </ThemedText>
+                  <View style={[styles.ratingBadge, { backgroundColor: ratingBg(movie.voteAverage) }]}>
+                    <ThemedText style={[styles.ratingText, { color: ratingColor(movie.voteAverage) }]}>
+                      {movie.voteAverage.toFixed(1)}
+                    </ThemedText>
+                  </View>
+                </View>
+              </View>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  rail: {
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  action: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  seeAll: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  row: {
+    gap: 12,
+  },
+  card: {
+    width: 130,
+    borderRadius: 14,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  poster: {
+    width: '100%',
+    aspectRatio: 2 / 3,
+  },
+  posterPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  info: {
+    padding: 8,
+    gap: 4,
+  },
+  movieTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    lineHeight: 17,
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  year: {
+    fontSize: 12,
+  },
+  ratingBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  ratingText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Image, Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ErrorNotice } from '@/components/error-notice';
+import { ThemedText } from '@/components/themed-text';
+import {
+  describeError,
+  getRegionWatchProviders,
+  getWatchProviderRegions,
+  isAbortError,
+  logoUrl,
+  type ErrorDisplay,
+  type WatchProvider,
+  type WatchRegion,
+} from '@/services/tmdb';
+import type { WatchSettings } from '@/services/storage';
+
+/** Shown first in the region picker; the full list follows. */
+const COMMON_REGIONS = ['US', 'GB', 'CA', 'AU', 'IN', 'DE', 'FR', 'ES', 'JP', 'KR', 'BR', 'MX'];
+
+/** Enough to cover the big services without an endless grid. */
+const MAX_PROVIDERS = 36;
+
+type Props = {
+  visible: boolean;
+  initial: WatchSettings;
+  onClose: () => void;
+  onSave: (settings: WatchSettings) => void;
+  colors: {
+    bg: string;
+    card: string;
+    cardBorder: string;
+    text: string;
+    textMuted: string;
+    accent: string;
+    accentSoft: string;
+  };
+};
+
+/**
+ * Lets the user pick their region and the streaming services they pay for.
+ */
+export function StreamingServicesModal({ visible, initial, onClose, onSave, colors }: Props) {
+  const [region, setRegion] = useState(initial.region);
+  const [services, setServices] = useState<number[]>(initial.services);
+  const [regions, setRegions] = useState<WatchRegion[]>([]);
+  const [providers, setProviders] = useState<WatchProvider[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ErrorDisplay | null>(null);
+
+  // Start from the saved settings every time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setRegion(initial.region);
+    setServices(initial.services);
+  }, [visible, initial.region, initial.services]);
+
+  useEffect(() => {
+    if (!visible) return;
+    const controller = new AbortController();
+    getWatchProviderRegions({ signal: controller.signal })
+      .then(setRegions)
+      .catch(() => {
+        // The common regions still work without the full list
+      });
+    return () => controller.abort();
+  }, [visible]);
+
+  const loadProviders = useCallback((signal?: AbortSignal) => {
+    setLoading(true);
+    setError(null);
+    getRegionWatchProviders(region, { signal })
+      .then((list) => {
+        if (!signal?.aborted) setProviders(list.slice(0, MAX_PROVIDERS));
+      })
+      .catch((e) => {
+        if (!signal?.aborted && !isAbortError(e)) setError(describeError(e, "Couldn't load streaming services"));
+      })
+      .finally(() => {
+        if (!signal?.aborted) setLoading(false);
+      });
+  }, [region]);
+
+  useEffect(() => {
+    if (!visible) return;
+    const controller = new AbortController();
+    loadProviders(controller.signal);
+    return () => controller.abort();
+  }, [visible, loadProviders]);
+
+  const regionCodes = [
+    ...COMMON_REGIONS,
+    ...regions
+      .map((r) => r.iso_3166_1)
+      .filter((code) => !COMMON_REGIONS.includes(code))
+      .sort(),
+  ];
+  if (!regionCodes.includes(region)) regionCodes.unshift(region);
+
+  const toggleService = (id: number) => {
+    setServices((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={[styles.content, { backgroundColor: colors.bg, borderColor: colors.cardBorder }]} onPress={() => {}}>
+          <View style={[styles.header, { borderBottomColor: colors.cardBorder }]}>
+            <ThemedText style={[styles.title, { color: colors.text }]}>Streaming services</ThemedText>
+            <Pressable style={[styles.closeButton, { backgroundColor: colors.card }]} onPress={onClose}>
+              <ThemedText style={[styles.closeText, { color: colors.text }]}>✕</ThemedText>
+            </Pressable>
+          </View>
+
+          <ThemedText style={[styles.sectionLabel, { color: colors.textMuted }]}>REGION</ThemedText>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.regionRow}>
+            {regionCodes.map((code) => {
+              const active = code === region;
+              return (
+                <Pressable
+                  key={code}
+                  onPress={() => setRegion(code)}
+                  style={[
+                    styles.regionChip,
+                    { backgroundColor: active ? colors.accent : colors.card, borderColor: active ? colors.accent : colors.cardBorder },
+                  ]}
+                >
+                  <ThemedText style={[styles.regionChipText, { color: active ? '#FFF' : colors.textMuted }]}>{code}</ThemedText>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+
+          <ThemedText style={[styles.sectionLabel, { color: colors.textMuted }]}>
+            YOUR SERVICES{services.length > 0 ? ` · ${services.length} selected` : ''}
+          </ThemedText>
+          <ScrollView style={styles.providerScroll} contentContainerStyle={styles.providerGrid} showsVerticalScrollIndicator={false}>
+            {loading ? (
+              <ActivityIndicator color={colors.accent} style={styles.loading} />
+            ) : error ? (
+              <ErrorNotice error={error} colors={colors} onRetry={() => loadProviders()} />
+            ) : (
+              providers.map((provider) => {
+                const selected = services.includes(provider.provider_id);
+                const uri = logoUrl(provider.logo_path, 'w92');
+                return (
+                  <Pressable
+                    key={provider.provider_id}
+                    onPress={() => toggleService(provider.provider_id)}
+                    style={[
+                      styles.provider,
+                      { backgroundColor: selected ? colors.accentSoft : colors.card, borderColor: selected ? colors.accent : colors.cardBorder },
+                    ]}
+                  >
+                    {uri ? <Image source={{ uri }} style={styles.providerLogo} /> : null}
+                    <ThemedText style={[styles.providerName, { color: colors.text }]} numberOfLines={2}>
+                      {provider.provider_name}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })
+            )}
+          </ScrollView>
+
+          <Pressable
+            style={[styles.saveButton, { backgroundColor: colors.accent }]}
+            onPress={() => onSave({ region, services })}
+          >
+            <ThemedText style={styles.saveText}>Save</ThemedText>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeText: {
+    fontSize: 14,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    paddingHorizontal: 20,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  regionRow: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  regionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  regionChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  providerScroll: {
+    flexGrow: 0,
+  },
+  providerGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    paddingHorizontal: 20,
+  },
+  loading: {
+    marginVertical: 24,
+    flex: 1,
+  },
+  provider: {
+    width: 76,
+    alignItems: 'center',
+    gap: 6,
+    padding: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  providerLogo: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+  },
+  providerName: {
+    fontSize: 10,
+    lineHeight: 13,
+    textAlign: 'center',
+  },
+  saveButton: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  saveText: {
+    color: '#FFF',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
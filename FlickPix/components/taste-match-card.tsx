@@ -0,0 +1,255 @@
+import { useCallback, useState } from 'react';
+import { ActivityIndicator, Image, Pressable, StyleSheet, View } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { ThemedText } from '@/components/themed-text';
+import {
+  comparisonPartner,
+  getTasteCompatibility,
+  type SharedRating,
+  type TasteCompatibility,
+} from '@/services/compatibility';
+import { getPosterUrl } from '@/services/recommendations';
+
+type Props = {
+  users: { id: string; name: string }[];
+  activeUserId: string;
+  onOpenMovie: (movieId: number) => void;
+  colors: {
+    text: string;
+    textMuted: string;
+    surface: string;
+    cardBorder: string;
+    accent: string;
+    accentSoft: string;
+    green: string;
+    red: string;
+    posterBg: string;
+  };
+};
+
+/**
+ * "Taste match" with another profile on this device: a compatibility
+ * percentage, the movies the two agree and disagree on most, and three
+ * picks they'd both like.
+ */
+export function TasteMatchCard({ users, activeUserId, onOpenMovie, colors }: Props) {
+  const others = users.filter((u) => u.id !== activeUserId);
+  const [chosenId, setChosenId] = useState<string | null>(null);
+  const otherId = comparisonPartner(users, activeUserId, chosenId);
+  const [compatibility, setCompatibility] = useState<TasteCompatibility | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!otherId) return;
+      let cancelled = false;
+      setFailed(false);
+      getTasteCompatibility(activeUserId, otherId)
+        .then((result) => {
+          if (!cancelled) setCompatibility(result);
+        })
+        .catch(() => {
+          if (!cancelled) setFailed(true);
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, [activeUserId, otherId])
+  );
+
+  if (!otherId) return null;
+  const current =
+    compatibility?.users[0].id === activeUserId && compatibility.users[1].id === otherId ? compatibility : null;
+
+  const renderShared = (movie: SharedRating, color: string) => (
+    <Pressable key={movie.movieId} style={styles.sharedRow} onPress={() => onOpenMovie(movie.movieId)}>
+      <ThemedText style={[styles.sharedTitle, { color: colors.text }]} numberOfLines={1}>
+        {movie.title}
+      </ThemedText>
+      <ThemedText style={[styles.sharedRatings, { color }]}>
+        ★ {movie.ratings[0]} · ★ {movie.ratings[1]}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.cardBorder }]}>
+      {others.length > 1 && (
+        <View style={styles.chips}>
+          {others.map((user) => (
+            <Pressable
+              key={user.id}
+              onPress={() => setChosenId(user.id)}
+              style={[
+                styles.chip,
+                {
+                  backgroundColor: user.id === otherId ? colors.accentSoft : 'transparent',
+                  borderColor: user.id === otherId ? colors.accent : colors.cardBorder,
+                },
+              ]}
+            >
+              <ThemedText style={[styles.chipText, { color: user.id === otherId ? colors.accent : colors.textMuted }]}>
+                {user.name}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {failed ? (
+        <ThemedText style={[styles.hint, { color: colors.textMuted }]}>Couldn&apos;t compare tastes right now.</ThemedText>
+      ) : !current ? (
+        <ActivityIndicator size="small" color={colors.accent} />
+      ) : (
+        <>
+          <View style={styles.scoreRow}>
+            <ThemedText style={[styles.score, { color: colors.accent }]}>{current.score}%</ThemedText>
+            <View style={styles.scoreInfo}>
+              <ThemedText style={[styles.scoreTitle, { color: colors.text }]}>
+                Taste match with {current.users[1].name}
+              </ThemedText>
+              <ThemedText style={[styles.hint, { color: colors.textMuted }]}>
+                {current.shared === 0
+                  ? 'No movies rated in common yet; based on genres'
+                  : `${current.shared} movie${current.shared !== 1 ? 's' : ''} rated in common`}
+              </ThemedText>
+            </View>
+          </View>
+
+          {current.agreements.length > 0 && (
+            <View style={styles.group}>
+              <ThemedText style={[styles.groupLabel, { color: colors.textMuted }]}>YOU AGREE ON</ThemedText>
+              {current.agreements.map((movie) => renderShared(movie, colors.green))}
+            </View>
+          )}
+          {current.disagreements.length > 0 && (
+            <View style={styles.group}>
+              <ThemedText style={[styles.groupLabel, { color: colors.textMuted }]}>YOU DISAGREE ON</ThemedText>
+              {current.disagreements.map((movie) => renderShared(movie, colors.red))}
+            </View>
+          )}
+
+          {current.picks.length > 0 && (
+            <View style={styles.group}>
+              <ThemedText style={[styles.groupLabel, { color: colors.textMuted }]}>YOU&apos;D BOTH LIKE</ThemedText>
+              <View style={styles.picks}>
+                {current.picks.map((movie) => {
+                  const posterUri = getPosterUrl(movie.posterPath, 'w185');
+                  return (
+                    <Pressable key={movie.id} style={styles.pick} onPress={() => onOpenMovie(movie.id)}>
+                      <View style={[styles.pickPoster, { backgroundColor: colors.posterBg }]}>
+                        {posterUri ? (
+                          <Image source={{ uri: posterUri }} style={styles.pickPosterImage} />
+                        ) : (
+                          <ThemedText style={styles.pickEmoji}>🎬</ThemedText>
+                        )}
+                      </View>
+                      <ThemedText style={[styles.pickTitle, { color: colors.text }]} numberOfLines={2}>
+                        {movie.title}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    gap: 14,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+  },
+  score: {
+    fontSize: 32,
+    fontWeight: '800',
+    lineHeight: 38,
+  },
+  scoreInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  scoreTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  hint: {
+    fontSize: 12,
+  },
+  group: {
+    gap: 6,
+  },
+  groupLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 1.2,
+  },
+  sharedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sharedTitle: {
+    flex: 1,
+    fontSize: 14,
+  },
+  sharedRatings: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  picks: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  pick: {
+    flex: 1,
+    gap: 6,
+  },
+  pickPoster: {
+    width: '100%',
+    aspectRatio: 2 / 3,
+    borderRadius: 8,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pickPosterImage: {
+    width: '100%',
+    height: '100%',
+  },
+  pickEmoji: {
+    fontSize: 20,
+  },
+  pickTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    lineHeight: 16,
+  },
+});
@@ -0,0 +1,254 @@
+import { useCallback, useState } from 'react';
+import { ActivityIndicator, Image, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ErrorNotice } from '@/components/error-notice';
+import { ThemedText } from '@/components/themed-text';
+import {
+  getGroupRecommendations,
+  getPosterUrl,
+  type GroupRecommendation,
+  type GroupStrategy,
+} from '@/services/recommendations';
+import { describeError, type ErrorDisplay } from '@/services/tmdb';
+
+type Props = {
+  users: { id: string; name: string }[];
+  activeUserId: string;
+  onOpenMovie: (movieId: number) => void;
+  colors: { text: string; textMuted: string; card: string; cardBorder: string; accent: string; accentSoft: string; inputBg: string };
+};
+
+const STRATEGIES: { id: GroupStrategy; label: string }[] = [
+  { id: 'leastMisery', label: 'Nobody unhappy' },
+  { id: 'average', label: 'Best on average' },
+];
+
+/**
+ * "Watch together": pick who's watching, then get picks scored for the
+ * whole group, each showing how well it suits every member.
+ */
+export function WatchTogether({ users, activeUserId, onOpenMovie, colors }: Props) {
+  const [selected, setSelected] = useState<string[]>([activeUserId]);
+  const [strategy, setStrategy] = useState<GroupStrategy>('leastMisery');
+  const [picks, setPicks] = useState<GroupRecommendation[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ErrorDisplay | null>(null);
+
+  const toggleUser = (userId: string) => {
+    setSelected((current) =>
+      current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId]
+    );
+    setPicks(null);
+  };
+
+  const findPicks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setPicks(await getGroupRecommendations(selected, { limit: 10, strategy }));
+    } catch (loadError) {
+      setError(describeError(loadError, "Couldn't load picks for the group"));
+      setPicks(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [selected, strategy]);
+
+  const ready = selected.length >= 2;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chips}>
+        {users.map((user) => {
+          const on = selected.includes(user.id);
+          return (
+            <Pressable
+              key={user.id}
+              onPress={() => toggleUser(user.id)}
+              style={[
+                styles.chip,
+                { backgroundColor: on ? colors.accent : colors.card, borderColor: on ? colors.accent : colors.cardBorder },
+              ]}
+            >
+              <ThemedText style={[styles.chipText, { color: on ? '#FFF' : colors.text }]}>
+                {on ? '✓ ' : ''}{user.name}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={styles.chips}>
+        {STRATEGIES.map(({ id, label }) => (
+          <Pressable
+            key={id}
+            onPress={() => {
+              setStrategy(id);
+              setPicks(null);
+            }}
+            style={[
+              styles.chip,
+              {
+                backgroundColor: strategy === id ? colors.accentSoft : 'transparent',
+                borderColor: strategy === id ? colors.accent : colors.cardBorder,
+              },
+            ]}
+          >
+            <ThemedText style={[styles.chipText, { color: strategy === id ? colors.accent : colors.textMuted }]}>
+              {label}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+
+      <Pressable
+        onPress={findPicks}
+        disabled={!ready || loading}
+        style={({ pressed }) => [
+          styles.findButton,
+          { backgroundColor: ready ? colors.accent : colors.inputBg, opacity: pressed ? 0.8 : 1 },
+        ]}
+      >
+        {loading ? (
+          <ActivityIndicator size="small" color="#FFF" />
+        ) : (
+          <ThemedText style={[styles.findText, { color: ready ? '#FFF' : colors.textMuted }]}>
+            {ready ? `Find movies for ${selected.length}` : 'Pick at least two people'}
+          </ThemedText>
+        )}
+      </Pressable>
+
+      {error ? (
+        <ErrorNotice error={error} colors={colors} onRetry={findPicks} />
+      ) : picks && picks.length === 0 ? (
+        <ThemedText style={[styles.empty, { color: colors.textMuted }]}>
+          Nothing new you&apos;d all enjoy. Try the other mode or fewer people.
+        </ThemedText>
+      ) : picks ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+          {picks.map((movie) => {
+            const posterUri = getPosterUrl(movie.posterPath, 'w342');
+            return (
+              <Pressable
+                key={movie.id}
+                onPress={() => onOpenMovie(movie.id)}
+                style={({ pressed }) => [
+                  styles.card,
+                  { backgroundColor: colors.card, borderColor: colors.cardBorder, transform: [{ scale: pressed ? 0.97 : 1 }] },
+                ]}
+              >
+                {posterUri ? (
+                  <Image source={{ uri: posterUri }} style={styles.poster} />
+                ) : (
+                  <View style={[styles.poster, styles.posterPlaceholder, { backgroundColor: colors.inputBg }]}>
+                    <ThemedText style={{ fontSize: 20 }}>🎬</ThemedText>
+                  </View>
+                )}
+                <View style={styles.info}>
+                  <ThemedText style={[styles.movieTitle, { color: colors.text }]} numberOfLines={2}>
+                    {movie.title}
+                  </ThemedText>
+                  <ThemedText style={[styles.groupScore, { color: colors.accent }]}>
+                    {movie.groupScore}% for the group
+                  </ThemedText>
+                  <ThemedText style={[styles.reason, { color: colors.textMuted }]} numberOfLines={1}>
+                    {movie.reason}
+                  </ThemedText>
+                  {movie.members.map((fit) => (
+                    <View key={fit.userId} style={styles.fitRow}>
+                      <ThemedText style={[styles.fitName, { color: colors.textMuted }]} numberOfLines={1}>
+                        {fit.name}
+                      </ThemedText>
+                      <ThemedText style={[styles.fitScore, { color: colors.text }]}>{fit.matchScore}%</ThemedText>
+                    </View>
+                  ))}
+                </View>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  findButton: {
+    height: 44,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  findText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  empty: {
+    textAlign: 'center',
+    fontSize: 13,
+  },
+  row: {
+    gap: 12,
+  },
+  card: {
+    width: 150,
+    borderRadius: 14,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  poster: {
+    width: '100%',
+    aspectRatio: 2 / 3,
+  },
+  posterPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  info: {
+    padding: 8,
+    gap: 4,
+  },
+  movieTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    lineHeight: 17,
+  },
+  groupScore: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  reason: {
+    fontSize: 11,
+  },
+  fitRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 6,
+  },
+  fitName: {
+    flex: 1,
+    fontSize: 11,
+  },
+  fitScore: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+});
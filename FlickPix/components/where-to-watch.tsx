@@ -0,0 +1,138 @@
+import { Image, Linking, Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { logoUrl, type WatchProvider, type WatchProviderRegion } from '@/services/tmdb';
+
+type Props = {
+  providers: WatchProviderRegion | null;
+  region: string;
+  myServices: number[];
+  colors: { text: string; textMuted: string; accent: string; card: string; cardBorder: string };
+};
+
+/** De-duplicated by provider, keeping TMDB's display order. */
+function uniqueProviders(...groups: (WatchProvider[] | undefined)[]): WatchProvider[] {
+  const seen = new Set<number>();
+  const merged: WatchProvider[] = [];
+  for (const provider of groups.flatMap((g) => g ?? [])) {
+    if (seen.has(provider.provider_id)) continue;
+    seen.add(provider.provider_id);
+    merged.push(provider);
+  }
+  return merged.sort((a, b) => a.display_priority - b.display_priority);
+}
+
+/**
+ * "Where to watch" block for the movie detail view: stream / rent / buy rows
+ * with provider logos. The user's own services are outlined.
+ */
+export function WhereToWatch({ providers, region, myServices, colors }: Props) {
+  const rows = [
+    { label: 'Stream', items: uniqueProviders(providers?.flatrate, providers?.free, providers?.ads) },
+    { label: 'Rent', items: uniqueProviders(providers?.rent) },
+    { label: 'Buy', items: uniqueProviders(providers?.buy) },
+  ].filter((row) => row.items.length > 0);
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={[styles.label, { color: colors.textMuted }]}>WHERE TO WATCH · {region}</ThemedText>
+      {rows.length === 0 ? (
+        <ThemedText style={[styles.empty, { color: colors.textMuted }]}>
+          Not available to stream, rent or buy in {region} right now.
+        </ThemedText>
+      ) : (
+        rows.map((row) => (
+          <View key={row.label} style={styles.row}>
+            <ThemedText style={[styles.rowLabel, { color: colors.textMuted }]}>{row.label}</ThemedText>
+            <View style={styles.logos}>
+              {row.items.map((provider) => {
+                const uri = logoUrl(provider.logo_path, 'w92');
+                const mine = myServices.includes(provider.provider_id);
+                return (
+                  <View
+                    key={provider.provider_id}
+                    style={[
+                      styles.logo,
+                      { backgroundColor: colors.card, borderColor: mine ? colors.accent : colors.cardBorder },
+                      mine && styles.logoMine,
+                    ]}
+                    accessibilityLabel={provider.provider_name}
+                  >
+                    {uri ? (
+                      <Image source={{ uri }} style={styles.logoImage} />
+                    ) : (
+                      <ThemedText style={[styles.logoFallback, { color: colors.text }]} numberOfLines={2}>
+                        {provider.provider_name}
+                      </ThemedText>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        ))
+      )}
+      {providers?.link ? (
+        <Pressable onPress={() => Linking.openURL(providers.link)}>
+          <ThemedText style={[styles.attribution, { color: colors.textMuted }]}>
+            Availability data from JustWatch ›
+          </ThemedText>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+    gap: 10,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+  empty: {
+    fontSize: 13,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowLabel: {
+    width: 52,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  logos: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  logo: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    borderWidth: 1,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  logoMine: {
+    borderWidth: 2,
+  },
+  logoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  logoFallback: {
+    fontSize: 8,
+    textAlign: 'center',
+  },
+  attribution: {
+    fontSize: 11,
+  },
+});
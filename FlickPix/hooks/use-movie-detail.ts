@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  getMovieFull,
+  describeError,
+  isAbortError,
+  type Credits,
+  type ErrorDisplay,
+  type MovieFull,
+  type MovieVideo,
+  type WatchProviderRegion,
+} from '@/services/tmdb';
+import {
+  addToWatchHistory,
+  addToWatchlist,
+  removeFromWatchlist,
+  isInWatchlist,
+  getRatings,
+  getWatchSettings,
+  DEFAULT_WATCH_REGION,
+  type WatchSettings,
+} from '@/services/storage';
+
+/** Sections the detail view renders; fetched with the details in one request. */
+const DETAIL_APPENDS = ['credits', 'videos', 'watch/providers'] as const;
+
+export type MovieDetail = MovieFull<(typeof DETAIL_APPENDS)[number]>;
+
+export type MovieDetailState = {
+  movie: MovieDetail | null;
+  credits: Credits | null;
+  trailerKey: string | null;
+  watchProviders: WatchProviderRegion | null;
+  watchSettings: WatchSettings;
+  loading: boolean;
+  error: ErrorDisplay | null;
+  inWatchlist: boolean;
+  /** The user's rating, or null when they haven't watched it. */
+  rating: number | null;
+  reload: () => void;
+  toggleWatchlist: () => Promise<void>;
+  markWatched: (rating: number) => Promise<void>;
+};
+
+/**
+ * The movie ID in a /movie/[id] link. Anything but plain digits (e.g.
+ * "0x22" or "1e3", which Number() would accept) is NaN, so the detail view
+ * shows "Not found" instead of some other movie.
+ */
+export function movieIdFromParam(id: string | undefined): number {
+  return id && /^\d+$/.test(id) ? Number(id) : NaN;
+}
+
+/** YouTube trailer if there is one, otherwise a teaser. */
+export function pickTrailer(videos: MovieVideo[]): MovieVideo | null {
+  const youtube = videos.filter((v) => v.site === 'YouTube');
+  return youtube.find((v) => v.type === 'Trailer') ?? youtube.find((v) => v.type === 'Teaser') ?? null;
+}
+
+/**
+ * Everything a movie detail view needs: details, credits, trailer, where to
+ * watch, and the user's watchlist/watched state with actions to change it.
+ * In-flight requests are cancelled when `movieId` changes or the caller unmounts.
+ */
+export function useMovieDetail(movieId: number | null): MovieDetailState {
+  const [movie, setMovie] = useState<MovieDetail | null>(null);
+  const [watchSettings, setWatchSettings] = useState<WatchSettings>({ region: DEFAULT_WATCH_REGION, services: [] });
+  const [loading, setLoading] = useState(movieId !== null);
+  const [error, setError] = useState<ErrorDisplay | null>(null);
+  const [inWatchlist, setInWatchlist] = useState(false);
+  const [rating, setRating] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const load = useCallback((signal: AbortSignal) => {
+    setMovie(null);
+    setError(null);
+    if (movieId === null) {
+      setLoading(false);
+      return;
+    }
+    if (!Number.isInteger(movieId) || movieId <= 0) {
+      // Hand-typed or truncated links land here
+      setError({ title: 'Not found', message: "That link doesn't point to a movie.", canRetry: false });
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    Promise.all([
+      getMovieFull(movieId, { append: DETAIL_APPENDS, signal }),
+      isInWatchlist(movieId),
+      getRatings(),
+      getWatchSettings(),
+    ])
+      .then(([details, inList, ratings, settings]) => {
+        if (signal.aborted) return;
+        setMovie(details);
+        setWatchSettings(settings);
+        setInWatchlist(inList);
+        setRating(ratings[movieId] ?? null);
+      })
+      .catch((e) => {
+        if (signal.aborted || isAbortError(e)) return;
+        setError(describeError(e, "Couldn't load this movie"));
+      })
+      .finally(() => {
+        if (!signal.aborted) setLoading(false);
+      });
+  }, [movieId]);
+
+  // One load at a time: a reload cancels the one before it, and a new
+  // movieId or unmounting cancels whichever is running
+  const start = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    load(controller.signal);
+  }, [load]);
+
+  useEffect(() => {
+    start();
+    return () => controllerRef.current?.abort();
+  }, [start]);
+
+  const toggleWatchlist = useCallback(async () => {
+    if (!movie) return;
+    if (inWatchlist) {
+      setInWatchlist(false);
+      await removeFromWatchlist(movie.id);
+    } else {
+      setInWatchlist(true);
+      await addToWatchlist({ movieId: movie.id, title: movie.title, posterPath: movie.poster_path });
+    }
+  }, [movie, inWatchlist]);
+
+  const markWatched = useCallback(async (value: number) => {
+    if (!movie) return;
+    setRating(value);
+    await addToWatchHistory({
+      movieId: movie.id,
+      title: movie.title,
+      rating: value,
+      watchedAt: new Date().toISOString().slice(0, 10),
+      genres: movie.genres.map((g) => g.id),
+      posterPath: movie.poster_path,
+      collectionId: movie.belongs_to_collection?.id ?? null,
+    });
+  }, [movie]);
+
+  return {
+    movie,
+    credits: movie?.credits ?? null,
+    trailerKey: movie ? pickTrailer(movie.videos.results)?.key ?? null : null,
+    watchProviders: movie?.['watch/providers']?.results[watchSettings.region] ?? null,
+    watchSettings,
+    loading,
+    error,
+    inWatchlist,
+    rating,
+    reload: start,
+    toggleWatchlist,
+    markWatched,
+  };
+}
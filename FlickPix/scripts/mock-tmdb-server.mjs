@@ -0,0 +1,292 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the TMDB (and OpenAI chat) API.
+ *
+ * Replays responses saved in scripts/fixtures so the services can run
+ * offline and without keys. In record mode every request is forwarded to
+ * the real API and the response is written to a fixture file.
+ *
+ * Usage:
+ *   npm run mock:tmdb                    # replay on http://localhost:8787
+ *   npm run mock:tmdb -- --port 9000
+ *   npm run mock:tmdb:record             # proxy + capture (needs keys in .env)
+ *
+ * Or in-process from another script:
+ *   const { startMockServer } = await import("./mock-tmdb-server.mjs");
+ *   const mock = await startMockServer({ port: 0 });  // mock.tmdbBaseUrl, mock.close()
+ *
+ * Point the services at it:
+ *   TMDB_BASE_URL=http://localhost:8787/3 OPENAI_BASE_URL=http://localhost:8787 npm run test:recs
+ *   (in the app: EXPO_PUBLIC_TMDB_BASE_URL / EXPO_PUBLIC_OPENAI_BASE_URL)
+ *
+ * Replay matching, in order:
+ *   1. exact path + query (api_key, language and region ignored, param order ignored)
+ *   2. append_to_response: the movie's own fixture plus one per appended section,
+ *      as TMDB would combine them
+ *   3. otherwise a TMDB-style 404 naming the missing fixture; every miss is
+ *      logged and kept in mock.misses, so callers can fail loudly
+ *
+ * Fixtures marked "handWritten" were written by hand, not recorded: their
+ * bodies only carry what the app reads, and the person and keyword IDs in
+ * them are consistent with each other but not checked against TMDB. Record
+ * over them with --record when you have a key.
+ */
+
+import { createServer } from "http";
+import { createHash } from "crypto";
+import { readFileSync, readdirSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { resolve, dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, "..");
+const FIXTURE_DIR = resolve(__dirname, "fixtures");
+const TMDB_DIR = join(FIXTURE_DIR, "tmdb");
+const OPENAI_DIR = join(FIXTURE_DIR, "openai");
+
+const TMDB_UPSTREAM = "https://api.themoviedb.org";
+const OPENAI_UPSTREAM = "https://api.openai.com";
+const TMDB_PREFIX = "/3";
+
+/**
+ * The client sends the user's locale with every request; fixtures are
+ * recorded in one locale and replayed for any.
+ */
+const IGNORED_PARAMS = new Set(["api_key", "language", "region"]);
+const OPENAI_PATH = "/v1/chat/completions";
+
+// ── Env ────────────────────────────────────────────────────────────────────
+
+function readEnv(name) {
+  if (process.env[name]) return process.env[name];
+  try {
+    const envContent = readFileSync(resolve(root, ".env"), "utf-8");
+    const match = envContent.match(new RegExp(`^${name}=(.+)$`, "m"));
+    return match ? match[1].trim() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const TMDB_API_KEY = readEnv("TMDB_API_KEY") || readEnv("EXPO_PUBLIC_TMDB_API_KEY");
+const OPENAI_API_KEY = readEnv("EXPO_PUBLIC_OPENAI_API_KEY");
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+/** Like the client's response cache key (sorted params), minus IGNORED_PARAMS. */
+function requestKey(path, params) {
+  const query = Object.entries(params)
+    .filter(([key]) => !IGNORED_PARAMS.has(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join("&");
+  return query ? `${path}?${query}` : path;
+}
+
+function fixtureFileName(key) {
+  const slug = key
+    .replace(/^\//, "")
+    .replace(/[^a-zA-Z0-9._=-]+/g, "_")
+    .slice(0, 80);
+  const hash = createHash("sha1").update(key).digest("hex").slice(0, 8);
+  return `${slug}.${hash}.json`;
+}
+
+function loadFixtures(dir) {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => JSON.parse(readFileSync(join(dir, file), "utf-8")));
+}
+
+const tmdbFixtures = new Map();
+for (const fixture of loadFixtures(TMDB_DIR)) {
+  tmdbFixtures.set(requestKey(fixture.path, fixture.params ?? {}), fixture);
+}
+
+const openaiFixtures = new Map();
+for (const fixture of loadFixtures(OPENAI_DIR)) {
+  openaiFixtures.set(normalisePrompt(fixture.prompt), fixture);
+}
+
+function normalisePrompt(text) {
+  return String(text ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function saveFixture(dir, key, fixture) {
+  mkdirSync(dir, { recursive: true });
+  const file = join(dir, fixtureFileName(key));
+  writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * Exact match, else for append_to_response the base fixture with each
+ * appended section's fixture merged in. Null when anything is missing.
+ */
+function findTmdbFixture(path, params) {
+  const exact = tmdbFixtures.get(requestKey(path, params));
+  if (exact) return exact;
+
+  const { append_to_response: append, ...rest } = params;
+  if (!append) return null;
+  const base = tmdbFixtures.get(requestKey(path, rest));
+  const sections = append.split(",").map((section) => [section, tmdbFixtures.get(requestKey(`${path}/${section}`, rest))]);
+  if (!base || sections.some(([, fixture]) => !fixture)) return null;
+  const body = { ...base.body };
+  for (const [section, fixture] of sections) body[section] = fixture.body;
+  return { path, params, status: base.status, body };
+}
+
+// ── Handlers ───────────────────────────────────────────────────────────────
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  });
+  res.end(typeof body === "string" ? body : JSON.stringify(body));
+}
+
+async function handleTmdb(req, res, url, { record, log, misses }) {
+  const path = url.pathname.slice(TMDB_PREFIX.length) || "/";
+  const params = Object.fromEntries(url.searchParams.entries());
+  delete params.api_key;
+  const key = requestKey(path, params);
+
+  if (record) {
+    const upstream = new URL(`${TMDB_UPSTREAM}${TMDB_PREFIX}${path}`);
+    for (const [name, value] of Object.entries(params)) upstream.searchParams.set(name, value);
+    upstream.searchParams.set("api_key", TMDB_API_KEY);
+
+    const upstreamRes = await fetch(upstream);
+    const text = await upstreamRes.text();
+    if (upstreamRes.ok) {
+      const fixture = { path, params, status: upstreamRes.status, body: JSON.parse(text) };
+      tmdbFixtures.set(key, fixture);
+      const file = saveFixture(TMDB_DIR, key, fixture);
+      log(`● recorded ${key} → ${file.slice(root.length + 1)}`);
+    } else {
+      log(`✗ ${upstreamRes.status} ${key} (not recorded)`);
+    }
+    return send(res, upstreamRes.status, text);
+  }
+
+  const fixture = findTmdbFixture(path, params);
+  if (!fixture) {
+    misses.push(key);
+    log(`✗ no fixture for ${key}`);
+    return send(res, 404, {
+      success: false,
+      status_code: 34,
+      status_message: `No recorded response for ${key}. Record one with --record.`,
+    });
+  }
+
+  log(`✓ ${key}${fixture.handWritten ? " (hand-written)" : ""}`);
+  return send(res, fixture.status ?? 200, fixture.body);
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+async function handleOpenAI(req, res, { record, log }) {
+  const raw = await readBody(req);
+  const request = raw ? JSON.parse(raw) : {};
+  const prompt = request.messages?.findLast?.((m) => m.role === "user")?.content ?? "";
+
+  if (record) {
+    if (!OPENAI_API_KEY) {
+      return send(res, 401, { error: { message: "EXPO_PUBLIC_OPENAI_API_KEY is not set for recording", code: "invalid_api_key" } });
+    }
+    const upstreamRes = await fetch(`${OPENAI_UPSTREAM}${OPENAI_PATH}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${OPENAI_API_KEY}` },
+      body: raw,
+    });
+    const text = await upstreamRes.text();
+    if (upstreamRes.ok) {
+      const fixture = { prompt, status: upstreamRes.status, body: JSON.parse(text) };
+      openaiFixtures.set(normalisePrompt(prompt), fixture);
+      const file = saveFixture(OPENAI_DIR, normalisePrompt(prompt), fixture);
+      log(`● recorded mood "${prompt}" → ${file.slice(root.length + 1)}`);
+    }
+    return send(res, upstreamRes.status, text);
+  }
+
+  const fixture = openaiFixtures.get(normalisePrompt(prompt));
+  if (!fixture) {
+    log(`✗ 404 mood "${prompt}"`);
+    return send(res, 404, {
+      error: { message: `No recorded completion for "${prompt}". Record one with --record.`, code: "fixture_not_found" },
+    });
+  }
+  log(`✓ mood "${prompt}"`);
+  return send(res, fixture.status ?? 200, fixture.body);
+}
+
+// ── Server ─────────────────────────────────────────────────────────────────
+
+/**
+ * Start the server. Resolves once it is listening; port 0 picks a free one.
+ * `quiet` hides the request log; misses still land in mock.misses.
+ */
+export function startMockServer({ port = 8787, record = false, quiet = false } = {}) {
+  if (record && !TMDB_API_KEY) {
+    throw new Error("Record mode needs TMDB_API_KEY in .env (or the environment).");
+  }
+  const misses = [];
+  const options = { record, misses, log: quiet ? () => {} : (line) => console.log(line) };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (req.method === "OPTIONS") return send(res, 204, "");
+      if (req.method === "GET" && url.pathname.startsWith(`${TMDB_PREFIX}/`)) return await handleTmdb(req, res, url, options);
+      if (req.method === "POST" && url.pathname === OPENAI_PATH) return await handleOpenAI(req, res, options);
+      return send(res, 404, { success: false, status_code: 34, status_message: `Unknown route ${url.pathname}` });
+    } catch (err) {
+      console.error("❌ ", err);
+      return send(res, 502, { success: false, status_code: 11, status_message: String(err?.message ?? err) });
+    }
+  });
+
+  return new Promise((resolvePromise, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => {
+      const origin = `http://localhost:${server.address().port}`;
+      resolvePromise({
+        origin,
+        tmdbBaseUrl: `${origin}${TMDB_PREFIX}`,
+        openaiBaseUrl: origin,
+        misses,   // Request keys that had no fixture, in order
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// ── CLI ────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const args = process.argv.slice(2);
+  const record = args.includes("--record");
+  const portArg = args.indexOf("--port");
+  const port = portArg >= 0 ? Number(args[portArg + 1]) : Number(process.env.MOCK_TMDB_PORT || 8787);
+
+  try {
+    const mock = await startMockServer({ port, record });
+    console.log(`🎬  Mock TMDB ${record ? "recording" : "replaying"} on ${mock.origin}`);
+    console.log(`   ${tmdbFixtures.size} TMDB fixtures, ${openaiFixtures.size} mood fixtures`);
+    console.log(`   TMDB_BASE_URL=${mock.tmdbBaseUrl}  OPENAI_BASE_URL=${mock.openaiBaseUrl}\n`);
+  } catch (err) {
+    console.error(`❌  ${err.message}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,1409 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the recommendation engine. Runs fully offline: every data
+ * source is an in-memory stub and randomness is seeded.
+ *
+ * Usage:
+ *   npm test
+ *   or: npx tsx scripts/test-engine.mjs
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+const {
+  getRecommendations,
+  getRecommendationPage,
+  getGroupRecommendations,
+  getRecommendationRails,
+  getRailPage,
+} = await import("../services/recommendations.ts");
+const { createSeededRandom } = await import("../services/random.ts");
+const { summarizeCollection, getUnfinishedFranchises } = await import("../services/collections.ts");
+const { diversify, traitSimilarity } = await import("../services/diversity.ts");
+const { computeMatch } = await import("../services/matchScore.ts");
+const { watchWeights, getTasteDrift } = await import("../services/tasteProfile.ts");
+const { compareTastes, comparisonPartner, getTasteCompatibility } = await import("../services/compatibility.ts");
+const { watchSettingsFrom } = await import("../services/storage.ts");
+const { buildItemModel, fingerprintRatings, predictScores, parseRatingsCsv } = await import("../services/collaborative.ts");
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+const GENRES = [
+  { id: 28, name: "Action" },
+  { id: 35, name: "Comedy" },
+  { id: 18, name: "Drama" },
+  { id: 27, name: "Horror" },
+  { id: 878, name: "Science Fiction" },
+  { id: 10749, name: "Romance" },
+  { id: 53, name: "Thriller" },
+];
+
+function movie(id, genreIds, overrides = {}) {
+  return {
+    id,
+    title: `Movie ${id}`,
+    overview: "",
+    genre_ids: genreIds,
+    release_date: "2020-01-01",
+    vote_average: 7,
+    vote_count: 1000,
+    popularity: 10,
+    poster_path: null,
+    backdrop_path: null,
+    original_language: "en",
+    adult: false,
+    ...overrides,
+  };
+}
+
+function watched(movieId, rating, genres) {
+  return { movieId, title: `Movie ${movieId}`, rating, watchedAt: "2024-01-01", genres };
+}
+
+function hiddenMovie(movieId, genres, reason = null) {
+  return { movieId, title: `Movie ${movieId}`, posterPath: null, genres, reason, hiddenAt: "2024-02-01" };
+}
+
+/** TMDB keywords/credits: keywords as [id, name], people as [id, name]. */
+function content({ keywords = [], directors = [], cast = [] } = {}) {
+  return {
+    keywords: keywords.map(([id, name]) => ({ id, name })),
+    credits: {
+      cast: cast.map(([id, name], order) => ({ id, name, character: "", profile_path: null, order })),
+      crew: directors.map(([id, name]) => ({ id, name, job: "Director", department: "Directing", profile_path: null })),
+    },
+  };
+}
+
+/**
+ * In-memory sources. Records every discover call so tests can assert on
+ * the genres the engine asked for.
+ */
+function stubSources({
+  history = [],
+  hidden = [],
+  favoriteGenres = [],
+  catalog = [],
+  popular = [],
+  pages = 1,
+  watchSettings = { region: "US", services: [] },
+  content = {},
+  trending = [],
+  topRated = [],
+  tmdbRecommendations = {},
+  similar = {},
+  raterRatings = [],
+  details = {},
+} = {}) {
+  const discoverCalls = [];
+  let popularCalls = 0;
+  return {
+    discoverCalls,
+    get popularCalls() {
+      return popularCalls;
+    },
+    sources: {
+      getPreferences: async () => ({ favoriteGenres }),
+      getWatchedMovieIds: async () => history.map((m) => m.movieId),
+      getWatchHistory: async () => history,
+      getHiddenMovies: async () => hidden,
+      getWatchSettings: async () => watchSettings,
+      discoverMovies: async (options) => {
+        discoverCalls.push(options);
+        return { results: catalog, total_pages: pages };
+      },
+      getPopularMovies: async () => {
+        popularCalls++;
+        return { results: popular };
+      },
+      getTrendingMovies: async () => ({ results: trending }),
+      getTopRatedMovies: async () => ({ results: topRated }),
+      getMovieRecommendations: async (id) => ({ results: tmdbRecommendations[id] ?? [] }),
+      getSimilarMovies: async (id) => ({ results: similar[id] ?? [] }),
+      getGenres: async () => GENRES,
+      getMovieContent: async (id) => content[id] ?? { keywords: [], credits: { cast: [], crew: [] } },
+      getDeviceRatings: async () => raterRatings,
+      getMovieDetails: async (id) => {
+        if (!details[id]) throw new Error(`No details for ${id}`);
+        return details[id];
+      },
+    },
+  };
+}
+
+function requestedGenres(stub) {
+  return stub.discoverCalls[0].with_genres.split(",").map(Number);
+}
+
+// ── Genre derivation ───────────────────────────────────────────────────────
+
+test("derives genres only from movies rated 8 or higher", async () => {
+  const stub = stubSources({
+    history: [
+      watched(1, 9, [27]),
+      watched(2, 8, [27, 53]),
+      watched(3, 7, [35]),
+      watched(4, 3, [10749]),
+    ],
+    catalog: [movie(100, [27])],
+  });
+
+  await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.deepEqual(requestedGenres(stub), [27, 53]);
+});
+
+test("keeps only the three most frequent genres, most frequent first", async () => {
+  const stub = stubSources({
+    history: [
+      watched(1, 10, [18, 35, 28, 53]),
+      watched(2, 9, [18, 35, 28]),
+      watched(3, 8, [18, 35]),
+      watched(4, 8, [18]),
+    ],
+    catalog: [movie(100, [18])],
+  });
+
+  await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.deepEqual(requestedGenres(stub), [18, 35, 28]);
+});
+
+// ── Taste over time ────────────────────────────────────────────────────────
+
+function watchedOn(movieId, rating, genres, watchedAt) {
+  return { ...watched(movieId, rating, genres), watchedAt };
+}
+
+test("watch weights halve every half-life before the latest entry", () => {
+  const history = [watchedOn(1, 9, [], "2024-07-01"), watchedOn(2, 9, [], "2024-01-03"), watchedOn(3, 9, [], "2023-07-05")];
+
+  const weights = watchWeights(history, 180);
+
+  assert.equal(weights.get(1), 1);
+  assert.ok(Math.abs(weights.get(2) - 0.5) < 0.01);
+  assert.ok(Math.abs(weights.get(3) - 0.25) < 0.01);
+  assert.equal(watchWeights(history, 0).get(3), 1);
+});
+
+test("recent loves outweigh older ones when picking genres", async () => {
+  const history = [
+    watchedOn(1, 10, [28], "2022-01-01"),
+    watchedOn(2, 10, [28], "2022-02-01"),
+    watchedOn(3, 9, [35], "2024-06-01"),
+  ];
+  const run = async (tasteHalfLifeDays) => {
+    const stub = stubSources({ history, catalog: [movie(100, [35])] });
+    await getRecommendations({ sources: stub.sources, seed: 1, tasteHalfLifeDays });
+    return requestedGenres(stub);
+  };
+
+  assert.deepEqual(await run(180), [35, 28]);
+  assert.deepEqual(await run(0), [28, 35]);
+});
+
+test("taste drift lists top genres per quarter, oldest first", () => {
+  const history = [
+    watchedOn(1, 10, [28, 878], "2024-01-10"),
+    watchedOn(2, 8, [28], "2024-02-10"),
+    watchedOn(3, 4, [27], "2024-03-10"),   // Disliked: no taste weight
+    watchedOn(4, 9, [10749], "2024-08-01"),
+    watchedOn(5, 9, [35], "2023-05-01"),
+  ];
+
+  const drift = getTasteDrift(history, { quarters: 2 });
+
+  assert.deepEqual(drift.map((q) => q.label), ["2024 Q1", "2024 Q3"]);
+  assert.equal(drift[0].watched, 3);
+  assert.deepEqual(drift[0].genres, [{ id: 28, share: 8 / 13 }, { id: 878, share: 5 / 13 }]);
+  assert.deepEqual(drift[1].genres, [{ id: 10749, share: 1 }]);
+});
+
+// ── Explicit preferences ───────────────────────────────────────────────────
+
+test("explicit favorite genres get a +5 boost over rating-derived counts", async () => {
+  // Drama appears in four 8+ movies (count 4); Horror is a stated favorite (count 5)
+  const stub = stubSources({
+    history: [
+      watched(1, 9, [18]),
+      watched(2, 9, [18]),
+      watched(3, 8, [18]),
+      watched(4, 8, [18, 35]),
+    ],
+    favoriteGenres: [27],
+    catalog: [movie(100, [27])],
+  });
+
+  await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.deepEqual(requestedGenres(stub), [27, 18, 35]);
+});
+
+test("the boost adds to an existing count rather than replacing it", async () => {
+  // Horror: 5 (pref) + 1 (rated) = 6 beats Drama's plain 5 ratings
+  const stub = stubSources({
+    history: [
+      watched(1, 9, [18]),
+      watched(2, 9, [18]),
+      watched(3, 9, [18]),
+      watched(4, 9, [18]),
+      watched(5, 9, [18, 27]),
+    ],
+    favoriteGenres: [27],
+    catalog: [movie(100, [27])],
+  });
+
+  await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.deepEqual(requestedGenres(stub), [27, 18]);
+});
+
+test("preferences alone are enough to avoid the popular fallback", async () => {
+  const stub = stubSources({ favoriteGenres: [878], catalog: [movie(100, [878])] });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(stub.popularCalls, 0);
+  assert.deepEqual(requestedGenres(stub), [878]);
+  assert.equal(recs.length, 1);
+});
+
+// ── Watched filtering ──────────────────────────────────────────────────────
+
+test("never recommends a movie that is already in the watch history", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28]), watched(2, 5, [28])],
+    catalog: [movie(1, [28]), movie(2, [28]), movie(3, [28]), movie(4, [28])],
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 7 });
+
+  assert.deepEqual(recs.map((r) => r.id).sort(), [3, 4]);
+});
+
+test("drops duplicate candidates", async () => {
+  const stub = stubSources({
+    favoriteGenres: [28],
+    catalog: [movie(5, [28]), movie(5, [28]), movie(6, [28])],
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 3 });
+
+  assert.deepEqual(recs.map((r) => r.id).sort(), [5, 6]);
+});
+
+// ── Content profile ────────────────────────────────────────────────────────
+
+test("candidates sharing keywords and people with loved movies rank first", async () => {
+  const nolan = [525, "Christopher Nolan"];
+  const stub = stubSources({
+    history: [watched(1, 10, [878])],
+    catalog: Array.from({ length: 12 }, (_, i) => movie(100 + i, [878], { vote_average: 8 })).concat(
+      movie(200, [878], { vote_average: 7 })
+    ),
+    content: {
+      1: content({ keywords: [[1, "dream"], [2, "heist"]], directors: [nolan] }),
+      200: content({ keywords: [[1, "dream"]], directors: [nolan] }),
+    },
+  });
+
+  // random() near 1 leaves the shuffle as a no-op, exposing the ranking
+  const [top] = await getRecommendations({ sources: stub.sources, random: () => 0.999, limit: 1 });
+
+  assert.equal(top.id, 200);
+});
+
+test("names the top contributing people and keywords in the reason", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [878])],
+    catalog: [movie(200, [878])],
+    content: {
+      1: content({ keywords: [[1, "dream"], [2, "heist"]], directors: [[525, "Christopher Nolan"]] }),
+      200: content({ keywords: [[1, "dream"], [2, "heist"], [3, "space"]], directors: [[525, "Christopher Nolan"]] }),
+    },
+  });
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(rec.reason, "Directed by Christopher Nolan, about dream and heist");
+});
+
+test("only lead cast counts toward the content profile", async () => {
+  const cast = Array.from({ length: 8 }, (_, i) => [300 + i, `Actor ${i}`]);
+  const stub = stubSources({
+    history: [watched(1, 9, [18])],
+    catalog: [movie(200, [18])],
+    content: {
+      1: content({ cast }),
+      200: content({ cast: [cast[7]] }),
+    },
+  });
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(rec.reason, "Matches your favorite genres: Drama");
+});
+
+test("a movie whose content fails to load is scored on genres alone", async () => {
+  const stub = stubSources({ history: [watched(1, 9, [28])], catalog: [movie(200, [28])] });
+  stub.sources.getMovieContent = async () => {
+    throw new Error("offline");
+  };
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(rec.reason, "Matches your favorite genres: Action");
+});
+
+// ── Dislikes ───────────────────────────────────────────────────────────────
+
+test("genres the user keeps rating low are excluded from discover", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28]), watched(2, 2, [27]), watched(3, 3, [27]), watched(4, 2, [27])],
+    catalog: [movie(100, [28])],
+  });
+
+  await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(stub.discoverCalls[0].without_genres, "27");
+});
+
+test("dislikePenalty 0 ignores low ratings", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28]), watched(2, 2, [27]), watched(3, 3, [27]), watched(4, 2, [27])],
+    catalog: [movie(100, [28, 27])],
+  });
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1, dislikePenalty: 0, debug: true });
+
+  assert.equal(stub.discoverCalls[0].without_genres, undefined);
+  assert.equal(rec.breakdown.dislike, 0);
+});
+
+test("a disliked genre is penalized and shows up in the breakdown", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28]), watched(2, 3, [27])],
+    catalog: [movie(100, [28, 27], { vote_average: 8 }), movie(101, [28], { vote_average: 7.5 })],
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, random: () => 0.999, debug: true });
+
+  assert.deepEqual(recs.map((r) => r.id), [101, 100]);
+  assert.equal(recs[1].breakdown.dislike, -0.75);
+  assert.deepEqual(recs[1].breakdown.dislikedMatches, ["Horror"]);
+  assert.ok(Math.abs(recs[1].breakdown.total - (8 + 0.5 + recs[1].breakdown.popularity - 0.75)) < 1e-9);
+});
+
+test("low ratings count relative to the user's own average", async () => {
+  const run = async (history) => {
+    const stub = stubSources({ history, catalog: [movie(100, [28, 27])] });
+    const [rec] = await getRecommendations({ sources: stub.sources, seed: 1, debug: true });
+    return rec.breakdown.dislike;
+  };
+
+  // A 5 from someone who averages 6 is normal; from someone who averages 8+ it's a pan
+  assert.equal(await run([watched(1, 9, [28]), watched(2, 5, [27]), watched(3, 5, [18]), watched(4, 5, [18])]), 0);
+  assert.ok((await run([watched(1, 9, [28]), watched(5, 9, [28]), watched(6, 10, [28]), watched(2, 5, [27])])) < 0);
+});
+
+test("people and keywords from disliked movies are penalized", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28]), watched(2, 2, [35])],
+    catalog: [movie(200, [28])],
+    content: {
+      2: content({ keywords: [[9, "found footage"]], directors: [[77, "Some Director"]] }),
+      200: content({ directors: [[77, "Some Director"]] }),
+    },
+  });
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1, debug: true });
+
+  assert.ok(rec.breakdown.dislike < 0);
+  assert.deepEqual(rec.breakdown.dislikedMatches, ["Some Director"]);
+});
+
+test("the popular fallback skips excluded genres", async () => {
+  const stub = stubSources({
+    history: [watched(1, 7, [18]), watched(2, 2, [27]), watched(3, 2, [27]), watched(4, 3, [27])],
+    popular: [movie(10, [27]), movie(11, [35])],
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.deepEqual(recs.map((r) => r.id), [11]);
+});
+
+// ── Not interested ─────────────────────────────────────────────────────────
+
+test("hidden movies never come back, in recommendations or rails", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28])],
+    hidden: [hiddenMovie(100, [28], "seenElsewhere")],
+    catalog: [movie(100, [28]), movie(101, [28])],
+    tmdbRecommendations: { 1: [movie(100, [28]), movie(102, [28])] },
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 1 });
+  const page = await getRailPage({ id: "watched:1", title: "Because you watched Movie 1" }, 1, { sources: stub.sources });
+
+  assert.ok(!recs.some((r) => r.id === 100));
+  assert.deepEqual(page.items.map((r) => r.id), [102]);
+});
+
+test("'not my genre' counts against the genre; 'seen elsewhere' doesn't", async () => {
+  const run = async (reason) => {
+    const stub = stubSources({
+      history: [watched(1, 9, [28])],
+      hidden: [hiddenMovie(50, [27], reason)],
+      catalog: [movie(100, [28, 27])],
+    });
+    const [rec] = await getRecommendations({ sources: stub.sources, seed: 1, debug: true });
+    return rec.breakdown;
+  };
+
+  assert.equal((await run("seenElsewhere")).dislike, 0);
+  assert.equal((await run("notMyGenre")).dislike, -0.5);
+  assert.deepEqual((await run("notMyGenre")).dislikedMatches, ["Horror"]);
+  assert.equal((await run(null)).dislike, -0.25);
+});
+
+test("'don't like this actor' penalizes the cast, not the keywords", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28])],
+    hidden: [hiddenMovie(50, [35], "dislikeActor")],
+    catalog: [movie(200, [28]), movie(201, [28])],
+    content: {
+      50: content({ keywords: [[9, "heist"]], cast: [[300, "Some Actor"]] }),
+      200: content({ keywords: [[9, "heist"]] }),
+      201: content({ cast: [[300, "Some Actor"]] }),
+    },
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, random: () => 0.999, debug: true });
+
+  assert.deepEqual(recs.map((r) => r.id), [200, 201]);
+  assert.equal(recs[0].breakdown.dislike, 0);
+  assert.deepEqual(recs[1].breakdown.dislikedMatches, ["Some Actor"]);
+});
+
+// ── Candidate sources ──────────────────────────────────────────────────────
+
+test("blends discover, TMDB recommendations, similar, trending and top rated", async () => {
+  const stub = stubSources({
+    history: [watched(1, 10, [28])],
+    catalog: [movie(300, [28])],
+    tmdbRecommendations: { 1: [movie(301, [28])] },
+    similar: { 1: [movie(302, [28])] },
+    trending: [movie(303, [35])],
+    topRated: [movie(304, [18])],
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.deepEqual(recs.map((r) => r.id).sort(), [300, 301, 302, 303, 304]);
+  const kinds = Object.fromEntries(recs.map((r) => [r.id, r.source.kind]));
+  assert.deepEqual(kinds, { 300: "discover", 301: "recommendations", 302: "similar", 303: "trending", 304: "topRated" });
+});
+
+test("says which loved movie a seeded pick came from", async () => {
+  const stub = stubSources({
+    history: [{ ...watched(1, 10, [28]), title: "The Matrix" }],
+    trending: [movie(300, [28])],
+    tmdbRecommendations: { 1: [movie(300, [28])] },
+  });
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(rec.reason, "Because you loved The Matrix");
+  assert.deepEqual(rec.source, { kind: "recommendations", seedId: 1, seedTitle: "The Matrix" });
+});
+
+test("seeds lookups with the three highest-rated titles", async () => {
+  const seeded = [];
+  const stub = stubSources({
+    history: [watched(1, 8, [28]), watched(2, 10, [28]), watched(3, 9, [28]), watched(4, 9, [28]), watched(5, 8, [28])],
+  });
+  stub.sources.getMovieRecommendations = async (id) => {
+    seeded.push(id);
+    return { results: [] };
+  };
+
+  await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.deepEqual(seeded.sort(), [2, 3, 4]);
+});
+
+test("every source is held to the quality bar and the watch history", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28])],
+    trending: [movie(1, [28]), movie(400, [28], { vote_count: 5 }), movie(401, [28], { vote_average: 3 }), movie(402, [28])],
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.deepEqual(recs.map((r) => r.id), [402]);
+});
+
+test("onMyServices only uses discover", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28])],
+    trending: [movie(400, [28])],
+    tmdbRecommendations: { 1: [movie(401, [28])] },
+    catalog: [movie(402, [28])],
+    watchSettings: { region: "US", services: [8] },
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 1, onMyServices: true });
+
+  assert.deepEqual(recs.map((r) => r.id), [402]);
+});
+
+test("a failing source is skipped, but all of them failing is an error", async () => {
+  const stub = stubSources({ history: [watched(1, 9, [28])], trending: [movie(400, [28])] });
+  const offline = async () => {
+    throw new Error("offline");
+  };
+  stub.sources.discoverMovies = offline;
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 1 });
+  assert.deepEqual(recs.map((r) => r.id), [400]);
+
+  Object.assign(stub.sources, {
+    getTrendingMovies: offline,
+    getTopRatedMovies: offline,
+    getMovieRecommendations: offline,
+    getSimilarMovies: offline,
+  });
+  await assert.rejects(getRecommendations({ sources: stub.sources, seed: 1 }), /offline/);
+});
+
+// ── Rails ──────────────────────────────────────────────────────────────────
+
+test("builds watched, director and language/genre rails from loved movies", async () => {
+  const parasite = { ...watched(1, 10, [53]), title: "Parasite", watchedAt: "2024-03-01" };
+  const oldboy = { ...watched(2, 9, [53, 18]), title: "Oldboy", watchedAt: "2024-02-01" };
+  const stub = stubSources({
+    history: [parasite, oldboy, watched(3, 4, [35])],
+    catalog: [movie(500, [53])],
+    tmdbRecommendations: { 1: [movie(400, [53])], 2: [movie(401, [18])] },
+    content: {
+      1: { ...content({ directors: [[21684, "Bong Joon-ho"]] }), originalLanguage: "ko" },
+      2: { ...content({ directors: [[10099, "Park Chan-wook"]] }), originalLanguage: "ko" },
+    },
+  });
+
+  const discover = stub.sources.discoverMovies;
+  stub.sources.discoverMovies = async (options) =>
+    options.with_crew ? { results: [movie(501, [53])], total_pages: 1 } : discover(options);
+
+  const rails = await getRecommendationRails({ sources: stub.sources });
+
+  assert.deepEqual(
+    rails.map((r) => [r.id, r.title]),
+    [
+      ["watched:1", "Because you watched Parasite"],
+      ["director:21684", "More from Bong Joon-ho"],
+      ["watched:2", "Because you watched Oldboy"],
+      ["genre:53:ko", "Top Korean Thriller movies you haven't seen"],
+    ]
+  );
+  const genreCall = stub.discoverCalls.find((c) => c.with_original_language);
+  assert.equal(genreCall.with_genres, "53");
+});
+
+test("a movie shows up in only one rail, and empty rails are dropped", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28]), watched(2, 9, [28])],
+    tmdbRecommendations: { 1: [movie(400, [28]), movie(401, [28])], 2: [movie(400, [28])] },
+  });
+
+  const rails = await getRecommendationRails({ sources: stub.sources });
+
+  assert.deepEqual(rails.map((r) => r.id), ["watched:1"]);
+  assert.deepEqual(rails[0].items.map((m) => m.id), [400, 401]);
+});
+
+test("no loved movies means no rails", async () => {
+  const stub = stubSources({ history: [watched(1, 6, [28])] });
+
+  assert.deepEqual(await getRecommendationRails({ sources: stub.sources }), []);
+});
+
+test("rail pages skip watched movies and report the page count", async () => {
+  const stub = stubSources({ history: [watched(1, 9, [28]), watched(401, 7, [28])] });
+  const pages = [];
+  stub.sources.getMovieRecommendations = async (id, page) => {
+    pages.push(page);
+    return { results: [movie(400, [28]), movie(401, [28])], total_pages: 3 };
+  };
+
+  const result = await getRailPage({ id: "watched:1", title: "Because you watched Movie 1" }, 2, { sources: stub.sources });
+
+  assert.deepEqual(pages, [2]);
+  assert.deepEqual(result.items.map((m) => m.id), [400]);
+  assert.equal(result.items[0].reason, "Because you watched Movie 1");
+  assert.deepEqual(result.items[0].source, { kind: "rail", railId: "watched:1" });
+  assert.equal(result.totalPages, 3);
+});
+
+// ── Diversity ──────────────────────────────────────────────────────────────
+
+/** Three entries of one franchise that outscore a lone movie from elsewhere. */
+function franchiseStub() {
+  return stubSources({
+    history: [watched(1, 9, [28])],
+    catalog: [
+      movie(101, [28], { vote_average: 7.5 }),
+      movie(102, [28], { vote_average: 7.5 }),
+      movie(103, [28], { vote_average: 7.5 }),
+      movie(104, [28, 35], { vote_average: 7, release_date: "1994-05-01", original_language: "fr" }),
+    ],
+    content: {
+      101: { ...content(), collectionId: 7 },
+      102: { ...content(), collectionId: 7 },
+      103: { ...content(), collectionId: 7 },
+    },
+  });
+}
+
+test("diversity 0 keeps score order", async () => {
+  const stub = franchiseStub();
+
+  const recs = await getRecommendations({ sources: stub.sources, limit: 2, diversity: 0, random: () => 0.999 });
+
+  assert.deepEqual(recs.map((r) => r.id), [101, 102]);
+});
+
+test("diversity 0 ignores the RNG, even among near-equal scores", () => {
+  const traits = { genreIds: [28], releaseDate: "2001-01-01", originalLanguage: "en" };
+  const pool = [10, 9.9, 9.8, 9.7, 0].map((score, i) => ({ item: i, score, traits }));
+  let calls = 0;
+  const seesaw = () => (calls++ % 2 === 0 ? 0 : 0.999);
+
+  assert.deepEqual(diversify(pool, 5, 0, seesaw), [0, 1, 2, 3, 4]);
+  assert.deepEqual(diversify(pool, 5, 0, Math.random), [0, 1, 2, 3, 4]);
+});
+
+test("high diversity spreads picks across franchises", async () => {
+  const stub = franchiseStub();
+
+  const recs = await getRecommendations({ sources: stub.sources, limit: 2, diversity: 0.8, random: () => 0.999 });
+
+  assert.deepEqual(recs.map((r) => r.id), [101, 104]);
+});
+
+test("trait similarity counts genres, decade, language and collection", () => {
+  const a = { genreIds: [28, 12], releaseDate: "2001-01-01", originalLanguage: "en", collectionId: 7 };
+
+  assert.equal(traitSimilarity(a, a), 1);
+  assert.equal(traitSimilarity(a, { genreIds: [35], releaseDate: "1985-01-01", originalLanguage: "ja" }), 0);
+  assert.equal(
+    traitSimilarity(a, { genreIds: [28], releaseDate: "2009-06-01", originalLanguage: "ko", collectionId: null }),
+    0.5 * 0.4 + 0.15
+  );
+});
+
+// ── Match score ────────────────────────────────────────────────────────────
+
+test("a movie that fits the user's taste outscores one that only rates well", () => {
+  const base = { voteAverage: 7.5, voteCount: 5000, popularity: 50, dislikePoints: 0, recencyPoints: 0 };
+  const fit = computeMatch({
+    ...base,
+    genreIds: [28, 878],
+    genreAffinity: { 28: 1, 878: 0.5 },
+    contentSimilarity: 0.2,
+    seeded: false,
+  });
+  const stranger = computeMatch({ ...base, genreIds: [10749], genreAffinity: { 28: 1 }, contentSimilarity: 0, seeded: false });
+
+  assert.equal(fit.genreAffinity, 0.75);
+  assert.equal(fit.content, 0.5);
+  assert.ok(fit.score >= 60 && fit.score <= 90, `fit: ${fit.score}`);
+  assert.ok(stranger.score < 40, `stranger: ${stranger.score}`);
+});
+
+test("few votes pull quality towards average; penalties lower the score", () => {
+  const inputs = {
+    genreIds: [28],
+    genreAffinity: { 28: 1 },
+    contentSimilarity: 0,
+    seeded: false,
+    voteAverage: 9,
+    popularity: 10,
+    dislikePoints: 0,
+    recencyPoints: 0,
+  };
+  const famous = computeMatch({ ...inputs, voteCount: 20000 });
+  const obscure = computeMatch({ ...inputs, voteCount: 20 });
+  const disliked = computeMatch({ ...inputs, voteCount: 20000, dislikePoints: 5 });
+
+  assert.ok(obscure.quality < famous.quality);
+  assert.equal(disliked.dislikePenalty, 0.2);
+  assert.equal(disliked.score, famous.score - 20);
+});
+
+test("similar raters' predictions move the match score as far as they're trusted", () => {
+  const inputs = {
+    genreIds: [28],
+    genreAffinity: { 28: 0.5 },
+    contentSimilarity: 0,
+    seeded: false,
+    voteAverage: 7,
+    voteCount: 1000,
+    popularity: 10,
+    dislikePoints: 0,
+    recencyPoints: 0,
+  };
+  const none = computeMatch(inputs);
+  const loved = computeMatch({ ...inputs, prediction: { deviation: 2, confidence: 1 } });
+  const hated = computeMatch({ ...inputs, prediction: { deviation: -2, confidence: 1 } });
+  const unsure = computeMatch({ ...inputs, prediction: { deviation: 2, confidence: 0.1 } });
+
+  assert.equal(none.weights.collaborative, 0);
+  assert.equal(none.weights.genreAffinity, 0.35);
+  assert.equal(loved.collaborative, 1);
+  assert.equal(loved.weights.collaborative, 0.1);
+  assert.ok(loved.score > none.score && none.score > hated.score);
+  assert.ok(unsure.score > none.score && unsure.score < loved.score);
+});
+
+test("a similar raters' pick shows their part in its match", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28])],
+    catalog: [movie(200, [28])],
+    raterRatings: RATERS,
+  });
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(rec.id, 200);
+  assert.ok(rec.match.collaborative > 0.5);
+  assert.ok(rec.match.weights.collaborative > 0);
+});
+
+test("every recommendation carries a match score and its breakdown", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28])],
+    catalog: [movie(100, [28]), movie(101, [35])],
+    content: {
+      1: content({ directors: [[525, "Christopher Nolan"]] }),
+      100: content({ directors: [[525, "Christopher Nolan"]] }),
+    },
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, random: () => 0.999 });
+  const byId = Object.fromEntries(recs.map((r) => [r.id, r]));
+
+  assert.equal(byId[100].matchScore, byId[100].match.score);
+  assert.equal(byId[100].match.genreAffinity, 1);
+  assert.equal(byId[100].match.content, 1);
+  assert.equal(byId[101].match.genreAffinity, 0);
+  assert.ok(byId[100].matchScore > byId[101].matchScore + 50);
+});
+
+test("movies far older than the user's usual era are penalized", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28]), watched(2, 9, [28])],
+    catalog: [movie(100, [28], { release_date: "2012-01-01" }), movie(101, [28], { release_date: "1970-01-01" })],
+    content: {
+      1: { ...content(), releaseDate: "2014-06-01" },
+      2: { ...content(), releaseDate: "2018-06-01" },
+    },
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, random: () => 0.999, debug: true });
+  const [recent, old] = recs;
+
+  assert.deepEqual(recs.map((r) => r.id), [100, 101]);
+  assert.equal(recent.breakdown.recency, 0);
+  assert.equal(old.breakdown.recency, -2);   // 48 years before 2018, capped
+  assert.ok(old.match.recencyPenalty > 0);
+  assert.ok(old.matchScore < recent.matchScore);
+});
+
+test("the popular fallback scores on quality and popularity alone", async () => {
+  const stub = stubSources({ popular: [movie(10, [28], { vote_average: 8.5 })] });
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(rec.match.genreAffinity, 0);
+  assert.ok(rec.matchScore > 0 && rec.matchScore < 40);
+});
+
+// ── Pagination ─────────────────────────────────────────────────────────────
+
+function pagedStub() {
+  return stubSources({
+    history: [watched(1, 9, [28])],
+    catalog: Array.from({ length: 7 }, (_, i) => movie(100 + i, [28], { vote_average: 7 + i / 10 })),
+    trending: [movie(200, [28, 35]), movie(101, [28])],
+    pages: 5,
+  });
+}
+
+test("cursor pages walk every candidate once, then end", async () => {
+  const stub = pagedStub();
+  const seen = [];
+  let cursor = null;
+  let pages = 0;
+  do {
+    const page = await getRecommendationPage({ sources: stub.sources, limit: 3, cursor });
+    seen.push(...page.items.map((r) => r.id));
+    cursor = page.nextCursor;
+    pages++;
+  } while (cursor && pages < 10);
+
+  assert.equal(cursor, null);
+  assert.equal(pages, 3);
+  assert.equal(new Set(seen).size, seen.length);
+  assert.deepEqual([...seen].sort(), [100, 101, 102, 103, 104, 105, 106, 200]);
+});
+
+test("the same cursor always returns the same page", async () => {
+  const first = await getRecommendationPage({ sources: pagedStub().sources, limit: 3, seed: 42 });
+  const again = await getRecommendationPage({ sources: pagedStub().sources, limit: 3, seed: 42 });
+  const second = await getRecommendationPage({ sources: pagedStub().sources, limit: 3, cursor: first.nextCursor });
+  const secondAgain = await getRecommendationPage({ sources: pagedStub().sources, limit: 3, cursor: first.nextCursor });
+
+  assert.equal(first.nextCursor, "42.3");
+  assert.deepEqual(again.items.map((r) => r.id), first.items.map((r) => r.id));
+  assert.deepEqual(secondAgain.items.map((r) => r.id), second.items.map((r) => r.id));
+  assert.ok(!second.items.some((r) => first.items.some((f) => f.id === r.id)));
+});
+
+test("history changes between pages neither skip nor repeat movies", async () => {
+  const stub = pagedStub();
+  const before = (await getRecommendations({ sources: pagedStub().sources, limit: 20, seed: 7 })).map((r) => r.id);
+  const first = await getRecommendationPage({ sources: stub.sources, limit: 3, seed: 7 });
+
+  // A loved comedy reshapes the ranking; "Seen it" and a hide drop two unseen picks
+  const [seenIt, hiddenId] = before.slice(3, 5);
+  stub.sources.getWatchHistory = async () => [watched(1, 9, [28]), watched(seenIt, 9, [35])];
+  stub.sources.getWatchedMovieIds = async () => [1, seenIt];
+  stub.sources.getHiddenMovies = async () => [hiddenMovie(hiddenId)];
+
+  const rest = [];
+  let cursor = first.nextCursor;
+  while (cursor) {
+    const page = await getRecommendationPage({ sources: stub.sources, limit: 3, cursor });
+    rest.push(...page.items.map((r) => r.id));
+    cursor = page.nextCursor;
+  }
+
+  assert.deepEqual(first.items.map((r) => r.id), before.slice(0, 3));
+  assert.deepEqual(rest, before.slice(3).filter((id) => id !== seenIt && id !== hiddenId));
+});
+
+test("a malformed cursor is rejected", async () => {
+  await assert.rejects(
+    getRecommendationPage({ sources: pagedStub().sources, cursor: "page-2" }),
+    /Invalid recommendations cursor/
+  );
+});
+
+// ── Watching together ──────────────────────────────────────────────────────
+
+function member(id, history, favoriteGenres = []) {
+  return { id, name: id.toUpperCase(), profile: { preferences: { favoriteGenres }, watchHistory: history }, hidden: [] };
+}
+
+/** An action fan and a romance fan, and a catalog with one film for each and one for both. */
+function groupStub(catalog) {
+  const members = {
+    a: member("a", [watched(1, 9, [28]), watched(2, 3, [10749]), watched(3, 3, [10749])], [28]),
+    b: member("b", [watched(4, 9, [10749]), watched(5, 3, [28]), watched(6, 3, [28])], [10749]),
+  };
+  const stub = stubSources({ catalog });
+  return { ...stub.sources, getUserData: async (id) => members[id] };
+}
+
+test("group picks skip anything a member has seen and list every member's fit", async () => {
+  const sources = groupStub([movie(100, [28, 10749]), movie(4, [10749]), movie(1, [28])]);
+
+  const recs = await getGroupRecommendations(["a", "b"], { sources, seed: 1, diversity: 0 });
+
+  assert.deepEqual(recs.map((r) => r.id), [100]);
+  assert.deepEqual(recs[0].members.map((m) => m.name), ["A", "B"]);
+  assert.equal(recs[0].groupScore, Math.min(...recs[0].members.map((m) => m.matchScore)));
+  assert.equal(recs[0].matchScore, recs[0].groupScore);
+});
+
+test("least misery favors the film nobody minds; average can favor one fan", async () => {
+  const catalog = [
+    movie(100, [28], { vote_average: 8.5, popularity: 500 }),
+    movie(101, [28, 10749], { vote_average: 6.5, vote_count: 200 }),
+  ];
+  // Milder dislikes so neither genre is excluded outright
+  const sources = {
+    ...groupStub(catalog),
+    getUserData: async (id) =>
+      id === "a"
+        ? member("a", [watched(1, 10, [28]), watched(2, 9, [28])], [28])
+        : member("b", [watched(4, 9, [10749]), watched(5, 9, [35])], [10749]),
+  };
+
+  const least = await getGroupRecommendations(["a", "b"], { sources, seed: 1, diversity: 0 });
+  const average = await getGroupRecommendations(["a", "b"], { sources, seed: 1, diversity: 0, strategy: "average" });
+
+  const fit = (recs, id) => recs.find((r) => r.id === id).members.map((m) => m.matchScore);
+  assert.equal(least[0].id, 101);
+  assert.ok(Math.min(...fit(least, 101)) > Math.min(...fit(least, 100)));
+  assert.equal(average[0].id, 100);
+});
+
+test("a source every member fetched counts once when pooled", async () => {
+  // Everyone's discover finds 40 comedies; only the first member's trending finds a slightly better one
+  const catalog = Array.from({ length: 40 }, (_, i) => movie(200 + i, [35], { vote_average: 6.9 }));
+  let trendingCalls = 0;
+  const looked = new Set();
+  const sources = {
+    ...groupStub(catalog),
+    getTrendingMovies: async () => ({ results: trendingCalls++ === 0 ? [movie(100, [35])] : [] }),
+    getMovieContent: async (id) => {
+      looked.add(id);
+      return { keywords: [], credits: { cast: [], crew: [] } };
+    },
+  };
+
+  await getGroupRecommendations(["a", "b"], { sources, seed: 1, diversity: 0 });
+
+  // Repeat discovers aren't agreement, so the better film still makes the content shortlist
+  assert.ok(looked.has(100));
+});
+
+test("a group needs at least one member", async () => {
+  await assert.rejects(() => getGroupRecommendations([], { sources: groupStub([]) }), /at least one member/);
+});
+
+// ── Compatibility ──────────────────────────────────────────────────────────
+
+test("identical tastes are fully compatible", () => {
+  const history = [watched(1, 9, [28]), watched(2, 4, [35]), watched(3, 7, [18])];
+
+  const result = compareTastes(history, history);
+
+  assert.equal(result.shared, 3);
+  assert.equal(result.correlation, 1);
+  assert.ok(result.genreDistance < 1e-9);
+  assert.ok(result.score >= 95, `score ${result.score}`);
+});
+
+test("agreements and disagreements come from shared ratings", () => {
+  const a = [watched(1, 9, [28]), watched(2, 9, [28]), watched(3, 2, [35]), watched(4, 6, [18])];
+  const b = [watched(1, 8, [28]), watched(2, 3, [28]), watched(3, 9, [35]), watched(4, 6, [18]), watched(5, 9, [18])];
+
+  const result = compareTastes(a, b);
+
+  assert.deepEqual(result.agreements.map((s) => s.movieId), [4, 1]);
+  assert.deepEqual(result.disagreements.map((s) => s.movieId), [3, 2]);
+  assert.deepEqual(result.disagreements[0].ratings, [2, 9]);
+  assert.equal(result.overlap, 4 / 5);
+  assert.ok(result.correlation < 0);
+});
+
+test("without shared movies the score comes from genres alone", () => {
+  const action = [watched(1, 9, [28]), watched(2, 8, [28, 53])];
+  const romance = [watched(3, 9, [10749]), watched(4, 8, [10749, 35])];
+
+  const apart = compareTastes(action, romance);
+  const alike = compareTastes(action, [watched(5, 9, [28, 53])]);
+
+  assert.equal(apart.correlation, null);
+  assert.equal(apart.genreDistance, 1);
+  assert.equal(apart.score, 0);
+  assert.ok(alike.score > 60, `score ${alike.score}`);
+});
+
+test("compatibility lookup names both users and keeps going if picks fail", async () => {
+  const users = {
+    a: member("a", [watched(1, 9, [28])]),
+    b: member("b", [watched(1, 8, [28])]),
+  };
+  const getUserData = async (id) => users[id];
+  const pick = { id: 100, groupScore: 80, members: [] };
+
+  const ok = await getTasteCompatibility("a", "b", {
+    sources: { getUserData, getGroupRecommendations: async (ids, options) => (ids.length === 2 ? [pick].slice(0, options.limit) : []) },
+  });
+  const failed = await getTasteCompatibility("a", "b", {
+    sources: { getUserData, getGroupRecommendations: async () => { throw new Error("offline"); } },
+  });
+
+  assert.deepEqual(ok.users.map((u) => u.name), ["A", "B"]);
+  assert.deepEqual(ok.picks, [pick]);
+  assert.deepEqual(failed.picks, []);
+  assert.equal(failed.shared, 1);
+  await assert.rejects(() => getTasteCompatibility("a", "a", { sources: { getUserData } }), /two different users/);
+});
+
+test("switching the active user never compares them with themselves", async () => {
+  const users = [{ id: "me" }, { id: "sarah" }, { id: "alex" }];
+  const profiles = Object.fromEntries(users.map(({ id }) => [id, member(id, [watched(1, 8, [28])])]));
+  const sources = { getUserData: async (id) => profiles[id], getGroupRecommendations: async () => [] };
+
+  assert.equal(comparisonPartner(users, "me", null), "sarah");
+  assert.equal(comparisonPartner(users, "me", "alex"), "alex");
+  // "me" was comparing with Sarah, then switched to her
+  const partner = comparisonPartner(users, "sarah", "sarah");
+  assert.equal(partner, "me");
+  const result = await getTasteCompatibility("sarah", partner, { sources });
+  assert.deepEqual(result.users.map((u) => u.id), ["sarah", "me"]);
+  assert.equal(comparisonPartner([{ id: "me" }], "me", "sarah"), null);
+});
+
+// ── Collaborative filtering ────────────────────────────────────────────────
+
+/** Three raters who love movies 1 and 200 and dislike 300; one who rated 1 and 400. */
+const RATERS = [
+  ...["r1", "r2", "r3"].flatMap((raterId) => [
+    { raterId, movieId: 1, rating: 9 },
+    { raterId, movieId: 200, rating: 9 },
+    { raterId, movieId: 300, rating: 3 },
+  ]),
+  { raterId: "r4", movieId: 1, rating: 9 },
+  { raterId: "r4", movieId: 400, rating: 10 },
+];
+
+function details(id, genreIds) {
+  const { genre_ids, ...rest } = movie(id, genreIds);
+  return { ...rest, genres: genre_ids.map((g) => GENRES.find((x) => x.id === g)) };
+}
+
+test("movies rated alike by the same people are similar; one co-rater isn't enough", () => {
+  const model = buildItemModel(RATERS);
+
+  assert.ok(model.get(1).get(200) > 0);
+  assert.equal(model.get(200).get(1), model.get(1).get(200));
+  assert.equal(model.get(1).has(300), false);   // Rated opposite ways
+  assert.equal(model.get(1).has(400), false);   // Only r4 rated both
+});
+
+test("predictions follow the user's own ratings of similar movies", () => {
+  const model = buildItemModel(RATERS);
+
+  const fan = predictScores(model, [{ movieId: 1, rating: 10, weight: 1 }]);
+  const critic = predictScores(model, [{ movieId: 1, rating: 2, weight: 1 }]);
+
+  assert.ok(fan.get(200).deviation > 0);
+  assert.equal(fan.get(200).because, 1);
+  assert.ok(critic.get(200).deviation < 0);
+  assert.equal(fan.has(1), false);
+});
+
+test("the model is reused until the ratings change", async () => {
+  assert.equal(fingerprintRatings(RATERS.map((r) => ({ ...r }))), fingerprintRatings(RATERS));
+  assert.notEqual(fingerprintRatings([...RATERS.slice(1), { ...RATERS[0], rating: 4 }]), fingerprintRatings(RATERS));
+
+  let ratings = RATERS;
+  const stub = stubSources({ history: [watched(1, 9, [28])], catalog: [movie(200, [28])] });
+  stub.sources.getDeviceRatings = async () => ratings;
+  const score = async () =>
+    (await getRecommendations({ sources: stub.sources, seed: 1, debug: true }))[0].breakdown.collaborative;
+
+  assert.ok((await score()) > 0);
+  ratings = RATERS.map((r) => (r.movieId === 200 ? { ...r, rating: 3 } : r));
+  assert.equal(await score(), 0);
+});
+
+test("ratings CSVs need TMDB IDs and an explicit scale", () => {
+  const csv = "userId,movieId,tmdbId,rating\n1,10,550,4.5\n1,11,,3\n2,12,603,0.5\n2,13,680,6\n";
+
+  assert.deepEqual(parseRatingsCsv(csv, { scale: 5 }), [
+    { raterId: "1", movieId: 550, rating: 9 },
+    { raterId: "2", movieId: 603, rating: 1 },
+  ]);
+  // A harsh 10-point rater stays on the 10-point scale
+  assert.deepEqual(parseRatingsCsv("raterId,tmdbId,rating\na,550,4\na,603,2", { scale: 10 }), [
+    { raterId: "a", movieId: 550, rating: 4 },
+    { raterId: "a", movieId: 603, rating: 2 },
+  ]);
+  assert.throws(() => parseRatingsCsv("user,film,score\n1,2,3", { scale: 5 }), /needs userId/);
+  assert.throws(() => parseRatingsCsv("userId,movieId,rating\n1,2,3", { scale: 5 }), /links\.csv/);
+});
+
+test("MovieLens movieIds are mapped to TMDB IDs through links.csv", () => {
+  const ratings = "userId,movieId,rating,timestamp\n1,1,4.0,964982703\n1,2,5.0,964981247\n1,3,3.0,964982224\n";
+  const links = "movieId,imdbId,tmdbId\n1,0114709,862\n2,0113497,8844\n3,0113228,\n";
+
+  assert.deepEqual(parseRatingsCsv(ratings, { scale: 5, links }), [
+    { raterId: "1", movieId: 862, rating: 8 },
+    { raterId: "1", movieId: 8844, rating: 10 },
+  ]);
+});
+
+test("similar raters' favorites lift a candidate's genre score", async () => {
+  const stub = stubSources({
+    history: [watched(1, 9, [28])],
+    catalog: [movie(201, [28]), movie(200, [28])],
+    raterRatings: RATERS,
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 1, diversity: 0, debug: true });
+  const off = await getRecommendations({
+    sources: stub.sources,
+    seed: 1,
+    diversity: 0,
+    debug: true,
+    collaborativeWeight: 0,
+  });
+
+  assert.equal(recs[0].id, 200);
+  assert.ok(recs[0].breakdown.collaborative > 0);
+  assert.equal(recs.find((r) => r.id === 201).breakdown.collaborative, 0);
+  assert.ok(off.every((r) => r.breakdown.collaborative === 0));
+});
+
+test("a sparse history still gets picks from similar raters", async () => {
+  const stub = stubSources({
+    history: [watched(1, 7, [28])],   // Nothing rated 8+, so no favorite genres
+    popular: [movie(500, [35])],
+    raterRatings: RATERS,
+    details: { 200: details(200, [28]) },
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 1 });
+  const fromRaters = recs.find((r) => r.id === 200);
+
+  assert.ok(fromRaters);
+  assert.equal(fromRaters.source.kind, "collaborative");
+  assert.equal(fromRaters.reason, "People who liked Movie 1 also liked this");
+  assert.ok(recs.some((r) => r.id === 500));
+});
+
+// ── Popular fallback ───────────────────────────────────────────────────────
+
+test("falls back to popular movies when no genres can be derived", async () => {
+  const stub = stubSources({
+    history: [watched(1, 6, [28]), watched(2, 4, [35])],
+    popular: [movie(1, [28]), movie(10, [18]), movie(11, [35])],
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(stub.discoverCalls.length, 0);
+  assert.equal(stub.popularCalls, 1);
+  assert.deepEqual(recs.map((r) => r.id), [10, 11]);
+  assert.ok(recs.every((r) => r.reason === "Popular right now"));
+});
+
+test("the popular fallback respects the limit", async () => {
+  const stub = stubSources({
+    popular: Array.from({ length: 20 }, (_, i) => movie(100 + i, [18])),
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, limit: 5 });
+
+  assert.equal(recs.length, 5);
+});
+
+// ── Reasons ────────────────────────────────────────────────────────────────
+
+test("names up to two matched favorite genres in the reason", async () => {
+  const stub = stubSources({
+    favoriteGenres: [28, 878, 53],
+    catalog: [movie(100, [35, 28, 878, 53])],
+  });
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(rec.reason, "Matches your favorite genres: Action, Science Fiction");
+});
+
+test("uses the movie's first genre when nothing matches", async () => {
+  const stub = stubSources({
+    favoriteGenres: [28],
+    catalog: [movie(100, [10749, 35])],
+  });
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(rec.reason, "Highly rated Romance");
+});
+
+test("says 'Highly rated movie' when the genre is unknown", async () => {
+  const stub = stubSources({
+    favoriteGenres: [28],
+    catalog: [movie(100, [99999])],
+  });
+
+  const [rec] = await getRecommendations({ sources: stub.sources, seed: 1 });
+
+  assert.equal(rec.reason, "Highly rated movie");
+});
+
+// ── Streaming services ─────────────────────────────────────────────────────
+
+test("onMyServices restricts discover to the user's providers and region", async () => {
+  const stub = stubSources({
+    favoriteGenres: [28],
+    catalog: [movie(1, [28])],
+    watchSettings: { region: "GB", services: [8, 337] },
+  });
+
+  await getRecommendations({ sources: stub.sources, seed: 1, onMyServices: true });
+
+  assert.equal(stub.discoverCalls[0].with_watch_providers, "8|337");
+  assert.equal(stub.discoverCalls[0].watch_region, "GB");
+});
+
+test("the watch region falls back to the content region, then the default", () => {
+  assert.deepEqual(watchSettingsFrom({ watchRegion: "DE", region: "GB", streamingServices: [8] }), {
+    region: "DE",
+    services: [8],
+  });
+  assert.equal(watchSettingsFrom({ region: "GB" }).region, "GB");
+  assert.deepEqual(watchSettingsFrom({}), { region: "US", services: [] });
+});
+
+test("onMyServices is ignored when no services are set", async () => {
+  const stub = stubSources({ favoriteGenres: [28], catalog: [movie(1, [28])] });
+
+  await getRecommendations({ sources: stub.sources, seed: 1, onMyServices: true });
+
+  assert.equal(stub.discoverCalls[0].with_watch_providers, undefined);
+});
+
+test("the popular fallback uses discover when filtering by services", async () => {
+  const stub = stubSources({
+    catalog: [movie(1, [18]), movie(2, [35])],
+    watchSettings: { region: "US", services: [8] },
+  });
+
+  const recs = await getRecommendations({ sources: stub.sources, onMyServices: true });
+
+  assert.equal(stub.popularCalls, 0);
+  assert.equal(stub.discoverCalls[0].sort_by, "popularity.desc");
+  assert.equal(stub.discoverCalls[0].with_watch_providers, "8");
+  assert.ok(recs.every((r) => r.reason === "Popular right now"));
+});
+
+// ── Randomness ─────────────────────────────────────────────────────────────
+
+test("the same seed gives the same recommendations", async () => {
+  const catalog = Array.from({ length: 30 }, (_, i) => movie(200 + i, [28], { vote_average: 6 + (i % 4) * 0.5 }));
+  const run = async (seed) => {
+    const stub = stubSources({ favoriteGenres: [28], catalog, pages: 5 });
+    const recs = await getRecommendations({ sources: stub.sources, seed, limit: 6 });
+    return { ids: recs.map((r) => r.id), pages: stub.discoverCalls.map((c) => c.page) };
+  };
+
+  assert.deepEqual(await run(42), await run(42));
+  assert.notDeepEqual((await run(42)).ids, (await run(43)).ids);
+});
+
+test("the injected RNG picks the discover page", async () => {
+  const stub = stubSources({ favoriteGenres: [28], catalog: [movie(1, [28])], pages: 4 });
+
+  await getRecommendations({ sources: stub.sources, random: () => 0.99 });
+
+  assert.deepEqual(stub.discoverCalls.map((c) => c.page), [1, 4]);
+});
+
+test("never asks for more than 8 discover pages", async () => {
+  const stub = stubSources({ favoriteGenres: [28], catalog: [movie(1, [28])], pages: 500 });
+
+  await getRecommendations({ sources: stub.sources, random: () => 0.999 });
+
+  assert.equal(stub.discoverCalls[1].page, 8);
+});
+
+test("createSeededRandom stays within [0, 1)", () => {
+  const random = createSeededRandom(123);
+  for (let i = 0; i < 1000; i++) {
+    const value = random();
+    assert.ok(value >= 0 && value < 1);
+  }
+});
+
+// ── Franchises ─────────────────────────────────────────────────────────────
+
+const TODAY = new Date("2025-06-01");
+
+function collection(id, parts) {
+  return { id, name: `Collection ${id}`, overview: "", poster_path: null, backdrop_path: null, parts };
+}
+
+test("orders collection entries by release date, unreleased last", () => {
+  const progress = summarizeCollection(
+    collection(1, [
+      movie(3, [], { release_date: "" }),
+      movie(2, [], { release_date: "2010-05-01" }),
+      movie(1, [], { release_date: "2001-11-16" }),
+    ]),
+    [],
+    TODAY
+  );
+
+  assert.deepEqual(progress.entries.map((e) => e.movie.id), [1, 2, 3]);
+  assert.deepEqual(progress.entries.map((e) => e.released), [true, true, false]);
+});
+
+test("the next entry is the first released one the user hasn't seen", () => {
+  const progress = summarizeCollection(
+    collection(1, [
+      movie(1, [], { release_date: "2001-01-01" }),
+      movie(2, [], { release_date: "2002-01-01" }),
+      movie(3, [], { release_date: "2003-01-01" }),
+      movie(4, [], { release_date: "2030-01-01" }),
+    ]),
+    [watched(1, 8, []), watched(3, 7, [])],
+    TODAY
+  );
+
+  assert.equal(progress.watchedCount, 2);
+  assert.equal(progress.releasedCount, 3);
+  assert.equal(progress.next?.id, 2);
+});
+
+test("unfinished franchises skip finished and untouched collections", async () => {
+  const collections = {
+    10: collection(10, [movie(1, []), movie(2, [])]),   // Half watched
+    20: collection(20, [movie(3, []), movie(4, [])]),   // Finished
+  };
+  const details = { 1: 10, 3: 20, 4: 20, 5: null };
+  const history = [
+    { ...watched(1, 8, []), collectionId: 10 },
+    watched(3, 8, []),   // Rated before collections were tracked
+    watched(4, 6, []),
+    watched(5, 9, []),
+  ];
+
+  const result = await getUnfinishedFranchises({
+    today: TODAY,
+    sources: {
+      getWatchHistory: async () => history,
+      getMovieDetails: async (id) => ({
+        belongs_to_collection: details[id] ? { id: details[id] } : null,
+      }),
+      getCollection: async (id) => collections[id],
+    },
+  });
+
+  assert.deepEqual(result.map((p) => p.collection.id), [10]);
+  assert.equal(result[0].next?.id, 2);
+});
+
+// ── Mock TMDB server ───────────────────────────────────────────────────────
+
+test("the mock server ignores locale, combines appended sections and reports misses", async () => {
+  const { startMockServer } = await import("./mock-tmdb-server.mjs");
+  const mock = await startMockServer({ port: 0, quiet: true });
+  const get = (path) => fetch(`${mock.tmdbBaseUrl}${path}`);
+  try {
+    const recorded = await get("/movie/550?append_to_response=credits,videos&language=fr-FR&region=FR");
+    const combined = await get("/movie/550?append_to_response=credits&language=de-DE");
+    const missing = await get("/movie/550?append_to_response=credits,reviews&language=en-US");
+
+    assert.equal(recorded.status, 200);
+    assert.ok((await recorded.json()).videos);
+    const body = await combined.json();
+    assert.ok(body.credits.cast.length > 0);
+    assert.equal(body.videos, undefined);
+    assert.equal(missing.status, 404);
+    assert.deepEqual(mock.misses, ["/movie/550?append_to_response=credits%2Creviews"]);
+  } finally {
+    await mock.close();
+  }
+});
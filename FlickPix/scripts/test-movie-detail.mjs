@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the movie detail route and the useMovieDetail hook's pure
+ * helpers. Runs offline.
+ *
+ * Usage:
+ *   npm test
+ *   or: npx tsx scripts/test-movie-detail.mjs
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+const { movieIdFromParam, pickTrailer } = await import("../hooks/use-movie-detail.ts");
+
+// ── Deep links ─────────────────────────────────────────────────────────────
+
+test("a /movie/[id] link with plain digits opens that movie", () => {
+  assert.equal(movieIdFromParam("550"), 550);
+  assert.equal(movieIdFromParam("27205"), 27205);
+});
+
+test("anything else in a /movie/[id] link is NaN, not some other movie", () => {
+  for (const id of ["0x22", "1e3", " 550", "550abc", "-550", "5.5", "", undefined]) {
+    assert.ok(Number.isNaN(movieIdFromParam(id)), `${JSON.stringify(id)} parsed as a movie ID`);
+  }
+});
+
+// ── Trailer ────────────────────────────────────────────────────────────────
+
+const video = (key, type, site = "YouTube") => ({ key, type, site, name: key });
+
+test("pickTrailer prefers a YouTube trailer over a teaser", () => {
+  const videos = [video("teaser", "Teaser"), video("clip", "Clip"), video("trailer", "Trailer")];
+  assert.equal(pickTrailer(videos)?.key, "trailer");
+});
+
+test("pickTrailer falls back to a teaser, and skips other sites", () => {
+  assert.equal(pickTrailer([video("vimeo", "Trailer", "Vimeo"), video("teaser", "Teaser")])?.key, "teaser");
+  assert.equal(pickTrailer([video("vimeo", "Trailer", "Vimeo"), video("clip", "Clip")]), null);
+  assert.equal(pickTrailer([]), null);
+});
@@ -6,6 +6,13 @@
  * Usage:
  *   npm run test:recs
  *   or: node scripts/test-recommendations.mjs
+ *
+ * Offline, against the fixtures (no key needed; fails if any request
+ * has no fixture):
+ *   npm run test:recs -- --mock
+ *
+ * Print how each score was put together:
+ *   npm run test:recs -- --debug
  */
 
 import { readFileSync } from "fs";
@@ -15,6 +22,8 @@ import { fileURLToPath } from "url";
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const root = resolve(__dirname, "..");
 const envPath = resolve(root, ".env");
+const USE_MOCK = process.argv.includes("--mock");
+const DEBUG = process.argv.includes("--debug");
 
 // Load API key
 let API_KEY;
@@ -24,14 +33,23 @@ try {
   if (match) API_KEY = match[1].trim();
 } catch {}
 
+// Replay fixtures from the local mock server instead of hitting TMDB
+let mock = null;
+if (USE_MOCK) {
+  const { startMockServer } = await import("./mock-tmdb-server.mjs");
+  mock = await startMockServer({ port: 0, quiet: true });
+  API_KEY = "mock";
+}
+
 if (!API_KEY || API_KEY === "YOUR_KEY_HERE") {
-  console.error("❌  Set TMDB_API_KEY in .env first.");
+  console.error("❌  Set TMDB_API_KEY in .env first (or pass --mock).");
   process.exit(1);
 }
 
 // Set API key for tmdb service
 const tmdbModule = await import("../services/tmdb.ts");
 tmdbModule.setApiKey(API_KEY);
+if (mock) tmdbModule.setBaseUrl(mock.tmdbBaseUrl);
 
 // Import recommendation service
 const { getRecommendations, getPosterUrl } = await import("../services/recommendations.ts");
@@ -68,7 +86,7 @@ async function testUser(userId, userName) {
   console.log("─".repeat(60));
 
   const startTime = Date.now();
-  const recs = await getRecommendations({ limit: 10 });
+  const recs = await getRecommendations({ limit: 10, debug: DEBUG });
   const elapsed = Date.now() - startTime;
 
   console.log(`  Found ${recs.length} recommendations in ${elapsed}ms\n`);
@@ -79,8 +97,20 @@ async function testUser(userId, userName) {
     const genreNames = rec.genreIds.map((id) => genreMap[id] || `#${id}`).slice(0, 3).join(", ");
     
     console.log(`${(i + 1).toString().padStart(2)}. ${rec.title} (${year})`);
-    console.log(`    ★ ${rec.voteAverage.toFixed(1)}  |  ${genreNames}`);
+    console.log(`    ★ ${rec.voteAverage.toFixed(1)}  |  ${rec.matchScore}% match  |  ${genreNames}`);
     console.log(`    Why: ${rec.reason}`);
+    if (rec.breakdown) {
+      const b = rec.breakdown;
+      const fmt = (n) => (n >= 0 ? "+" : "") + n.toFixed(2);
+      console.log(
+        `    Score: ${b.total.toFixed(2)} = base ${b.base.toFixed(2)} ${fmt(b.genres)} genres ${fmt(b.collaborative)} similar raters ` +
+          `${fmt(b.popularity)} popularity ${fmt(b.sources)} sources ${fmt(b.content)} content ${fmt(b.dislike)} dislikes ${fmt(b.recency)} recency`
+      );
+      console.log(`    Source: ${rec.source.kind}`);
+      if (b.dislikedMatches.length > 0) {
+        console.log(`    Disliked: ${b.dislikedMatches.join(", ")}`);
+      }
+    }
     console.log();
   }
 }
@@ -103,7 +133,20 @@ async function main() {
   console.log("  Sarah         → Romance/Comedy/Drama recommendations\n");
 }
 
-main().catch((err) => {
-  console.error("❌  Error:", err);
-  process.exit(1);
-});
+/** Replayed runs are only meaningful if every request had a fixture. */
+function reportMissingFixtures() {
+  if (!mock || mock.misses.length === 0) return;
+  const missing = [...new Set(mock.misses)];
+  console.error(`❌  ${missing.length} TMDB request(s) had no fixture, so these scores are incomplete:`);
+  for (const key of missing) console.error(`    ${key}`);
+  console.error("   Record them with: npm run mock:tmdb:record\n");
+  process.exitCode = 1;
+}
+
+main()
+  .then(reportMissingFixtures)
+  .catch((err) => {
+    console.error("❌  Error:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => mock?.close());
@@ -0,0 +1,553 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the TMDB client, its response cache, error mapping and the
+ * filmography built from person credits. Runs fully offline: fetch is
+ * replaced by a stub and the clock by a fake one.
+ *
+ * Usage:
+ *   npm test
+ *   or: npx tsx scripts/test-tmdb-client.mjs
+ */
+
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+
+const tmdb = await import("../services/tmdb.ts");
+const { cachedFetch } = await import("../services/tmdbCache.ts");
+const { errorFromResponse } = await import("../services/errors.ts");
+const { filmography } = await import("../utils/filmography.ts");
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+/** Every request the stub saw, and how it answers the next one. */
+let requests = [];
+let respond = () => json({});
+
+globalThis.fetch = async (input, init = {}) => {
+  const url = new URL(String(input));
+  requests.push({ url, signal: init.signal });
+  return respond(url, init.signal);
+};
+
+function json(body, status = 200, headers = {}) {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/** A response that never comes; rejects like fetch once the signal aborts. */
+function hang(signal) {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () => reject(new DOMException("The operation was aborted.", "AbortError")), {
+      once: true,
+    });
+  });
+}
+
+/** Answers in order; the last one repeats. */
+function sequence(...responses) {
+  let i = 0;
+  return () => responses[Math.min(i++, responses.length - 1)]();
+}
+
+/** Let pending promise callbacks (cache writes, revalidations) run. */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+/** Date.now() under test control; restore() puts the real one back. */
+function fakeClock(start = Date.UTC(2024, 0, 1)) {
+  const realNow = Date.now;
+  let now = start;
+  Date.now = () => now;
+  return {
+    advance: (ms) => {
+      now += ms;
+    },
+    restore: () => {
+      Date.now = realNow;
+    },
+  };
+}
+
+const MINUTE = 60 * 1000;
+
+beforeEach(async () => {
+  requests = [];
+  respond = () => json({});
+  tmdb.setApiKey("test-key");
+  tmdb.setBaseUrl("https://tmdb.test/3");
+  tmdb.setLocale(tmdb.DEFAULT_LOCALE);
+  tmdb.setResponseCacheEnabled(true);
+  tmdb.configureRequests({
+    maxRetries: 3,
+    baseDelayMs: 1,
+    maxDelayMs: 4,
+    maxRetryAfterMs: 20,
+    timeoutMs: 1000,
+    maxConcurrent: 6,
+  });
+  await tmdb.clearResponseCache();
+});
+
+// ── Response cache ─────────────────────────────────────────────────────────
+
+test("fresh entries are served from the cache until their TTL runs out", async () => {
+  const clock = fakeClock();
+  try {
+    let loads = 0;
+    const load = async () => ({ version: ++loads });
+
+    assert.deepEqual(await cachedFetch("/trending/movie/day", {}, load), { version: 1 });
+    clock.advance(14 * MINUTE);
+    assert.deepEqual(await cachedFetch("/trending/movie/day", {}, load), { version: 1 });
+    assert.equal(loads, 1);
+  } finally {
+    clock.restore();
+  }
+});
+
+test("stale entries are served at once and refreshed in the background", async () => {
+  const clock = fakeClock();
+  try {
+    let loads = 0;
+    const load = async () => ({ version: ++loads });
+
+    await cachedFetch("/trending/movie/day", {}, load);
+    clock.advance(20 * MINUTE);   // Past the 15-minute TTL, inside the grace window
+    const stale = await cachedFetch("/trending/movie/day", {}, load);
+    await flush();
+    const refreshed = await cachedFetch("/trending/movie/day", {}, load);
+
+    assert.deepEqual(stale, { version: 1 });
+    assert.deepEqual(refreshed, { version: 2 });
+    assert.equal(loads, 2);
+  } finally {
+    clock.restore();
+  }
+});
+
+test("a failed refresh keeps the stale copy; a fully expired entry is loaded again", async () => {
+  const clock = fakeClock();
+  try {
+    let loads = 0;
+    let failing = false;
+    const load = async () => {
+      loads++;
+      if (failing) throw new Error("offline");
+      return { version: loads };
+    };
+
+    await cachedFetch("/trending/movie/week", {}, load);
+    clock.advance(20 * MINUTE);
+    failing = true;
+    assert.deepEqual(await cachedFetch("/trending/movie/week", {}, load), { version: 1 });
+    await flush();
+    assert.deepEqual(await cachedFetch("/trending/movie/week", {}, load), { version: 1 });
+
+    failing = false;
+    clock.advance(2 * 60 * MINUTE);   // Past TTL + grace window
+    assert.deepEqual(await cachedFetch("/trending/movie/week", {}, load), { version: loads });
+  } finally {
+    clock.restore();
+  }
+});
+
+test("the oldest entries are evicted once the cache is full", async () => {
+  const clock = fakeClock();
+  try {
+    let loads = 0;
+    const load = async () => ++loads;
+
+    for (let id = 1; id <= 301; id++) {
+      await cachedFetch(`/movie/${id}`, {}, load);
+      clock.advance(1);
+      await flush();
+    }
+    const before = loads;
+    await cachedFetch("/movie/301", {}, load);
+    assert.equal(loads, before);        // Newest still cached
+    await cachedFetch("/movie/1", {}, load);
+    assert.equal(loads, before + 1);    // Oldest was evicted
+  } finally {
+    clock.restore();
+  }
+});
+
+test("the cache key ignores param order and the API key", async () => {
+  let loads = 0;
+  const load = async () => ++loads;
+
+  await cachedFetch("/discover/movie", { page: 1, sort_by: "popularity.desc", api_key: "a" }, load);
+  await cachedFetch("/discover/movie", { sort_by: "popularity.desc", page: 1, api_key: "b" }, load);
+
+  assert.equal(loads, 1);
+});
+
+test("clearing a path leaves other IDs that share its digits alone", async () => {
+  let loads = 0;
+  const load = async () => ++loads;
+  for (const path of ["/movie/27", "/movie/27/credits", "/movie/275"]) {
+    await cachedFetch(path, { language: "en-US" }, load);
+  }
+
+  await tmdb.clearResponseCache("/movie/27");
+  for (const path of ["/movie/27", "/movie/27/credits", "/movie/275"]) {
+    await cachedFetch(path, { language: "en-US" }, load);
+  }
+
+  assert.equal(loads, 5);   // /movie/27 and its credits again; /movie/275 still cached
+});
+
+// ── Retry, timeout & rate limiting ─────────────────────────────────────────
+
+test("server errors are retried with backoff until one succeeds", async () => {
+  respond = sequence(
+    () => json({ status_message: "busy" }, 503),
+    () => json({ status_message: "busy" }, 503),
+    () => json({ id: 1, title: "Recovered" })
+  );
+
+  const movie = await tmdb.getMovieDetails(1);
+
+  assert.equal(movie.title, "Recovered");
+  assert.equal(requests.length, 3);
+});
+
+test("retries stop after maxRetries and the last error is thrown", async () => {
+  respond = () => json({ status_message: "down" }, 500);
+
+  await assert.rejects(tmdb.getMovieDetails(2), (err) => err instanceof tmdb.ApiError && err.status === 500);
+  assert.equal(requests.length, 4);
+});
+
+test("client errors other than 429 are not retried", async () => {
+  respond = () => json({ status_message: "The resource you requested could not be found." }, 404);
+
+  await assert.rejects(tmdb.getMovieDetails(3), tmdb.NotFoundError);
+  assert.equal(requests.length, 1);
+});
+
+test("Retry-After is honoured, but never waits longer than maxRetryAfterMs", async () => {
+  respond = sequence(
+    () => json({ status_message: "slow down" }, 429, { "Retry-After": "3600" }),
+    () => json({ id: 4, title: "After the wait" })
+  );
+
+  const started = Date.now();
+  const movie = await tmdb.getMovieDetails(4);
+
+  assert.equal(movie.title, "After the wait");
+  assert.equal(requests.length, 2);
+  assert.ok(Date.now() - started < 1000, "waited the full hour");
+});
+
+test("an attempt that takes longer than timeoutMs fails as a timeout", async () => {
+  tmdb.configureRequests({ timeoutMs: 20, maxRetries: 1 });
+  respond = (url, signal) => hang(signal);
+
+  await assert.rejects(
+    tmdb.getMovieDetails(5),
+    (err) => err instanceof tmdb.NetworkError && err.timedOut && /timed out after 20ms/.test(err.message)
+  );
+  assert.equal(requests.length, 2);   // Timeouts are retryable
+});
+
+test("no more than maxConcurrent requests are on the wire at once", async () => {
+  tmdb.configureRequests({ maxConcurrent: 2 });
+  let active = 0;
+  let peak = 0;
+  respond = async (url) => {
+    active++;
+    peak = Math.max(peak, active);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    active--;
+    return json({ id: Number(url.pathname.split("/").pop()) });
+  };
+
+  const movies = await Promise.all([10, 11, 12, 13, 14].map((id) => tmdb.getMovieDetails(id)));
+
+  assert.deepEqual(movies.map((m) => m.id), [10, 11, 12, 13, 14]);
+  assert.equal(peak, 2);
+});
+
+test("an aborted request waiting for a slot never takes one", async () => {
+  tmdb.configureRequests({ maxConcurrent: 1 });
+  let release;
+  respond = sequence(
+    () => new Promise((resolve) => (release = () => resolve(json({ id: 20 })))),
+    () => json({ id: 22 })
+  );
+
+  const first = tmdb.getMovieDetails(20);
+  const controller = new AbortController();
+  const queued = tmdb.getMovieDetails(21, { signal: controller.signal });
+  await flush();
+  controller.abort();
+  await assert.rejects(queued, (err) => tmdb.isAbortError(err));
+  release();
+  await first;
+  await tmdb.getMovieDetails(22);
+
+  assert.deepEqual(requests.map((r) => r.url.pathname), ["/3/movie/20", "/3/movie/22"]);
+});
+
+// ── Shared requests & abort ────────────────────────────────────────────────
+
+test("identical concurrent calls share one request", async () => {
+  respond = async () => json({ id: 30, title: "Shared" });
+
+  const [a, b] = await Promise.all([tmdb.getMovieDetails(30), tmdb.getMovieDetails(30)]);
+
+  assert.equal(requests.length, 1);
+  assert.equal(a.title, "Shared");
+  assert.equal(b.title, "Shared");
+});
+
+test("one caller leaving doesn't cancel a request others still wait on", async () => {
+  let release;
+  respond = () => new Promise((resolve) => (release = () => resolve(json({ id: 31 }))));
+
+  const leaving = new AbortController();
+  const left = tmdb.getMovieDetails(31, { signal: leaving.signal });
+  const staying = tmdb.getMovieDetails(31, { signal: new AbortController().signal });
+  await flush();
+  leaving.abort();
+  release();
+
+  await assert.rejects(left, (err) => tmdb.isAbortError(err));
+  assert.equal((await staying).id, 31);
+  assert.equal(requests[0].signal.aborted, false);
+});
+
+test("the network request is cancelled once the last caller leaves", async () => {
+  respond = (url, signal) => hang(signal);
+
+  const controller = new AbortController();
+  const pending = tmdb.getMovieDetails(32, { signal: controller.signal });
+  await flush();
+  controller.abort();
+
+  await assert.rejects(pending, (err) => tmdb.isAbortError(err));
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].signal.aborted, true);
+});
+
+test("a stale entry's background refresh survives its caller leaving", async () => {
+  const clock = fakeClock();
+  try {
+    respond = () => json({ id: 35, title: "Old" });
+    await tmdb.getMovieDetails(35);
+    clock.advance(7 * 60 * MINUTE);   // Past the 6-hour TTL, inside the grace window
+
+    const controller = new AbortController();
+    respond = (url, signal) => {
+      controller.abort();   // The caller leaves as the refresh goes out
+      return signal.aborted ? hang(signal) : json({ id: 35, title: "New" });
+    };
+    await tmdb.getMovieDetails(35, { signal: controller.signal }).catch(() => {});
+    await flush();
+
+    assert.equal(requests[1].signal.aborted, false);
+    assert.equal((await tmdb.getMovieDetails(35)).title, "New");
+  } finally {
+    clock.restore();
+  }
+});
+
+test("an already-aborted signal never reaches the network", async () => {
+  const controller = new AbortController();
+  controller.abort();
+
+  await assert.rejects(tmdb.getMovieDetails(33, { signal: controller.signal }), (err) => tmdb.isAbortError(err));
+  assert.equal(requests.length, 0);
+});
+
+test("every request carries the API key and the current locale", async () => {
+  tmdb.setLocale({ language: "fr-FR", region: "FR" });
+
+  await tmdb.getMovieDetails(34);
+
+  const { searchParams } = requests[0].url;
+  assert.equal(searchParams.get("api_key"), "test-key");
+  assert.equal(searchParams.get("language"), "fr-FR");
+  assert.equal(searchParams.get("region"), "FR");
+});
+
+// ── Movie details in one request ───────────────────────────────────────────
+
+test("getMovieFull asks for every section by default", async () => {
+  await tmdb.getMovieFull(50);
+
+  assert.equal(requests[0].url.pathname, "/3/movie/50");
+  assert.equal(
+    requests[0].url.searchParams.get("append_to_response"),
+    [...tmdb.ALL_MOVIE_APPENDS].sort().join(",")
+  );
+});
+
+test("getMovieFull sorts and dedupes sections, so any order shares one cache entry", async () => {
+  respond = () => json({ id: 51, credits: { cast: [] }, videos: { results: [] } });
+
+  await tmdb.getMovieFull(51, { append: ["videos", "credits", "videos"] });
+  const movie = await tmdb.getMovieFull(51, { append: ["credits", "videos"] });
+
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].url.searchParams.get("append_to_response"), "credits,videos");
+  assert.deepEqual(movie.credits, { cast: [] });
+});
+
+test("getMovieFull with no sections is a plain details request", async () => {
+  await tmdb.getMovieFull(52, { append: [] });
+
+  assert.equal(requests[0].url.searchParams.has("append_to_response"), false);
+});
+
+test("the English overview fallback skips the appended sections", async () => {
+  tmdb.setLocale({ language: "fr-FR", region: "FR" });
+  respond = (url) =>
+    url.searchParams.get("language") === "fr-FR"
+      ? json({ id: 53, overview: "", credits: { cast: [] } })
+      : json({ id: 53, overview: "In English." });
+
+  const movie = await tmdb.getMovieFull(53, { append: ["credits"] });
+
+  assert.equal(movie.overview, "In English.");
+  assert.deepEqual(movie.credits, { cast: [] });
+  assert.equal(requests.length, 2);
+  assert.equal(requests[1].url.searchParams.has("append_to_response"), false);
+});
+
+// ── People ─────────────────────────────────────────────────────────────────
+
+test("the person API calls the person, movie_credits and search endpoints", async () => {
+  respond = () => json({ id: 60, results: [] });
+
+  await tmdb.getPerson(60);
+  await tmdb.getPersonMovieCredits(60);
+  await tmdb.searchPeople("Greta Gerwig", 2);
+
+  assert.deepEqual(requests.map((r) => r.url.pathname), [
+    "/3/person/60",
+    "/3/person/60/movie_credits",
+    "/3/search/person",
+  ]);
+  assert.equal(requests[2].url.searchParams.get("query"), "Greta Gerwig");
+  assert.equal(requests[2].url.searchParams.get("page"), "2");
+});
+
+test("a biography missing in the user's language falls back to English", async () => {
+  tmdb.setLocale({ language: "de-DE", region: "DE" });
+  respond = (url) =>
+    json({ id: 61, biography: url.searchParams.get("language") === "en-US" ? "Born in Daegu." : "" });
+
+  const person = await tmdb.getPerson(61);
+
+  assert.equal(person.biography, "Born in Daegu.");
+});
+
+test("filmography gives one entry per movie, newest first, with its roles joined", () => {
+  const movie = (id, release_date) => ({ id, title: `Movie ${id}`, release_date });
+  const { acting, crew } = filmography({
+    id: 62,
+    cast: [
+      { ...movie(1, "2001-05-01"), character: "Self" },
+      { ...movie(2, "2019-10-11"), character: "Hero" },
+      { ...movie(2, "2019-10-11"), character: "Villain" },
+    ],
+    crew: [
+      { ...movie(2, "2019-10-11"), job: "Director" },
+      { ...movie(2, "2019-10-11"), job: "Writer" },
+      { ...movie(2, "2019-10-11"), job: "Director" },
+      { ...movie(3, ""), job: "Producer" },
+    ],
+  });
+
+  assert.deepEqual(acting.map((c) => [c.id, c.role]), [[2, "Hero, Villain"], [1, "Self"]]);
+  assert.deepEqual(crew.map((c) => [c.id, c.role]), [[3, "Producer"], [2, "Director, Writer"]]);
+});
+
+// ── Errors ─────────────────────────────────────────────────────────────────
+
+test("HTTP statuses map onto the matching error classes", () => {
+  const map = (status, body = "{}") => errorFromResponse("tmdb", "/movie/1", status, body);
+
+  assert.ok(map(401) instanceof tmdb.AuthError);
+  assert.ok(map(403) instanceof tmdb.AuthError);
+  assert.ok(map(404) instanceof tmdb.NotFoundError);
+  assert.ok(map(429) instanceof tmdb.RateLimitError);
+  assert.equal(map(500).kind, "http");
+  assert.equal(map(500).retryable, true);
+  assert.equal(map(400).retryable, false);
+});
+
+test("an OpenAI 429 for insufficient_quota is a quota error, not a rate limit", () => {
+  const body = JSON.stringify({ error: { message: "You exceeded your quota.", code: "insufficient_quota" } });
+  const err = errorFromResponse("openai", "/chat/completions", 429, body);
+
+  assert.ok(err instanceof tmdb.QuotaExceededError);
+  assert.equal(err.retryable, false);
+  assert.equal(err.message, "OpenAI 429: You exceeded your quota.");
+});
+
+test("error messages come from the response body when it has one", () => {
+  const err = errorFromResponse("tmdb", "/movie/1", 404, JSON.stringify({ status_message: "Not here." }), null);
+  assert.equal(err.message, "TMDB 404: Not here.");
+  assert.equal(errorFromResponse("tmdb", "/movie/1", 502, "Bad gateway").message, "TMDB 502: Bad gateway");
+});
+
+test("a rate limit keeps its Retry-After delay", () => {
+  const err = errorFromResponse("tmdb", "/movie/1", 429, "{}", 3000);
+  assert.equal(err.retryAfterMs, 3000);
+});
+
+test("the client throws AuthError, MalformedResponseError and NetworkError", async () => {
+  tmdb.configureRequests({ maxRetries: 0 });
+
+  respond = () => json({ status_message: "Invalid API key." }, 401);
+  await assert.rejects(tmdb.getMovieDetails(40), tmdb.AuthError);
+
+  respond = () => new Response("<html>", { status: 200 });
+  await assert.rejects(tmdb.getMovieDetails(41), tmdb.MalformedResponseError);
+
+  respond = () => Promise.reject(new TypeError("fetch failed"));
+  await assert.rejects(
+    tmdb.getMovieDetails(42),
+    (err) => err instanceof tmdb.NetworkError && !err.timedOut && err.status === null
+  );
+});
+
+test("describeError gives each kind its own title and says whether retrying helps", () => {
+  const init = { service: "tmdb", endpoint: "/movie/1" };
+  const describe = (err) => tmdb.describeError(err, "Couldn't load");
+
+  assert.deepEqual(
+    [
+      describe(new tmdb.AuthError("x", init)),
+      describe(new tmdb.NotFoundError("x", init)),
+      describe(new tmdb.RateLimitError("x", init)),
+      describe(new tmdb.NetworkError("x", { ...init, timedOut: true })),
+      describe(new tmdb.NetworkError("x", init)),
+      describe(new tmdb.QuotaExceededError("x", { ...init, service: "openai" })),
+      describe(new tmdb.MalformedResponseError("x", init)),
+    ].map(({ title, canRetry }) => [title, canRetry]),
+    [
+      ["TMDB key missing or invalid", false],
+      ["Not found", false],
+      ["Too many requests", true],
+      ["Request timed out", true],
+      ["You're offline", true],
+      ["OpenAI quota exceeded", false],
+      ["Unexpected response", true],
+    ]
+  );
+  assert.match(describe(new tmdb.AuthError("x", init)).message, /EXPO_PUBLIC_TMDB_API_KEY/);
+  assert.equal(describe(new tmdb.ApiError("x", { ...init, status: 500 })).message, "TMDB returned an error (500).");
+});
+
+test("describeError falls back for anything that isn't an ApiError", () => {
+  assert.deepEqual(tmdb.describeError(new Error("boom"), "Couldn't load"), {
+    title: "Couldn't load",
+    message: "boom",
+    canRetry: true,
+  });
+  assert.equal(tmdb.describeError("nope").title, "Something went wrong");
+  assert.equal(tmdb.describeError("nope").message, "Please try again.");
+});
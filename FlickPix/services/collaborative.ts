@@ -0,0 +1,222 @@
+/**
+ * Item-based collaborative filtering: movies are alike when the same people
+ * rate them alike, whoever those people are (other profiles on this device,
+ * raters in imported datasets). A user's ratings then predict how they'd
+ * rate movies they haven't seen.
+ *
+ * Pure functions; recommendations.ts builds the model and calls these.
+ */
+
+import type { RaterRating } from "./storage.ts";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** Positive item-to-item similarities in (0, 1], both directions stored. */
+export type ItemModel = Map<number, Map<number, number>>;
+
+export interface CollaborativeScore {
+  movieId: number;
+  deviation: number;    // Predicted rating minus the user's usual rating, in rating points
+  confidence: number;   // [0, 1]: how much similar-movie evidence backs it
+  because: number;      // The user's rated movie that contributed most
+}
+
+/** A rating of the user's own, weighted (e.g. by taste decay). */
+export interface WeightedRating {
+  movieId: number;
+  rating: number;
+  weight: number;
+}
+
+/**
+ * A rater's mean is pulled towards NEUTRAL_RATING as if they had also given
+ * PRIOR_RATINGS neutral ratings, so one 9/10 still reads as "liked".
+ */
+const NEUTRAL_RATING = 6.5;
+const PRIOR_RATINGS = 3;
+
+/** Co-raters a pair needs; similarity also shrinks by n / (n + SHRINKAGE). */
+const MIN_CO_RATERS = 2;
+const SHRINKAGE = 5;
+
+/** Per rater, only the strongest opinions count; keeps pair counting bounded. */
+const MAX_RATINGS_PER_RATER = 100;
+
+/** Most similar rated movies used per prediction. */
+const NEIGHBOURS = 20;
+
+/** Summed neighbour similarity at which a prediction is fully trusted. */
+const FULL_SUPPORT = 1;
+
+// ── Model ─────────────────────────────────────────────────────────────────
+
+function shrunkMean(ratings: number[]): number {
+  const sum = ratings.reduce((total, r) => total + r, 0);
+  return (sum + NEUTRAL_RATING * PRIOR_RATINGS) / (ratings.length + PRIOR_RATINGS);
+}
+
+/**
+ * Adjusted-cosine similarity between every pair of movies rated by at least
+ * MIN_CO_RATERS of the same people: each rater's ratings are centered on
+ * their own mean first, so a harsh and a generous rater can still agree.
+ */
+export function buildItemModel(ratings: RaterRating[]): ItemModel {
+  const byRater = new Map<string, { movieId: number; rating: number }[]>();
+  for (const { raterId, movieId, rating } of ratings) {
+    const list = byRater.get(raterId) ?? [];
+    list.push({ movieId, rating });
+    byRater.set(raterId, list);
+  }
+
+  // Per ordered pair a < b: dot product, both squared norms, co-raters
+  const pairs = new Map<number, Map<number, { dot: number; normA: number; normB: number; count: number }>>();
+  for (const list of byRater.values()) {
+    const mean = shrunkMean(list.map((r) => r.rating));
+    const centered = list
+      .map((r) => ({ movieId: r.movieId, deviation: r.rating - mean }))
+      .sort((x, y) => Math.abs(y.deviation) - Math.abs(x.deviation))
+      .slice(0, MAX_RATINGS_PER_RATER)
+      .sort((x, y) => x.movieId - y.movieId);
+    for (let i = 0; i < centered.length; i++) {
+      const a = centered[i];
+      const row = pairs.get(a.movieId) ?? new Map();
+      pairs.set(a.movieId, row);
+      for (let j = i + 1; j < centered.length; j++) {
+        const b = centered[j];
+        if (a.movieId === b.movieId) continue;
+        const pair = row.get(b.movieId) ?? { dot: 0, normA: 0, normB: 0, count: 0 };
+        pair.dot += a.deviation * b.deviation;
+        pair.normA += a.deviation ** 2;
+        pair.normB += b.deviation ** 2;
+        pair.count++;
+        row.set(b.movieId, pair);
+      }
+    }
+  }
+
+  const model: ItemModel = new Map();
+  const link = (from: number, to: number, similarity: number) => {
+    const neighbours = model.get(from) ?? new Map<number, number>();
+    neighbours.set(to, similarity);
+    model.set(from, neighbours);
+  };
+  for (const [a, row] of pairs) {
+    for (const [b, { dot, normA, normB, count }] of row) {
+      if (count < MIN_CO_RATERS || normA === 0 || normB === 0) continue;
+      const similarity = (dot / Math.sqrt(normA * normB)) * (count / (count + SHRINKAGE));
+      if (similarity <= 0) continue;
+      link(a, b, similarity);
+      link(b, a, similarity);
+    }
+  }
+  return model;
+}
+
+/**
+ * A cheap fingerprint of a ratings snapshot (FNV-1a over every rating), so
+ * a model built from it can be reused until the ratings change.
+ */
+export function fingerprintRatings(ratings: RaterRating[]): string {
+  let hash = 0x811c9dc5;
+  for (const { raterId, movieId, rating } of ratings) {
+    const entry = `${raterId}|${movieId}|${rating};`;
+    for (let i = 0; i < entry.length; i++) {
+      hash = Math.imul(hash ^ entry.charCodeAt(i), 0x01000193);
+    }
+  }
+  return `${ratings.length}:${(hash >>> 0).toString(36)}`;
+}
+
+// ── Prediction ────────────────────────────────────────────────────────────
+
+/**
+ * Predict the user's rating of every movie similar to one they rated, as a
+ * deviation from their usual rating: the similarity-weighted mean of their
+ * own deviations on the NEIGHBOURS most similar movies they rated. Movies
+ * they rated themselves are left out.
+ */
+export function predictScores(model: ItemModel, rated: WeightedRating[]): Map<number, CollaborativeScore> {
+  const mean = shrunkMean(rated.map((r) => r.rating));
+  const ratedIds = new Set(rated.map((r) => r.movieId));
+
+  // Candidate → the user's rated movies it's similar to
+  const evidence = new Map<number, { similarity: number; deviation: number; movieId: number }[]>();
+  for (const { movieId, rating, weight } of rated) {
+    for (const [candidate, similarity] of model.get(movieId) ?? []) {
+      if (ratedIds.has(candidate)) continue;
+      const list = evidence.get(candidate) ?? [];
+      list.push({ similarity: similarity * weight, deviation: rating - mean, movieId });
+      evidence.set(candidate, list);
+    }
+  }
+
+  const scores = new Map<number, CollaborativeScore>();
+  for (const [movieId, list] of evidence) {
+    const neighbours = list.sort((a, b) => b.similarity - a.similarity).slice(0, NEIGHBOURS);
+    const support = neighbours.reduce((sum, n) => sum + n.similarity, 0);
+    if (support <= 0) continue;
+    const best = neighbours.reduce((top, n) => (n.similarity * n.deviation > top.similarity * top.deviation ? n : top));
+    scores.set(movieId, {
+      movieId,
+      deviation: neighbours.reduce((sum, n) => sum + n.similarity * n.deviation, 0) / support,
+      confidence: Math.min(support / FULL_SUPPORT, 1),
+      because: best.movieId,
+    });
+  }
+  return scores;
+}
+
+// ── Import ────────────────────────────────────────────────────────────────
+
+export interface RatingsCsvOptions {
+  scale: number;    // Highest rating the file uses, e.g. 5 for MovieLens; mapped onto 1-10
+  links?: string;   // A MovieLens links.csv (movieId → tmdbId), for files without a tmdbId column
+}
+
+/** Header cells and data rows of a simple (unquoted-comma) CSV. */
+function readCsv(text: string): { columns: string[]; rows: string[][] } {
+  const [header, ...lines] = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+  const cells = (line: string) => line.split(",").map((c) => c.trim().replace(/^"|"$/g, ""));
+  return { columns: cells(header ?? ""), rows: lines.map(cells) };
+}
+
+/** MovieLens movieId → TMDB ID, from links.csv; movies without a TMDB ID are left out. */
+function readLinks(text: string): Map<string, number> {
+  const { columns, rows } = readCsv(text);
+  const movie = columns.indexOf("movieId");
+  const tmdb = columns.indexOf("tmdbId");
+  if (movie < 0 || tmdb < 0) throw new Error("Links CSV needs movieId and tmdbId columns");
+  return new Map(rows.map((cells) => [cells[movie], Number(cells[tmdb])]));
+}
+
+/**
+ * Parse a ratings CSV with a header row naming `userId` (or `raterId`),
+ * `tmdbId` and `rating` columns. A MovieLens ratings.csv only has its own
+ * `movieId`s, so it needs `links` to find the TMDB ones. Ratings run from
+ * 0 to `scale` and are mapped onto 1-10. Rows that don't parse, are off the
+ * scale or have no TMDB ID are skipped.
+ */
+export function parseRatingsCsv(text: string, options: RatingsCsvOptions): RaterRating[] {
+  const { scale, links } = options;
+  if (!(scale > 0)) throw new Error(`Invalid rating scale: ${scale}`);
+  const { columns, rows } = readCsv(text);
+  const rater = columns.findIndex((c) => c === "userId" || c === "raterId");
+  const rating = columns.indexOf("rating");
+  const tmdb = columns.indexOf("tmdbId");
+  const movie = columns.indexOf("movieId");
+  if (rater < 0 || rating < 0 || (tmdb < 0 && movie < 0)) {
+    throw new Error("Ratings CSV needs userId, tmdbId (or movieId with links) and rating columns");
+  }
+  if (tmdb < 0 && !links) {
+    throw new Error("Ratings CSV has no tmdbId column; its movieIds need a links.csv to map them");
+  }
+  const tmdbIds = tmdb < 0 ? readLinks(links!) : null;
+
+  return rows.flatMap((cells) => {
+    const movieId = tmdbIds ? tmdbIds.get(cells[movie]) ?? NaN : Number(cells[tmdb]);
+    const value = Number(cells[rating]);
+    if (!cells[rater] || !Number.isInteger(movieId) || movieId <= 0) return [];
+    if (!Number.isFinite(value) || value <= 0 || value > scale) return [];
+    return [{ raterId: cells[rater], movieId, rating: Math.max((value / scale) * 10, 1) }];
+  });
+}
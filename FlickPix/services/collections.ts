@@ -0,0 +1,155 @@
+/**
+ * Franchise tracking: which entries of a TMDB collection the user has seen,
+ * and which franchises they started but haven't finished.
+ *
+ * Frontend integration:
+ *   import { getCollectionProgress, getUnfinishedFranchises } from '@/services/collections';
+ *   const progress = await getCollectionProgress(movie.belongs_to_collection.id);
+ *   const unfinished = await getUnfinishedFranchises();
+ */
+
+import * as tmdb from "./tmdb.ts";
+import * as storage from "./storage.ts";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface CollectionEntry {
+  movie: tmdb.MovieSummary;
+  released: boolean;
+  rating: number | null;   // The user's rating; null when unwatched
+}
+
+export interface FranchiseProgress {
+  collection: tmdb.CollectionSummary;
+  entries: CollectionEntry[];        // Release order, unreleased last
+  watchedCount: number;
+  releasedCount: number;
+  next: tmdb.MovieSummary | null;    // First released entry the user hasn't seen
+  lastWatchedAt: string | null;      // ISO date of the most recent entry watched
+}
+
+/**
+ * Everything the franchise lookups read. Defaults to local storage and the
+ * TMDB client; tests pass in-memory stubs.
+ */
+export interface CollectionSources {
+  getWatchHistory: () => Promise<storage.WatchedMovie[]>;
+  getMovieDetails: (movieId: number, options?: tmdb.RequestOptions) => Promise<tmdb.MovieDetails>;
+  getCollection: (collectionId: number, options?: tmdb.RequestOptions) => Promise<tmdb.Collection>;
+}
+
+const defaultSources: CollectionSources = {
+  getWatchHistory: storage.getWatchHistory,
+  getMovieDetails: tmdb.getMovieDetails,
+  getCollection: tmdb.getCollection,
+};
+
+export interface CollectionOptions extends tmdb.RequestOptions {
+  sources?: Partial<CollectionSources>;
+  today?: Date;   // Decides what counts as released (default: now)
+}
+
+// ── Progress ──────────────────────────────────────────────────────────────
+
+function isReleased(movie: tmdb.MovieSummary, today: Date): boolean {
+  return Boolean(movie.release_date) && new Date(movie.release_date) <= today;
+}
+
+/**
+ * Put a collection's parts in release order and mark what the user has seen.
+ */
+export function summarizeCollection(
+  collection: tmdb.Collection,
+  history: storage.WatchedMovie[],
+  today: Date = new Date()
+): FranchiseProgress {
+  const byMovie = new Map(history.map((m) => [m.movieId, m]));
+  const parts = [...collection.parts].sort((a, b) => {
+    if (!a.release_date) return b.release_date ? 1 : 0;
+    if (!b.release_date) return -1;
+    return a.release_date.localeCompare(b.release_date);
+  });
+
+  const entries = parts.map((movie) => ({
+    movie,
+    released: isReleased(movie, today),
+    rating: byMovie.get(movie.id)?.rating ?? null,
+  }));
+  const watchedDates = parts
+    .map((p) => byMovie.get(p.id)?.watchedAt)
+    .filter((d): d is string => Boolean(d))
+    .sort();
+
+  return {
+    collection: {
+      id: collection.id,
+      name: collection.name,
+      poster_path: collection.poster_path,
+      backdrop_path: collection.backdrop_path,
+    },
+    entries,
+    watchedCount: entries.filter((e) => e.rating !== null).length,
+    releasedCount: entries.filter((e) => e.released).length,
+    next: entries.find((e) => e.released && e.rating === null)?.movie ?? null,
+    lastWatchedAt: watchedDates[watchedDates.length - 1] ?? null,
+  };
+}
+
+/** Progress through one collection. */
+export async function getCollectionProgress(
+  collectionId: number,
+  options: CollectionOptions = {}
+): Promise<FranchiseProgress> {
+  const { sources: overrides, today, ...requestOptions } = options;
+  const sources = { ...defaultSources, ...overrides };
+  const [collection, history] = await Promise.all([
+    sources.getCollection(collectionId, requestOptions),
+    sources.getWatchHistory(),
+  ]);
+  return summarizeCollection(collection, history, today);
+}
+
+// ── Unfinished franchises ─────────────────────────────────────────────────
+
+/**
+ * Franchises with at least one entry watched and a released entry still to
+ * go, most recently active first.
+ *
+ * Movies rated before collections were tracked have no collectionId stored,
+ * so their details are looked up (and served from the response cache after
+ * the first time).
+ */
+export async function getUnfinishedFranchises(options: CollectionOptions = {}): Promise<FranchiseProgress[]> {
+  const { sources: overrides, today, ...requestOptions } = options;
+  const sources = { ...defaultSources, ...overrides };
+  const history = await sources.getWatchHistory();
+
+  const collectionIds = await Promise.all(
+    history.map(async (movie) => {
+      if (movie.collectionId !== undefined) return movie.collectionId;
+      try {
+        const details = await sources.getMovieDetails(movie.movieId, requestOptions);
+        return details.belongs_to_collection?.id ?? null;
+      } catch (err) {
+        if (tmdb.isAbortError(err)) throw err;
+        return null; // One missing movie shouldn't hide every other franchise
+      }
+    })
+  );
+  const uniqueIds = [...new Set(collectionIds.filter((id): id is number => id !== null))];
+
+  const collections = await Promise.all(
+    uniqueIds.map((id) =>
+      sources.getCollection(id, requestOptions).catch((err) => {
+        if (tmdb.isAbortError(err)) throw err;
+        return null;
+      })
+    )
+  );
+
+  return collections
+    .filter((c): c is tmdb.Collection => c !== null)
+    .map((c) => summarizeCollection(c, history, today))
+    .filter((p) => p.watchedCount > 0 && p.next !== null)
+    .sort((a, b) => (b.lastWatchedAt ?? "").localeCompare(a.lastWatchedAt ?? ""));
+}
@@ -0,0 +1,213 @@
+/**
+ * Taste compatibility: how alike two profiles on this device rate movies,
+ * the films they agree and disagree on most, and a few picks for both.
+ *
+ * Frontend integration:
+ *   import { getTasteCompatibility } from '@/services/compatibility';
+ *   const compatibility = await getTasteCompatibility(getActiveUserId(), "sarah");
+ */
+
+import * as storage from "./storage.ts";
+import { getGroupRecommendations, type GroupRecommendation } from "./recommendations.ts";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** A movie both people rated. */
+export interface SharedRating {
+  movieId: number;
+  title: string;
+  posterPath: string | null;
+  ratings: [number, number];   // First user's, then second user's
+}
+
+export interface TasteComparison {
+  score: number;                  // 0–100
+  shared: number;                 // Movies both have rated
+  overlap: number;                // Shared movies as a share of everything either rated, in [0, 1]
+  correlation: number | null;     // Pearson correlation of shared ratings; null with too few to tell
+  genreDistance: number;          // 0 = same genre tastes, 1 = nothing in common
+  agreements: SharedRating[];     // Rated closest, best-loved first
+  disagreements: SharedRating[];  // Rated furthest apart
+}
+
+export interface TasteCompatibility extends TasteComparison {
+  users: [{ id: string; name: string }, { id: string; name: string }];
+  picks: GroupRecommendation[];   // Films both should like; empty if they couldn't load
+}
+
+/**
+ * Everything the compatibility lookup reads. Defaults to local storage and
+ * the recommendation engine; tests pass in-memory stubs.
+ */
+export interface CompatibilitySources {
+  getUserData: (userId: string) => Promise<storage.UserData>;
+  getGroupRecommendations: typeof getGroupRecommendations;
+}
+
+const defaultSources: CompatibilitySources = {
+  getUserData: storage.getUserData,
+  getGroupRecommendations,
+};
+
+export interface CompatibilityOptions {
+  picks?: number;     // "You'd both like" picks (default 3)
+  examples?: number;  // Agreements and disagreements each (default 3)
+  sources?: Partial<CompatibilitySources>;
+}
+
+/** Share of the score from each part; they sum to 1. */
+const COMPATIBILITY_WEIGHTS = {
+  genres: 0.5,
+  ratings: 0.35,
+  overlap: 0.15,
+};
+
+/** Shared movies needed before rating correlation means anything. */
+const MIN_SHARED_FOR_CORRELATION = 3;
+
+/** Ratings this far apart make a disagreement. */
+const DISAGREE_AT = 3;
+
+// ── Comparison ────────────────────────────────────────────────────────────
+
+/** Pearson correlation, or null when either side doesn't vary. */
+function pearson(xs: number[], ys: number[]): number | null {
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * How much a history likes each genre: every movie counts towards its
+ * genres by how far it's rated above 5, as in the taste drift.
+ */
+function genreVector(history: storage.WatchedMovie[]): Map<number, number> {
+  const vector = new Map<number, number>();
+  for (const movie of history) {
+    const weight = Math.max(movie.rating - 5, 0);
+    for (const genreId of movie.genres) vector.set(genreId, (vector.get(genreId) ?? 0) + weight);
+  }
+  return vector;
+}
+
+/** 1 - cosine similarity; 1 when either side has nothing rated above 5. */
+function genreDistance(a: Map<number, number>, b: Map<number, number>): number {
+  let dot = 0;
+  for (const [genreId, weight] of a) dot += weight * (b.get(genreId) ?? 0);
+  const norm = (v: Map<number, number>) => Math.sqrt([...v.values()].reduce((sum, w) => sum + w * w, 0));
+  const norms = norm(a) * norm(b);
+  return norms > 0 ? 1 - dot / norms : 1;
+}
+
+/**
+ * Compare two rating histories. The score leans on genre tastes, which
+ * always work; rating correlation only counts once they share enough
+ * movies, and until then its weight goes to genres.
+ */
+export function compareTastes(
+  a: storage.WatchedMovie[],
+  b: storage.WatchedMovie[],
+  examples = 3
+): TasteComparison {
+  const ratingsB = new Map(b.map((m) => [m.movieId, m.rating]));
+  const shared: SharedRating[] = a
+    .filter((m) => ratingsB.has(m.movieId))
+    .map((m) => ({
+      movieId: m.movieId,
+      title: m.title,
+      posterPath: m.posterPath ?? null,
+      ratings: [m.rating, ratingsB.get(m.movieId)!],
+    }));
+  const union = new Set([...a, ...b].map((m) => m.movieId)).size;
+  const overlap = union > 0 ? shared.length / union : 0;
+
+  const correlation =
+    shared.length >= MIN_SHARED_FOR_CORRELATION
+      ? pearson(shared.map((s) => s.ratings[0]), shared.map((s) => s.ratings[1]))
+      : null;
+  const distance = genreDistance(genreVector(a), genreVector(b));
+
+  const gap = (s: SharedRating) => Math.abs(s.ratings[0] - s.ratings[1]);
+  const agreements = [...shared]
+    .sort((x, y) => gap(x) - gap(y) || y.ratings[0] + y.ratings[1] - (x.ratings[0] + x.ratings[1]))
+    .filter((s) => gap(s) < DISAGREE_AT)
+    .slice(0, examples);
+  const disagreements = [...shared]
+    .filter((s) => gap(s) >= DISAGREE_AT)
+    .sort((x, y) => gap(y) - gap(x))
+    .slice(0, examples);
+
+  const genres = 1 - distance;
+  const raw =
+    correlation === null
+      ? genres * (COMPATIBILITY_WEIGHTS.genres + COMPATIBILITY_WEIGHTS.ratings)
+      : genres * COMPATIBILITY_WEIGHTS.genres + ((correlation + 1) / 2) * COMPATIBILITY_WEIGHTS.ratings;
+  const score = raw + overlap * COMPATIBILITY_WEIGHTS.overlap;
+
+  return {
+    score: Math.round(Math.min(Math.max(score, 0), 1) * 100),
+    shared: shared.length,
+    overlap,
+    correlation,
+    genreDistance: distance,
+    agreements,
+    disagreements,
+  };
+}
+
+// ── Partner ───────────────────────────────────────────────────────────────
+
+/**
+ * Who to compare the active user with: the one chosen if they're still
+ * someone else on this device, otherwise the first other profile. Keeps a
+ * stale choice (e.g. the profile just switched to) from being compared with
+ * itself. Null when there's nobody else.
+ */
+export function comparisonPartner(
+  users: { id: string }[],
+  activeUserId: string,
+  chosenId: string | null
+): string | null {
+  const others = users.filter((u) => u.id !== activeUserId);
+  return others.some((u) => u.id === chosenId) ? chosenId : others[0]?.id ?? null;
+}
+
+// ── Lookup ────────────────────────────────────────────────────────────────
+
+/**
+ * Compare two profiles on this device, with picks from the group
+ * recommender that neither has seen. The picks are extras: if they fail,
+ * the comparison still comes back.
+ */
+export async function getTasteCompatibility(
+  userIdA: string,
+  userIdB: string,
+  options: CompatibilityOptions = {}
+): Promise<TasteCompatibility> {
+  const { picks: pickCount = 3, examples = 3 } = options;
+  const sources = { ...defaultSources, ...options.sources };
+  if (userIdA === userIdB) {
+    throw new Error("Compatibility needs two different users");
+  }
+
+  const [a, b] = await Promise.all([sources.getUserData(userIdA), sources.getUserData(userIdB)]);
+  const comparison = compareTastes(a.profile.watchHistory, b.profile.watchHistory, examples);
+  const picks = await sources
+    .getGroupRecommendations([a.id, b.id], { limit: pickCount, strategy: "leastMisery" })
+    .catch(() => []);
+
+  return {
+    ...comparison,
+    users: [{ id: a.id, name: a.name }, { id: b.id, name: b.name }],
+    picks,
+  };
+}
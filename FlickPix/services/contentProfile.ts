@@ -0,0 +1,138 @@
+/**
+ * Content profile: the keywords, directors and lead cast that show up in the
+ * movies a user loved (or disliked), and how closely a candidate matches them.
+ *
+ * Pure functions; recommendations.ts fetches the TMDB data and calls these.
+ */
+
+import type { Credits, Keyword } from "./tmdb.ts";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type FeatureKind = "keyword" | "director" | "cast";
+
+export interface ContentFeature {
+  kind: FeatureKind;
+  id: number;
+  name: string;
+}
+
+/** The TMDB data a movie's features are read from. */
+export interface MovieContent {
+  keywords: Keyword[];
+  credits: Credits;
+  originalLanguage?: string;   // ISO 639-1; not a feature, but rails group by it
+  collectionId?: number | null;  // Not a feature either; used to spread out franchises
+  releaseDate?: string;          // Nor this; tells the engine which era the user watches
+}
+
+/** Weighted features, keyed by featureKey(). */
+export type ContentProfile = Map<string, ContentFeature & { weight: number }>;
+
+export interface ContentMatch {
+  similarity: number;               // Cosine similarity in [0, 1]
+  contributors: ContentFeature[];   // Matched features, biggest contribution first
+}
+
+/** A director match says more about taste than a shared keyword. */
+const KIND_WEIGHTS: Record<FeatureKind, number> = {
+  keyword: 1,
+  director: 2,
+  cast: 1.5,
+};
+
+/** Only top-billed actors; deep cast lists are mostly noise. */
+const LEAD_CAST = 5;
+
+// ── Features ──────────────────────────────────────────────────────────────
+
+function featureKey(feature: ContentFeature): string {
+  return `${feature.kind}:${feature.id}`;
+}
+
+/** Keywords, directors and lead cast of one movie, without duplicates. */
+export function extractFeatures(content: MovieContent): ContentFeature[] {
+  const features = new Map<string, ContentFeature>();
+  const add = (feature: ContentFeature) => features.set(featureKey(feature), feature);
+
+  for (const k of content.keywords) add({ kind: "keyword", id: k.id, name: k.name });
+  for (const c of content.credits.crew) {
+    if (c.job === "Director") add({ kind: "director", id: c.id, name: c.name });
+  }
+  [...content.credits.cast]
+    .sort((a, b) => a.order - b.order)
+    .slice(0, LEAD_CAST)
+    .forEach((c) => add({ kind: "cast", id: c.id, name: c.name }));
+
+  return [...features.values()];
+}
+
+// ── Profile ───────────────────────────────────────────────────────────────
+
+/**
+ * Sum features across movies, each counting by its weight (how strongly it
+ * was loved or disliked). Movies with weight 0 or less are ignored.
+ */
+export function buildContentProfile(movies: { features: ContentFeature[]; weight: number }[]): ContentProfile {
+  const profile: ContentProfile = new Map();
+  for (const { features, weight } of movies) {
+    if (weight <= 0) continue;
+    for (const feature of features) {
+      const key = featureKey(feature);
+      const existing = profile.get(key);
+      if (existing) existing.weight += weight;
+      else profile.set(key, { ...feature, weight });
+    }
+  }
+  return profile;
+}
+
+/**
+ * Cosine similarity between a candidate's features and the profile, with
+ * each feature scaled by its kind weight.
+ */
+export function scoreContent(profile: ContentProfile, features: ContentFeature[]): ContentMatch {
+  if (profile.size === 0 || features.length === 0) return { similarity: 0, contributors: [] };
+
+  let profileNorm = 0;
+  for (const f of profile.values()) profileNorm += (f.weight * KIND_WEIGHTS[f.kind]) ** 2;
+  let candidateNorm = 0;
+  for (const f of features) candidateNorm += KIND_WEIGHTS[f.kind] ** 2;
+  const norm = Math.sqrt(profileNorm) * Math.sqrt(candidateNorm);
+
+  const matches: { feature: ContentFeature; contribution: number }[] = [];
+  for (const feature of features) {
+    const match = profile.get(featureKey(feature));
+    if (!match) continue;
+    const contribution = (match.weight * KIND_WEIGHTS[feature.kind] * KIND_WEIGHTS[feature.kind]) / norm;
+    matches.push({ feature, contribution });
+  }
+  matches.sort((a, b) => b.contribution - a.contribution);
+
+  return {
+    similarity: matches.reduce((sum, m) => sum + m.contribution, 0),
+    contributors: matches.map((m) => m.feature),
+  };
+}
+
+/**
+ * Short explanation from the top contributors, e.g.
+ * "Directed by Christopher Nolan, about dream and heist".
+ */
+export function describeContentMatch(contributors: ContentFeature[], max = 3): string | null {
+  const top = contributors.slice(0, max);
+  if (top.length === 0) return null;
+
+  const names = (kind: FeatureKind) => {
+    const list = top.filter((f) => f.kind === kind).map((f) => f.name);
+    return list.length > 1 ? `${list.slice(0, -1).join(", ")} and ${list[list.length - 1]}` : list[0];
+  };
+  const parts = [
+    names("director") && `directed by ${names("director")}`,
+    names("cast") && `starring ${names("cast")}`,
+    names("keyword") && `about ${names("keyword")}`,
+  ].filter(Boolean) as string[];
+
+  const text = parts.join(", ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
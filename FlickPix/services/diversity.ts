@@ -0,0 +1,108 @@
+/**
+ * Diversity re-ranking: maximal marginal relevance over a scored pool, so a
+ * list isn't five films from the same sub-genre, decade or franchise.
+ *
+ * Pure functions; recommendations.ts scores candidates and calls these.
+ */
+
+import type { Random } from "./random.ts";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** What two movies are compared on. */
+export interface DiversityTraits {
+  genreIds: number[];
+  releaseDate: string;
+  originalLanguage?: string;
+  collectionId?: number | null;   // Only known once details are loaded
+}
+
+export interface RankedItem<T> {
+  item: T;
+  score: number;
+  traits: DiversityTraits;
+}
+
+/**
+ * How much each shared trait counts towards similarity; they sum to 1. A
+ * shared franchise is the strongest sign two picks are redundant.
+ */
+const TRAIT_WEIGHTS = {
+  genres: 0.4,
+  decade: 0.15,
+  language: 0.15,
+  collection: 0.3,
+};
+
+/**
+ * Random nudge to relevance at full diversity, so refreshes vary among
+ * near-equal picks; it shrinks with diversity and is gone at 0.
+ */
+const JITTER = 0.15;
+
+// ── Similarity ────────────────────────────────────────────────────────────
+
+function decade(releaseDate: string): number | null {
+  const year = parseInt(releaseDate?.slice(0, 4));
+  return Number.isNaN(year) ? null : Math.floor(year / 10);
+}
+
+/** Similarity in [0, 1]: genre overlap (Jaccard) plus shared decade, language and collection. */
+export function traitSimilarity(a: DiversityTraits, b: DiversityTraits): number {
+  const union = new Set([...a.genreIds, ...b.genreIds]).size;
+  const shared = a.genreIds.filter((g) => b.genreIds.includes(g)).length;
+  const decadeA = decade(a.releaseDate);
+
+  return (
+    (union > 0 ? shared / union : 0) * TRAIT_WEIGHTS.genres +
+    (decadeA !== null && decadeA === decade(b.releaseDate) ? TRAIT_WEIGHTS.decade : 0) +
+    (a.originalLanguage && a.originalLanguage === b.originalLanguage ? TRAIT_WEIGHTS.language : 0) +
+    (a.collectionId && a.collectionId === b.collectionId ? TRAIT_WEIGHTS.collection : 0)
+  );
+}
+
+// ── Re-ranking ────────────────────────────────────────────────────────────
+
+/**
+ * Pick `limit` items one at a time, each maximizing
+ * (1 - diversity) * relevance - diversity * (similarity to the closest pick so far).
+ * Relevance is the score rescaled to [0, 1] within the pool. Diversity 0
+ * keeps score order; 1 spreads picks as far apart as possible.
+ */
+export function diversify<T>(
+  pool: RankedItem<T>[],
+  limit: number,
+  diversity: number,
+  random: Random
+): T[] {
+  const lambda = Math.min(Math.max(diversity, 0), 1);
+  const scores = pool.map((p) => p.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min || 1;
+
+  const remaining = pool.map((p) => ({
+    ...p,
+    relevance: (p.score - min) / range + random() * JITTER * lambda,
+    closest: 0,   // Highest similarity to anything already picked
+  }));
+  const picked: T[] = [];
+
+  while (picked.length < limit && remaining.length > 0) {
+    let best = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((candidate, i) => {
+      const value = (1 - lambda) * candidate.relevance - lambda * candidate.closest;
+      if (value > bestValue) {
+        best = i;
+        bestValue = value;
+      }
+    });
+
+    const [choice] = remaining.splice(best, 1);
+    picked.push(choice.item);
+    for (const candidate of remaining) {
+      candidate.closest = Math.max(candidate.closest, traitSimilarity(candidate.traits, choice.traits));
+    }
+  }
+  return picked;
+}
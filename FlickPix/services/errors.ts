@@ -0,0 +1,248 @@
+/**
+ * Structured errors for TMDB and OpenAI failures.
+ *
+ * Every failed request surfaces as an ApiError subclass carrying the HTTP
+ * status, the endpoint and whether trying again could help, so screens can
+ * show a specific message instead of a raw response body.
+ *
+ * Frontend integration:
+ *   import { describeError } from '@/services/tmdb';
+ *   catch (e) { setError(describeError(e, "Couldn't load recommendations")); }
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type ApiService = "tmdb" | "openai";
+
+export type ApiErrorKind =
+  | "auth"
+  | "not_found"
+  | "rate_limited"
+  | "network"
+  | "quota"
+  | "malformed"
+  | "http";
+
+interface ApiErrorInit {
+  service: ApiService;
+  endpoint: string;
+  status?: number | null;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+export interface ErrorDisplay {
+  title: string;
+  message: string;
+  canRetry: boolean;
+}
+
+// ── Error classes ──────────────────────────────────────────────────────────
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind = "http";
+  readonly service: ApiService;
+  readonly endpoint: string;
+  readonly status: number | null;
+  readonly retryable: boolean;
+
+  constructor(message: string, init: ApiErrorInit) {
+    super(message);
+    this.name = "ApiError";
+    this.service = init.service;
+    this.endpoint = init.endpoint;
+    this.status = init.status ?? null;
+    this.retryable = init.retryable ?? (this.status !== null && this.status >= 500);
+    if (init.cause !== undefined) (this as { cause?: unknown }).cause = init.cause;
+  }
+}
+
+/** Missing, invalid or revoked API key (401/403). */
+export class AuthError extends ApiError {
+  readonly kind = "auth";
+
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, { ...init, retryable: false });
+    this.name = "AuthError";
+  }
+}
+
+/** The requested resource doesn't exist (404). */
+export class NotFoundError extends ApiError {
+  readonly kind = "not_found";
+
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, { ...init, retryable: false });
+    this.name = "NotFoundError";
+  }
+}
+
+/** Too many requests (429). retryAfterMs comes from the Retry-After header. */
+export class RateLimitError extends ApiError {
+  readonly kind = "rate_limited";
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, init: ApiErrorInit & { retryAfterMs?: number | null }) {
+    super(message, { ...init, retryable: true });
+    this.name = "RateLimitError";
+    this.retryAfterMs = init.retryAfterMs ?? null;
+  }
+}
+
+/** The request never got a response: offline, DNS failure or timeout. */
+export class NetworkError extends ApiError {
+  readonly kind = "network";
+  readonly timedOut: boolean;
+
+  constructor(message: string, init: ApiErrorInit & { timedOut?: boolean }) {
+    super(message, { ...init, status: null, retryable: true });
+    this.name = "NetworkError";
+    this.timedOut = init.timedOut ?? false;
+  }
+}
+
+/** The account has run out of credits (OpenAI insufficient_quota). */
+export class QuotaExceededError extends ApiError {
+  readonly kind = "quota";
+
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, { ...init, retryable: false });
+    this.name = "QuotaExceededError";
+  }
+}
+
+/** The response arrived but couldn't be parsed into what we expected. */
+export class MalformedResponseError extends ApiError {
+  readonly kind = "malformed";
+
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, { ...init, retryable: init.retryable ?? false });
+    this.name = "MalformedResponseError";
+  }
+}
+
+/**
+ * The caller cancelled the request through its AbortSignal. Not a failure,
+ * so it isn't an ApiError; screens should simply ignore it.
+ */
+export class RequestAbortedError extends Error {
+  readonly endpoint: string;
+
+  constructor(endpoint: string) {
+    super(`Request aborted: ${endpoint}`);
+    // Same name fetch uses, so one check covers both
+    this.name = "AbortError";
+    this.endpoint = endpoint;
+  }
+}
+
+/** True for our RequestAbortedError and for fetch's own AbortError. */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Pull a human-readable message out of a TMDB/OpenAI error body. */
+function bodyMessage(body: string): string {
+  try {
+    const parsed = JSON.parse(body) as {
+      status_message?: string;
+      error?: { message?: string };
+    };
+    return parsed.status_message ?? parsed.error?.message ?? body;
+  } catch {
+    return body;
+  }
+}
+
+function bodyErrorCode(body: string): string | null {
+  try {
+    const parsed = JSON.parse(body) as { error?: { code?: string; type?: string } };
+    return parsed.error?.code ?? parsed.error?.type ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map a non-OK HTTP response onto the matching error class.
+ */
+export function errorFromResponse(
+  service: ApiService,
+  endpoint: string,
+  status: number,
+  body: string,
+  retryAfterMs: number | null = null
+): ApiError {
+  const label = service === "tmdb" ? "TMDB" : "OpenAI";
+  const message = `${label} ${status}: ${bodyMessage(body)}`;
+  const init = { service, endpoint, status };
+
+  if (status === 401 || status === 403) return new AuthError(message, init);
+  if (status === 404) return new NotFoundError(message, init);
+  if (status === 429) {
+    if (bodyErrorCode(body) === "insufficient_quota") return new QuotaExceededError(message, init);
+    return new RateLimitError(message, { ...init, retryAfterMs });
+  }
+  return new ApiError(message, init);
+}
+
+/**
+ * Turn any thrown value into a title/message pair suitable for the UI.
+ */
+export function describeError(error: unknown, fallbackTitle = "Something went wrong"): ErrorDisplay {
+  if (!(error instanceof ApiError)) {
+    return {
+      title: fallbackTitle,
+      message: error instanceof Error ? error.message : "Please try again.",
+      canRetry: true,
+    };
+  }
+
+  const label = error.service === "tmdb" ? "TMDB" : "OpenAI";
+  const envVar = error.service === "tmdb" ? "EXPO_PUBLIC_TMDB_API_KEY" : "EXPO_PUBLIC_OPENAI_API_KEY";
+
+  switch (error.kind) {
+    case "auth":
+      return {
+        title: `${label} key missing or invalid`,
+        message: `Check ${envVar} in your .env file and restart the app.`,
+        canRetry: false,
+      };
+    case "not_found":
+      return {
+        title: "Not found",
+        message: `${label} doesn't have this item anymore.`,
+        canRetry: false,
+      };
+    case "rate_limited":
+      return {
+        title: "Too many requests",
+        message: `${label} is limiting requests right now. Wait a few seconds and try again.`,
+        canRetry: true,
+      };
+    case "network":
+      return (error as NetworkError).timedOut
+        ? { title: "Request timed out", message: `${label} took too long to respond. Try again.`, canRetry: true }
+        : { title: "You're offline", message: "Check your internet connection and try again.", canRetry: true };
+    case "quota":
+      return {
+        title: "OpenAI quota exceeded",
+        message: "Add billing credits at platform.openai.com, then try again.",
+        canRetry: false,
+      };
+    case "malformed":
+      return {
+        title: "Unexpected response",
+        message: `${label} sent something we couldn't read. Try again in a moment.`,
+        canRetry: true,
+      };
+    default:
+      return {
+        title: fallbackTitle,
+        message: error.status ? `${label} returned an error (${error.status}).` : error.message,
+        canRetry: error.retryable,
+      };
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Per-user language and region for TMDB.
+ *
+ * The setting lives in the user's preferences (storage.ts); the TMDB client
+ * holds the copy that is sent with every request. applyUserLocale() keeps the
+ * two in sync — call it on startup and whenever the active user changes.
+ *
+ * Frontend integration:
+ *   import { applyUserLocale, updateUserLocale } from '@/services/locale';
+ *   await applyUserLocale();
+ *   await updateUserLocale({ language: 'fr-FR', region: 'FR' });
+ */
+
+import * as tmdb from "./tmdb.ts";
+import * as storage from "./storage.ts";
+
+// ── Options ───────────────────────────────────────────────────────────────
+
+export interface LanguageOption {
+  code: string;   // TMDB language tag
+  label: string;  // Shown in its own language
+}
+
+export interface RegionOption {
+  code: string;   // ISO 3166-1
+  label: string;
+}
+
+/** Languages with good TMDB translation coverage. */
+export const SUPPORTED_LANGUAGES: LanguageOption[] = [
+  { code: "en-US", label: "English (US)" },
+  { code: "en-GB", label: "English (UK)" },
+  { code: "es-ES", label: "Español" },
+  { code: "es-MX", label: "Español (México)" },
+  { code: "fr-FR", label: "Français" },
+  { code: "de-DE", label: "Deutsch" },
+  { code: "it-IT", label: "Italiano" },
+  { code: "pt-BR", label: "Português (Brasil)" },
+  { code: "nl-NL", label: "Nederlands" },
+  { code: "sv-SE", label: "Svenska" },
+  { code: "pl-PL", label: "Polski" },
+  { code: "tr-TR", label: "Türkçe" },
+  { code: "ru-RU", label: "Русский" },
+  { code: "hi-IN", label: "हिन्दी" },
+  { code: "ja-JP", label: "日本語" },
+  { code: "ko-KR", label: "한국어" },
+  { code: "zh-CN", label: "中文 (简体)" },
+];
+
+export const SUPPORTED_REGIONS: RegionOption[] = [
+  { code: "US", label: "United States" },
+  { code: "GB", label: "United Kingdom" },
+  { code: "CA", label: "Canada" },
+  { code: "AU", label: "Australia" },
+  { code: "IN", label: "India" },
+  { code: "DE", label: "Germany" },
+  { code: "FR", label: "France" },
+  { code: "ES", label: "Spain" },
+  { code: "IT", label: "Italy" },
+  { code: "NL", label: "Netherlands" },
+  { code: "SE", label: "Sweden" },
+  { code: "PL", label: "Poland" },
+  { code: "TR", label: "Turkey" },
+  { code: "BR", label: "Brazil" },
+  { code: "MX", label: "Mexico" },
+  { code: "JP", label: "Japan" },
+  { code: "KR", label: "South Korea" },
+  { code: "CN", label: "China" },
+];
+
+export function languageLabel(code: string): string {
+  return SUPPORTED_LANGUAGES.find((l) => l.code === code)?.label ?? code;
+}
+
+// ── Sync ──────────────────────────────────────────────────────────────────
+
+/**
+ * Load the active user's language and region into the TMDB client.
+ */
+export async function applyUserLocale(): Promise<storage.LocaleSettings> {
+  const settings = await storage.getLocaleSettings();
+  tmdb.setLocale(settings);
+  return settings;
+}
+
+/**
+ * Save new locale settings for the active user and start using them.
+ */
+export async function updateUserLocale(settings: Partial<storage.LocaleSettings>): Promise<storage.LocaleSettings> {
+  await storage.updateLocaleSettings(settings);
+  return applyUserLocale();
+}
@@ -0,0 +1,115 @@
+/**
+ * Match score: how well a recommendation fits the user, as a percentage,
+ * plus the parts it was built from so the UI can explain it.
+ *
+ * Pure functions; recommendations.ts gathers the inputs and calls these.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** Each part is in [0, 1]; penalties are subtracted. */
+export interface MatchBreakdown {
+  genreAffinity: number;    // How much the user loves this movie's genres
+  collaborative: number;    // How much people who rate like the user liked it; 0.5 = no opinion
+  content: number;          // Keywords, directors and cast in common with loved movies
+  quality: number;          // TMDB rating, discounted when few people voted
+  popularity: number;
+  dislikePenalty: number;   // Shared genres/people with disliked or hidden movies
+  recencyPenalty: number;   // Much older than what the user usually watches
+  weights: Record<keyof typeof MATCH_WEIGHTS, number>;  // Share each part actually had
+  score: number;            // 0–100
+}
+
+export interface MatchInputs {
+  genreIds: number[];
+  genreAffinity: Record<number, number>;  // Per genre, 1 = the user's favorite
+  contentSimilarity: number;              // Cosine similarity from scoreContent()
+  prediction?: { deviation: number; confidence: number } | null;  // From similar raters, if any
+  seeded: boolean;                        // TMDB lists it as like a loved movie
+  voteAverage: number;
+  voteCount: number;
+  popularity: number;
+  dislikePoints: number;                  // Ranking points lost to dislikes (>= 0)
+  recencyPoints: number;                  // Ranking points lost to age (>= 0)
+}
+
+/**
+ * Share of the score from each part; they sum to 1. Without a prediction
+ * from similar raters, the collaborative share goes to genres; with one, it
+ * counts as far as the prediction is trusted.
+ */
+export const MATCH_WEIGHTS = {
+  genreAffinity: 0.25,
+  collaborative: 0.1,
+  content: 0.3,
+  quality: 0.25,
+  popularity: 0.1,
+};
+
+/** Content similarity that already counts as a perfect match; real cosines rarely pass 0.5. */
+const FULL_CONTENT_MATCH = 0.4;
+
+/** Content credit for being on TMDB's list for a loved movie. */
+const SEEDED_CONTENT = 0.5;
+
+/** A predicted rating this many points above (below) the user's usual one is a full (empty) part. */
+const FULL_PREDICTED_DEVIATION = 2;
+
+/** Quality is shrunk towards PRIOR_RATING until a movie has about PRIOR_VOTES votes. */
+const PRIOR_RATING = 6.5;
+const PRIOR_VOTES = 500;
+
+/** Ranking points that make a full penalty. */
+const FULL_DISLIKE_POINTS = 10;
+const FULL_RECENCY_POINTS = 2;
+
+// ── Score ─────────────────────────────────────────────────────────────────
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/** Mean affinity of the movie's two best-liked genres. */
+function genreAffinity(genreIds: number[], affinity: Record<number, number>): number {
+  const top = genreIds
+    .map((g) => affinity[g] ?? 0)
+    .sort((a, b) => b - a)
+    .slice(0, 2);
+  return top.length > 0 ? top.reduce((sum, a) => sum + a, 0) / top.length : 0;
+}
+
+/**
+ * Weighted sum of the parts minus penalties, as a percentage. A movie that
+ * fits the user's favorite genres and loved movies lands around 60–90; a
+ * well-rated movie with nothing in common with them around 20–30.
+ */
+export function computeMatch(inputs: MatchInputs): MatchBreakdown {
+  const rating =
+    (inputs.voteAverage * inputs.voteCount + PRIOR_RATING * PRIOR_VOTES) / (inputs.voteCount + PRIOR_VOTES);
+
+  const prediction = inputs.prediction ?? null;
+  const parts = {
+    genreAffinity: genreAffinity(inputs.genreIds, inputs.genreAffinity),
+    collaborative: prediction ? clamp(0.5 + prediction.deviation / (2 * FULL_PREDICTED_DEVIATION)) : 0.5,
+    content: Math.max(clamp(inputs.contentSimilarity / FULL_CONTENT_MATCH), inputs.seeded ? SEEDED_CONTENT : 0),
+    quality: clamp((rating - 5) / 4),                          // 5 → 0, 9 → 1
+    popularity: clamp(Math.log10(inputs.popularity + 1) / 3),  // 1000+ → 1
+  };
+  const collaborativeShare = MATCH_WEIGHTS.collaborative * clamp(prediction?.confidence ?? 0);
+  const weights = {
+    ...MATCH_WEIGHTS,
+    genreAffinity: MATCH_WEIGHTS.genreAffinity + MATCH_WEIGHTS.collaborative - collaborativeShare,
+    collaborative: collaborativeShare,
+  };
+  const dislikePenalty = clamp(inputs.dislikePoints / FULL_DISLIKE_POINTS) * 0.4;
+  const recencyPenalty = clamp(inputs.recencyPoints / FULL_RECENCY_POINTS) * 0.15;
+
+  const raw =
+    parts.genreAffinity * weights.genreAffinity +
+    parts.collaborative * weights.collaborative +
+    parts.content * weights.content +
+    parts.quality * weights.quality +
+    parts.popularity * weights.popularity -
+    dislikePenalty -
+    recencyPenalty;
+
+  return { ...parts, dislikePenalty, recencyPenalty, weights, score: Math.round(clamp(raw) * 100) };
+}
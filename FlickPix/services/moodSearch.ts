@@ -7,8 +7,24 @@
 
 import * as tmdb from "./tmdb.ts";
 import type { DiscoverOptions } from "./tmdb.ts";
-import { getWatchedMovieIds } from "./storage.ts";
+import { getHiddenMovieIds, getWatchedMovieIds } from "./storage.ts";
 import type { Recommendation } from "./recommendations.ts";
+import {
+  AuthError,
+  MalformedResponseError,
+  NetworkError,
+  errorFromResponse,
+} from "./errors.ts";
+
+export {
+  ApiError,
+  AuthError,
+  RateLimitError,
+  NetworkError,
+  QuotaExceededError,
+  MalformedResponseError,
+  describeError,
+} from "./errors.ts";
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
@@ -117,7 +133,25 @@ User: "bollywood romance"
 User: "scary haunted house movie"
 {"with_genres":"27","with_keywords":"10224|3133","with_original_language":"en","sort_by":"vote_average.desc","vote_average.gte":6.0,"vote_count.gte":100,"explanation":"English-language haunted house and ghost horror films"}`;
 
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com";
+const OPENAI_ENDPOINT = "/v1/chat/completions";
+
 let _openaiKey: string | null = null;
+let _openaiBaseUrl: string | null = null;
+
+/**
+ * Send chat completions somewhere other than api.openai.com, e.g. the
+ * mock server in scripts/mock-tmdb-server.mjs. Pass null to reset.
+ */
+export function setOpenAIBaseUrl(url: string | null) {
+  _openaiBaseUrl = url ? url.replace(/\/+$/, "") : null;
+}
+
+function getOpenAIUrl(): string {
+  const envUrl = process.env.EXPO_PUBLIC_OPENAI_BASE_URL || process.env.OPENAI_BASE_URL;
+  const base = _openaiBaseUrl ?? (envUrl ? envUrl.replace(/\/+$/, "") : DEFAULT_OPENAI_BASE_URL);
+  return `${base}${OPENAI_ENDPOINT}`;
+}
 
 export function setOpenAIKey(key: string) {
   _openaiKey = key;
@@ -130,43 +164,67 @@ function getOpenAIKey(): string {
     _openaiKey = envKey;
     return envKey;
   }
-  throw new Error("OpenAI API key not set. Add EXPO_PUBLIC_OPENAI_API_KEY to .env");
+  throw new AuthError("OpenAI API key not set. Add EXPO_PUBLIC_OPENAI_API_KEY to .env", {
+    service: "openai",
+    endpoint: OPENAI_ENDPOINT,
+  });
 }
 
 async function callOpenAI(userText: string): Promise<MoodFilters> {
   const apiKey = getOpenAIKey();
 
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      temperature: 0.3,
-      max_tokens: 300,
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT },
-        { role: "user", content: userText },
-      ],
-    }),
-  });
+  let res: Response;
+  try {
+    res = await fetch(getOpenAIUrl(), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: "gpt-4o-mini",
+        temperature: 0.3,
+        max_tokens: 300,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: userText },
+        ],
+      }),
+    });
+  } catch (err) {
+    throw new NetworkError(`OpenAI request failed: ${err instanceof Error ? err.message : String(err)}`, {
+      service: "openai",
+      endpoint: OPENAI_ENDPOINT,
+      cause: err,
+    });
+  }
 
   if (!res.ok) {
     const body = await res.text();
-    throw new Error(`OpenAI API error ${res.status}: ${body}`);
+    throw errorFromResponse("openai", OPENAI_ENDPOINT, res.status, body);
   }
 
-  const data = await res.json();
-  const content: string = data.choices?.[0]?.message?.content ?? "{}";
+  const malformed = (message: string, cause?: unknown) =>
+    new MalformedResponseError(message, { service: "openai", endpoint: OPENAI_ENDPOINT, status: res.status, cause });
+
+  let content: string;
+  try {
+    const data = await res.json();
+    content = data.choices?.[0]?.message?.content ?? "{}";
+  } catch (err) {
+    throw malformed("OpenAI sent invalid JSON", err);
+  }
 
   const jsonMatch = content.match(/\{[\s\S]*\}/);
   if (!jsonMatch) {
-    throw new Error("GPT did not return valid JSON");
+    throw malformed("GPT did not return valid JSON");
   }
 
-  return JSON.parse(jsonMatch[0]) as MoodFilters;
+  try {
+    return JSON.parse(jsonMatch[0]) as MoodFilters;
+  } catch (err) {
+    throw malformed("GPT did not return valid JSON", err);
+  }
 }
 
 // ── Public API ─────────────────────────────────────────────────────────────
@@ -211,16 +269,17 @@ async function fetchPage(
   page: number,
   limit: number
 ): Promise<Recommendation[]> {
-  const [response, watchedIds, genres] = await Promise.all([
+  const [response, watchedIds, hiddenIds, genres] = await Promise.all([
     tmdb.discoverMovies(buildDiscoverOptions(filters, page)),
     getWatchedMovieIds(),
+    getHiddenMovieIds(),
     tmdb.getGenres(),
   ]);
 
   const genreMap: Record<number, string> = {};
   for (const g of genres) genreMap[g.id] = g.name;
 
-  const unwatched = response.results.filter((m) => !watchedIds.includes(m.id));
+  const unwatched = response.results.filter((m) => !watchedIds.includes(m.id) && !hiddenIds.includes(m.id));
 
   return unwatched.slice(0, limit).map((movie) => {
     const movieGenres = movie.genre_ids
@@ -241,6 +300,7 @@ async function fetchPage(
       reason: movieGenres.length > 0
         ? `${explanation} — ${movieGenres.join(", ")}`
         : explanation,
+      source: { kind: "discover" },
     };
   });
 }
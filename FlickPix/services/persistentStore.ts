@@ -0,0 +1,64 @@
+/**
+ * Key-value persistence shared by the service modules.
+ *
+ * Web uses localStorage, native uses AsyncStorage, and Node (scripts/tests)
+ * has no persistence at all — reads return null and writes are no-ops.
+ */
+
+export type AsyncStorageLike = {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+};
+
+let _asyncStorage: AsyncStorageLike | null | undefined;
+
+export function isNodeRuntime(): boolean {
+  return typeof process !== "undefined" && !!process.versions?.node;
+}
+
+function hasLocalStorage(): boolean {
+  return typeof window !== "undefined" && !!window.localStorage;
+}
+
+export async function getAsyncStorage(): Promise<AsyncStorageLike | null> {
+  if (_asyncStorage !== undefined) {
+    return _asyncStorage;
+  }
+
+  try {
+    const module = await import("@react-native-async-storage/async-storage");
+    _asyncStorage = module.default;
+  } catch {
+    _asyncStorage = null;
+  }
+
+  return _asyncStorage;
+}
+
+export async function readItem(key: string): Promise<string | null> {
+  if (isNodeRuntime()) return null;
+  if (hasLocalStorage()) return window.localStorage.getItem(key);
+  const asyncStorage = await getAsyncStorage();
+  return asyncStorage ? asyncStorage.getItem(key) : null;
+}
+
+export async function writeItem(key: string, value: string): Promise<void> {
+  if (isNodeRuntime()) return;
+  if (hasLocalStorage()) {
+    window.localStorage.setItem(key, value);
+    return;
+  }
+  const asyncStorage = await getAsyncStorage();
+  if (asyncStorage) await asyncStorage.setItem(key, value);
+}
+
+export async function removeItem(key: string): Promise<void> {
+  if (isNodeRuntime()) return;
+  if (hasLocalStorage()) {
+    window.localStorage.removeItem(key);
+    return;
+  }
+  const asyncStorage = await getAsyncStorage();
+  if (asyncStorage) await asyncStorage.removeItem(key);
+}
@@ -0,0 +1,33 @@
+/**
+ * Small random-number helpers so ranking code can be made deterministic.
+ *
+ * Anything that shuffles or samples takes a `Random` instead of calling
+ * Math.random() directly; tests pass createSeededRandom(seed).
+ */
+
+/** Returns a float in [0, 1), like Math.random. */
+export type Random = () => number;
+
+/**
+ * Deterministic generator (mulberry32). The same seed always produces the
+ * same sequence.
+ */
+export function createSeededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fisher–Yates shuffle in place. */
+export function shuffleInPlace<T>(items: T[], random: Random): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
@@ -8,7 +8,27 @@
  */
 
 import * as tmdb from "./tmdb.ts";
-import { getPreferences, getWatchedMovieIds, getRatings, getWatchHistory } from "./storage.ts";
+import * as storage from "./storage.ts";
+import { createSeededRandom, type Random } from "./random.ts";
+import {
+  buildContentProfile,
+  describeContentMatch,
+  extractFeatures,
+  scoreContent,
+  type ContentFeature,
+  type ContentMatch,
+  type MovieContent,
+} from "./contentProfile.ts";
+import {
+  buildItemModel,
+  fingerprintRatings,
+  predictScores,
+  type CollaborativeScore,
+  type ItemModel,
+} from "./collaborative.ts";
+import { diversify } from "./diversity.ts";
+import { computeMatch, type MatchBreakdown } from "./matchScore.ts";
+import { DEFAULT_HALF_LIFE_DAYS, watchWeights } from "./tasteProfile.ts";
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
@@ -23,12 +43,381 @@ export interface Recommendation {
   releaseDate: string;
   genreIds: number[];
   reason: string;  // Why this was recommended
+  matchScore?: number;         // 0–100 fit with the user's taste; only from getRecommendations()
+  match?: MatchBreakdown;      // What matchScore is made of
+  source: CandidateSource;     // Where the pick came from (the first, when several agreed)
+  breakdown?: ScoreBreakdown;  // Only with options.debug, and only for scored picks
+}
+
+/**
+ * Where a candidate came from. TMDB recommendations and similar titles are
+ * seeded by one of the user's top-rated movies.
+ */
+export type CandidateSource =
+  | { kind: "recommendations" | "similar"; seedId: number; seedTitle: string }
+  | { kind: "discover" | "trending" | "topRated" | "popular" | "collaborative" }
+  | { kind: "rail"; railId: string };
+
+/** How a recommendation's score was put together. */
+export interface ScoreBreakdown {
+  base: number;        // TMDB vote_average
+  genres: number;      // Overlap with favorite genres
+  collaborative: number;  // Change to the genre score from blending in similar raters (either sign)
+  popularity: number;
+  sources: number;     // Boost for coming from a loved movie or from several sources
+  content: number;     // Similarity to loved keywords, directors and cast
+  dislike: number;     // Penalty (zero or negative) from low-rated genres, keywords and people
+  recency: number;     // Penalty (zero or negative) for being much older than what the user watches
+  total: number;
+  dislikedMatches: string[];  // What it shares with movies the user disliked
 }
 
 export interface RecommendationOptions {
   limit?: number;           // How many to return (default: 10)
   minRating?: number;       // Minimum TMDB vote_average (default: 6.5)
   minVoteCount?: number;    // Minimum vote count for quality (default: 100)
+  onMyServices?: boolean;   // Only movies streamable on the user's services; candidates then come from discover only (default: false)
+  dislikePenalty?: number;  // Strength of the low-rating penalty; 0 turns it off (default: 1)
+  tasteHalfLifeDays?: number;  // Older ratings count half as much every this many days; 0 = no decay (default: 180)
+  collaborativeWeight?: number;  // Share of the genre score taken from similar raters' ratings; 0 turns it off (default: 0.3)
+  diversity?: number;       // 0 = strictly by score, 1 = as varied as possible in genre, decade, language and franchise (default: 0.3)
+  debug?: boolean;          // Attach a ScoreBreakdown to each recommendation
+  random?: Random;          // Drives page choice and shuffling (default: Math.random)
+  seed?: number;            // Shortcut for random: createSeededRandom(seed)
+  sources?: Partial<RecommendationSources>;  // Override where user/movie data comes from
+}
+
+export interface RecommendationPageOptions extends RecommendationOptions {
+  cursor?: string | null;   // nextCursor from the previous page; omit for the first
+}
+
+/** One page of an infinite For You list. */
+export interface RecommendationPage {
+  items: Recommendation[];
+  nextCursor: string | null;   // null once every candidate has been shown
+}
+
+/**
+ * Everything the engine reads. Defaults to local storage and the TMDB
+ * client; tests swap in in-memory versions.
+ */
+export interface RecommendationSources {
+  getPreferences: () => Promise<storage.UserPreferences>;
+  getWatchedMovieIds: () => Promise<number[]>;
+  getWatchHistory: () => Promise<storage.WatchedMovie[]>;
+  getHiddenMovies: () => Promise<storage.HiddenMovie[]>;
+  getWatchSettings: () => Promise<storage.WatchSettings>;
+  discoverMovies: (options: tmdb.DiscoverOptions) => Promise<{ results: tmdb.MovieSummary[]; total_pages: number }>;
+  getPopularMovies: () => Promise<{ results: tmdb.MovieSummary[] }>;
+  getTrendingMovies: () => Promise<{ results: tmdb.MovieSummary[] }>;
+  getTopRatedMovies: () => Promise<{ results: tmdb.MovieSummary[] }>;
+  getMovieRecommendations: (movieId: number, page?: number) => Promise<{ results: tmdb.MovieSummary[]; total_pages?: number }>;
+  getSimilarMovies: (movieId: number) => Promise<{ results: tmdb.MovieSummary[] }>;
+  getGenres: () => Promise<tmdb.Genre[]>;
+  getMovieContent: (movieId: number) => Promise<MovieContent>;
+  getUserData: (userId: string) => Promise<storage.UserData>;
+  getDeviceRatings: () => Promise<storage.RaterRating[]>;
+  getMovieDetails: (movieId: number) => Promise<tmdb.MovieDetails>;
+}
+
+const defaultSources: RecommendationSources = {
+  getPreferences: storage.getPreferences,
+  getWatchedMovieIds: storage.getWatchedMovieIds,
+  getWatchHistory: storage.getWatchHistory,
+  getHiddenMovies: storage.getHiddenMovies,
+  getWatchSettings: storage.getWatchSettings,
+  discoverMovies: (options) => tmdb.discoverMovies(options),
+  getPopularMovies: () => tmdb.getPopularMovies(),
+  getTrendingMovies: () => tmdb.getTrendingMovies(),
+  getTopRatedMovies: () => tmdb.getTopRatedMovies(),
+  getMovieRecommendations: (movieId, page) => tmdb.getRecommendations(movieId, page),
+  getSimilarMovies: (movieId) => tmdb.getSimilarMovies(movieId),
+  getGenres: () => tmdb.getGenres(),
+  getMovieContent: async (movieId) => {
+    const movie = await tmdb.getMovieFull(movieId, { append: ["credits", "keywords"] });
+    return {
+      keywords: movie.keywords.keywords,
+      credits: movie.credits,
+      originalLanguage: movie.original_language,
+      collectionId: movie.belongs_to_collection?.id ?? null,
+      releaseDate: movie.release_date,
+    };
+  },
+  getUserData: storage.getUserData,
+  getDeviceRatings: storage.getDeviceRatings,
+  getMovieDetails: (movieId) => tmdb.getMovieDetails(movieId),
+};
+
+/** Default page size. */
+const DEFAULT_LIMIT = 8;
+
+/** How many of the most recent loved movies make up the content profile. */
+const PROFILE_MOVIES = 10;
+
+/** How many top-rated movies seed TMDB recommendations/similar lookups. */
+const SEED_MOVIES = 3;
+
+/** Content lookups per run: only the best candidates by base score get one. */
+const CONTENT_SHORTLIST = 40;
+
+/** Score for a candidate linked to a loved movie, and per extra source that agrees. */
+const SEEDED_BOOST = 0.5;
+const AGREEMENT_BOOST = 0.25;
+
+/** Score points for a perfect content match; genre overlap gives 0.5 per genre. */
+const CONTENT_WEIGHT = 10;
+
+/** Score points lost per unit of genre dislike, before dislikePenalty. */
+const GENRE_DISLIKE_WEIGHT = 0.5;
+
+/** Genre dislike (times dislikePenalty) at which a genre is excluded outright. */
+const EXCLUDE_GENRE_AT = 3;
+
+/** A "Not interested" without a reason counts as half a disliked movie. */
+const HIDDEN_WEIGHT = 0.5;
+
+/**
+ * Movies this many years older than the user's usual era (the median year of
+ * their loved movies) lose RECENCY_POINTS_PER_YEAR per extra year, up to
+ * MAX_RECENCY_POINTS.
+ */
+const RECENCY_GRACE_YEARS = 15;
+const RECENCY_POINTS_PER_YEAR = 0.1;
+const MAX_RECENCY_POINTS = 2;
+
+/**
+ * Collaborative filtering: a predicted rating FULL_CF_DEVIATION points above
+ * the user's usual one, fully trusted, is worth COLLABORATIVE_POINTS, the
+ * most the genre score can give (three matching genres).
+ */
+const DEFAULT_COLLABORATIVE_WEIGHT = 0.3;
+const FULL_CF_DEVIATION = 2;
+const COLLABORATIVE_POINTS = 1.5;
+
+/** Movies similar raters predict the user will like, added to the candidates. */
+const CF_CANDIDATES = 10;
+
+/**
+ * Ranked lists behind live cursors, by seed, oldest first. Later pages read
+ * from here instead of re-ranking, so history changes and cache revalidation
+ * can't shift what's left; only the most recent few are kept.
+ */
+const MAX_PAGED_LISTS = 5;
+const pagedLists = new Map<number, Recommendation[]>();
+
+/** The last item model built, reused until the device's ratings change. */
+let itemModelCache: { fingerprint: string; model: ItemModel } | null = null;
+
+interface Candidate {
+  movie: tmdb.MovieSummary;
+  sources: CandidateSource[];
+}
+
+interface ScoredCandidate extends Candidate {
+  score: number;
+  collectionId?: number | null;
+  parts: Omit<ScoreBreakdown, "total" | "dislikedMatches">;
+  content?: ContentMatch;
+  dislikedContent?: ContentMatch;
+  dislikedGenres: number[];
+}
+
+/**
+ * Discover params restricting results to the user's streaming services, or
+ * null when the filter is off or no services are set.
+ */
+async function providerFilter(
+  sources: RecommendationSources,
+  options: RecommendationOptions
+): Promise<Partial<tmdb.DiscoverOptions> | null> {
+  if (!options.onMyServices) return null;
+  const { region, services } = await sources.getWatchSettings();
+  if (services.length === 0) return null;
+  return {
+    with_watch_providers: services.join("|"),
+    watch_region: region,
+    with_watch_monetization_types: "flatrate|free|ads",
+  };
+}
+
+/**
+ * Content features (plus collection and release date) for each movie. A
+ * movie whose details fail to load is left out rather than failing the
+ * whole list.
+ */
+async function loadFeatures(
+  sources: RecommendationSources,
+  movieIds: number[]
+): Promise<Map<number, { features: ContentFeature[]; collectionId?: number | null; releaseDate?: string }>> {
+  const entries = await Promise.all(
+    movieIds.map((id) =>
+      sources
+        .getMovieContent(id)
+        .then((content) => [
+          id,
+          { features: extractFeatures(content), collectionId: content.collectionId, releaseDate: content.releaseDate },
+        ] as const)
+        .catch(() => null)
+    )
+  );
+  return new Map(entries.filter((e) => e !== null));
+}
+
+/**
+ * Movies the user disliked, weighted by how far they fall below the user's
+ * own average rating. A 3/10 always counts; a 6/10 only counts from someone
+ * who usually rates 8 and up.
+ */
+function dislikedMovies(history: storage.WatchedMovie[]): { movie: storage.WatchedMovie; weight: number }[] {
+  if (history.length === 0) return [];
+  const average = history.reduce((sum, m) => sum + m.rating, 0) / history.length;
+  return history
+    .filter((m) => m.rating <= 3 || (m.rating <= 6 && average - m.rating >= 2))
+    .map((movie) => ({ movie, weight: Math.max(average - movie.rating, 2) / 2 }));
+}
+
+/**
+ * "Not interested" as soft negatives: how much each hidden movie counts
+ * against its genres and its content. "Seen elsewhere" says nothing about
+ * taste; "don't like this actor" only counts against the cast.
+ */
+function hiddenSignals(hidden: storage.HiddenMovie[]) {
+  return hidden.map((movie) => ({
+    movie,
+    genreWeight: movie.reason === "notMyGenre" ? 1 : movie.reason === null ? HIDDEN_WEIGHT : 0,
+    contentWeight: movie.reason === "dislikeActor" ? 1 : movie.reason === null ? HIDDEN_WEIGHT : 0,
+    castOnly: movie.reason === "dislikeActor",
+  }));
+}
+
+function releaseYear(date: string | undefined): number | null {
+  const year = parseInt(date?.slice(0, 4) ?? "");
+  return Number.isNaN(year) ? null : year;
+}
+
+/** Median of the years, or null if there are none. */
+function medianYear(years: number[]): number | null {
+  if (years.length === 0) return null;
+  const sorted = [...years].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function isSeeded(source: CandidateSource): source is Extract<CandidateSource, { seedId: number }> {
+  return source.kind === "recommendations" || source.kind === "similar";
+}
+
+/** Same key for the same source fetched twice, e.g. trending once per group member. */
+function sourceKey(source: CandidateSource): string {
+  if (isSeeded(source)) return `${source.kind}:${source.seedId}`;
+  return source.kind === "rail" ? `rail:${source.railId}` : source.kind;
+}
+
+/**
+ * Fetch every candidate source in parallel and merge the results, keeping
+ * each movie once with every source that produced it (seeded sources first).
+ * A failing source is skipped; if they all fail, the first error is thrown.
+ */
+async function gatherCandidates(
+  sources: RecommendationSources,
+  seeds: storage.WatchedMovie[],
+  discoverParams: tmdb.DiscoverOptions,
+  random: Random,
+  discoverOnly: boolean
+): Promise<Candidate[]> {
+  type Batch = { source: CandidateSource; results: tmdb.MovieSummary[] };
+  const fetchers: Promise<Batch>[] = [];
+
+  // Clamp the random page to what TMDB actually has for these filters
+  fetchers.push(
+    (async () => {
+      const firstResponse = await sources.discoverMovies({ ...discoverParams, page: 1 });
+      const totalPages = Math.min(firstResponse.total_pages ?? 1, 8);
+      const safePage = totalPages > 1 ? Math.floor(random() * totalPages) + 1 : 1;
+      const response = safePage === 1
+        ? firstResponse
+        : await sources.discoverMovies({ ...discoverParams, page: safePage });
+      return { source: { kind: "discover" }, results: response.results };
+    })()
+  );
+
+  // The other sources can't be limited to streaming services
+  if (!discoverOnly) {
+    for (const seed of seeds) {
+      const from = { seedId: seed.movieId, seedTitle: seed.title };
+      fetchers.push(
+        sources.getMovieRecommendations(seed.movieId).then((r) => ({
+          source: { kind: "recommendations", ...from },
+          results: r.results,
+        })),
+        sources.getSimilarMovies(seed.movieId).then((r) => ({
+          source: { kind: "similar", ...from },
+          results: r.results,
+        }))
+      );
+    }
+    fetchers.push(
+      sources.getTrendingMovies().then((r) => ({ source: { kind: "trending" }, results: r.results })),
+      sources.getTopRatedMovies().then((r) => ({ source: { kind: "topRated" }, results: r.results }))
+    );
+  }
+
+  const settled = await Promise.allSettled(fetchers);
+  const batches = settled.flatMap((s) => (s.status === "fulfilled" ? [s.value] : []));
+  if (batches.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  const merged = new Map<number, Candidate>();
+  for (const { source, results } of [...batches].sort((a, b) => Number(isSeeded(b.source)) - Number(isSeeded(a.source)))) {
+    for (const movie of results) {
+      const existing = merged.get(movie.id);
+      if (existing) existing.sources.push(source);
+      else merged.set(movie.id, { movie, sources: [source] });
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * The whole candidate list in display order: the best `pageSize * 3`
+ * remaining candidates are re-ranked for diversity, the top `pageSize` of
+ * them kept, and so on until none are left. Every page is as varied as a
+ * single list would be.
+ */
+function rankStream(
+  scored: ScoredCandidate[],
+  pageSize: number,
+  diversity: number,
+  random: Random
+): ScoredCandidate[] {
+  const remaining = [...scored];
+  const stream: ScoredCandidate[] = [];
+  while (remaining.length > 0) {
+    const picks = diversify(
+      remaining.slice(0, pageSize * 3).map((candidate) => ({
+        item: candidate,
+        score: candidate.score,
+        traits: {
+          genreIds: candidate.movie.genre_ids,
+          releaseDate: candidate.movie.release_date,
+          originalLanguage: candidate.movie.original_language,
+          collectionId: candidate.collectionId,
+        },
+      })),
+      pageSize,
+      diversity,
+      random
+    );
+    stream.push(...picks);
+    for (const pick of picks) remaining.splice(remaining.indexOf(pick), 1);
+  }
+  return stream;
+}
+
+function resolveRandom(options: RecommendationOptions): Random {
+  if (options.random) return options.random;
+  if (options.seed !== undefined) return createSeededRandom(options.seed);
+  return Math.random;
 }
 
 // ── Recommendation Engine ──────────────────────────────────────────────────
@@ -38,36 +427,174 @@ export interface RecommendationOptions {
  *
  * Algorithm:
  * 1. Load user's watch history and preferences
- * 2. Identify favorite genres (from highly-rated movies + explicit prefs)
- * 3. Get candidates from TMDB discover (filtered by genres)
- * 4. Filter out already-watched movies
- * 5. Score and rank by relevance + TMDB rating
- * 6. Return top N with explanations
+ * 2. Identify favorite genres (from highly-rated movies + explicit prefs),
+ *    with older ratings decaying by tasteHalfLifeDays, and predict ratings
+ *    from how every profile and imported dataset rated similar movies
+ * 3. Identify disliked genres from low ratings (relative to the user's
+ *    average) and "Not interested"; exclude the worst, penalize the rest
+ * 4. Gather candidates from TMDB recommendations/similar for the top-rated
+ *    titles, discover by top genres, trending and top rated (popular when
+ *    there are no favorite genres yet), plus the best predicted ratings;
+ *    merge and dedupe
+ * 5. Filter out already-watched, hidden, low-quality and excluded-genre movies
+ * 6. Score and rank by relevance + TMDB rating, with collaborativeWeight of
+ *    the genre score coming from predicted ratings
+ * 7. Rescore against content profiles (keywords, directors, lead cast) of
+ *    the user's highly-rated and disliked (or hidden) movies, and push down
+ *    movies far older than the user's usual era
+ * 8. Re-rank the best for diversity (genre, decade, language, franchise)
+ * 9. Return top N with explanations and a match score
  */
 export async function getRecommendations(
   options: RecommendationOptions = {}
 ): Promise<Recommendation[]> {
-  const {
-    limit = 8,
-    minRating = 4.5,
-    minVoteCount = 100,
-  } = options;
+  const ranked = await rankRecommendations(options, resolveRandom(options));
+  return ranked.slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+/**
+ * Infinite-scroll version of getRecommendations(). The first page ranks
+ * every candidate and keeps the list; the cursor points into it, so later
+ * pages walk the same list even if history changes in between. Movies
+ * watched or hidden since are skipped rather than shifting the rest. A
+ * cursor whose list was dropped re-ranks with the same seed. Cursors look
+ * like "<seed>.<offset>".
+ */
+export async function getRecommendationPage(
+  options: RecommendationPageOptions = {}
+): Promise<RecommendationPage> {
+  const { cursor, ...rest } = options;
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const sources = { ...defaultSources, ...options.sources };
+
+  let seed: number;
+  let offset = 0;
+  if (cursor) {
+    const match = /^(\d+)\.(\d+)$/.exec(cursor);
+    if (!match) throw new Error(`Invalid recommendations cursor: ${cursor}`);
+    seed = Number(match[1]);
+    offset = Number(match[2]);
+  } else {
+    seed = options.seed ?? Math.floor((options.random ?? Math.random)() * 2 ** 31);
+  }
+
+  const ranked =
+    (cursor ? pagedLists.get(seed) : undefined) ?? (await rankRecommendations(rest, createSeededRandom(seed)));
+  pagedLists.delete(seed);
+  pagedLists.set(seed, ranked);
+  if (pagedLists.size > MAX_PAGED_LISTS) pagedLists.delete(pagedLists.keys().next().value!);
+
+  const [watchedIds, hidden] = await Promise.all([sources.getWatchedMovieIds(), sources.getHiddenMovies()]);
+  const skip = new Set([...watchedIds, ...hidden.map((m) => m.movieId)]);
+  const items: Recommendation[] = [];
+  let end = offset;
+  while (end < ranked.length && items.length < limit) {
+    const recommendation = ranked[end++];
+    if (!skip.has(recommendation.id)) items.push(recommendation);
+  }
+  return {
+    items,
+    nextCursor: end < ranked.length ? `${seed}.${end}` : null,
+  };
+}
+
+/**
+ * One user's taste as the engine reads it: what to skip, which genres they
+ * love and dislike, and the movies their content profiles are built from.
+ */
+interface Taste {
+  preferences: storage.UserPreferences;
+  history: storage.WatchedMovie[];
+  skipIds: number[];                 // Watched or dismissed with "Not interested"
+  highlyRated: storage.WatchedMovie[];
+  disliked: { movie: storage.WatchedMovie; weight: number }[];
+  dismissed: ReturnType<typeof hiddenSignals>;
+  genreDislike: Record<number, number>;
+  excludedGenres: number[];
+  topGenres: number[];               // Up to 3; empty means nothing to go on
+  genreAffinity: Record<number, number>;  // For the match score: 1 for the best-loved genre
+  predictions: Map<number, CollaborativeScore>;  // From similar raters, by movie; empty without a model
+  decay: (movie: storage.WatchedMovie) => number;
+}
+
+/**
+ * Item similarities from every rating on the device, or null when
+ * collaborative filtering is off or there's nothing to learn from. The
+ * ratings are an extra: if they can't be read, scoring goes on without.
+ * The model is only rebuilt when the ratings differ from last time.
+ */
+async function loadItemModel(
+  sources: RecommendationSources,
+  options: RecommendationOptions
+): Promise<ItemModel | null> {
+  if ((options.collaborativeWeight ?? DEFAULT_COLLABORATIVE_WEIGHT) <= 0) return null;
+  const ratings = await sources.getDeviceRatings().catch(() => []);
+  const fingerprint = fingerprintRatings(ratings);
+  if (itemModelCache?.fingerprint !== fingerprint) {
+    itemModelCache = { fingerprint, model: buildItemModel(ratings) };
+  }
+  const { model } = itemModelCache;
+  return model.size > 0 ? model : null;
+}
+
+/** Steps 1–3 of getRecommendations() for whoever `sources` reads from. */
+async function loadTaste(
+  sources: RecommendationSources,
+  options: RecommendationOptions,
+  model: ItemModel | null
+): Promise<Taste> {
+  const { dislikePenalty = 1, tasteHalfLifeDays = DEFAULT_HALF_LIFE_DAYS } = options;
 
   // Load user data
-  const preferences = await getPreferences();
-  const watchedIds = await getWatchedMovieIds();
-  const ratings = await getRatings();
-  const watchHistory = await getWatchHistory();
+  const preferences = await sources.getPreferences();
+  const watchedIds = await sources.getWatchedMovieIds();
+  const watchHistory = await sources.getWatchHistory();
+  const hidden = await sources.getHiddenMovies();
+
+  // Never suggest anything seen or dismissed with "Not interested"
+  const skipIds = [...watchedIds, ...hidden.map((m) => m.movieId)];
+
+  // Recent ratings say more about current taste than old ones
+  const weights = watchWeights(watchHistory, tasteHalfLifeDays);
+  const decay = (movie: storage.WatchedMovie) => weights.get(movie.movieId) ?? 1;
 
   // Derive favorite genres from user's highly-rated movies (8+)
   const highlyRated = watchHistory.filter((m) => m.rating >= 8);
   const genreCounts: Record<number, number> = {};
   for (const movie of highlyRated) {
     for (const genreId of movie.genres) {
-      genreCounts[genreId] = (genreCounts[genreId] || 0) + 1;
+      genreCounts[genreId] = (genreCounts[genreId] || 0) + decay(movie);
     }
   }
   
+  // Disliked genres: low ratings and "Not interested" count against a genre,
+  // loved movies in it count back in its favor, and explicit favorites are
+  // never disliked
+  const disliked = (dislikePenalty > 0 ? dislikedMovies(watchHistory) : []).map((d) => ({
+    ...d,
+    weight: d.weight * decay(d.movie),
+  }));
+  const dismissed = dislikePenalty > 0 ? hiddenSignals(hidden) : [];
+  const genreDislike: Record<number, number> = {};
+  for (const { genres, weight } of [
+    ...disliked.map((d) => ({ genres: d.movie.genres, weight: d.weight })),
+    ...dismissed.map((h) => ({ genres: h.movie.genres, weight: h.genreWeight })),
+  ]) {
+    if (weight <= 0) continue;
+    for (const genreId of genres) {
+      genreDislike[genreId] = (genreDislike[genreId] || 0) + weight;
+    }
+  }
+  for (const [id, amount] of Object.entries(genreDislike)) {
+    const genreId = parseInt(id);
+    const net = amount - (genreCounts[genreId] || 0);
+    if (net > 0 && !preferences.favoriteGenres.includes(genreId)) genreDislike[genreId] = net;
+    else delete genreDislike[genreId];
+  }
+  const excludedGenres = Object.entries(genreDislike)
+    .filter(([, amount]) => amount * dislikePenalty >= EXCLUDE_GENRE_AT)
+    .map(([id]) => parseInt(id));
+
   // Merge with explicit preferences
   for (const genreId of preferences.favoriteGenres) {
     genreCounts[genreId] = (genreCounts[genreId] || 0) + 5; // Boost explicit prefs
@@ -75,91 +602,363 @@ export async function getRecommendations(
 
   // Top 3 genres
   const topGenres = Object.entries(genreCounts)
+    .map(([id, count]) => [parseInt(id), count])
+    .filter(([id]) => !excludedGenres.includes(id))
     .sort((a, b) => b[1] - a[1])
     .slice(0, 3)
-    .map(([id]) => parseInt(id));
+    .map(([id]) => id);
 
-  if (topGenres.length === 0) {
-    // No preferences, return popular movies as fallback
-    return await getPopularFallback(watchedIds, limit);
+  // For the match score: 1 for the best-loved genre, less for the rest
+  const maxGenreCount = Math.max(...Object.values(genreCounts), 1);
+  const genreAffinity: Record<number, number> = {};
+  for (const [id, count] of Object.entries(genreCounts)) {
+    if (!excludedGenres.includes(parseInt(id))) genreAffinity[parseInt(id)] = count / maxGenreCount;
   }
 
+  // What similar raters think of movies like the ones this user rated
+  const predictions = model
+    ? predictScores(model, watchHistory.map((m) => ({ movieId: m.movieId, rating: m.rating, weight: decay(m) })))
+    : new Map<number, CollaborativeScore>();
+
+  return {
+    preferences,
+    history: watchHistory,
+    skipIds,
+    highlyRated,
+    disliked,
+    dismissed,
+    genreDislike,
+    excludedGenres,
+    topGenres,
+    genreAffinity,
+    predictions,
+    decay,
+  };
+}
+
+/** Step 4: candidates from discover on the top genres and the best-loved titles. */
+async function gatherForTaste(
+  sources: RecommendationSources,
+  taste: Taste,
+  options: RecommendationOptions,
+  providers: Partial<tmdb.DiscoverOptions> | null,
+  random: Random
+): Promise<Candidate[]> {
+  const { minRating = 4.5, minVoteCount = 100 } = options;
+  const { topGenres, excludedGenres, highlyRated, decay } = taste;
+
   const genreStr = topGenres.join(",");
   const discoverParams = {
     with_genres: genreStr,
+    ...(excludedGenres.length > 0 && { without_genres: excludedGenres.join(",") }),
     sort_by: "vote_average.desc",
     "vote_average.gte": minRating,
     "vote_count.gte": minVoteCount,
+    ...providers,
   };
 
-  // Clamp the random page to what TMDB actually has for these filters
-  const firstResponse = await tmdb.discoverMovies({ ...discoverParams, page: 1 });
-  const totalPages = Math.min(firstResponse.total_pages ?? 1, 8);
-  const safePage = totalPages > 1 ? Math.ceil(Math.random() * totalPages) : 1;
+  // The user's best-loved recent titles seed TMDB's own recommendations
+  const seeds = [...highlyRated]
+    .sort((a, b) => (b.rating - 7) * decay(b) - (a.rating - 7) * decay(a) || b.watchedAt.localeCompare(a.watchedAt))
+    .slice(0, SEED_MOVIES);
+  return gatherCandidates(sources, seeds, discoverParams, random, providers !== null);
+}
 
-  const response = safePage === 1
-    ? firstResponse
-    : await tmdb.discoverMovies({ ...discoverParams, page: safePage });
+/** Popular movies as candidates (on the user's services, with a provider filter). */
+async function popularCandidates(
+  sources: RecommendationSources,
+  providers: Partial<tmdb.DiscoverOptions> | null
+): Promise<Candidate[]> {
+  const response = providers
+    ? await sources.discoverMovies({ sort_by: "popularity.desc", ...providers })
+    : await sources.getPopularMovies();
+  return response.results.map((movie) => ({ movie, sources: [{ kind: "popular" }] }));
+}
 
-  const allCandidates = response.results;
+/**
+ * The movies similar raters most expect this user to like, if no other
+ * source found them. Details that fail to load are skipped.
+ */
+async function collaborativeCandidates(
+  sources: RecommendationSources,
+  taste: Taste,
+  existing: Candidate[]
+): Promise<Candidate[]> {
+  const known = new Set([...taste.skipIds, ...existing.map((c) => c.movie.id)]);
+  const wanted = [...taste.predictions.values()]
+    .filter((p) => p.deviation > 0 && !known.has(p.movieId))
+    .sort((a, b) => b.deviation * b.confidence - a.deviation * a.confidence)
+    .slice(0, CF_CANDIDATES);
 
-  // Filter out watched
-  const unwatched = allCandidates.filter((m) => !watchedIds.includes(m.id));
+  const details = await Promise.allSettled(wanted.map((p) => sources.getMovieDetails(p.movieId)));
+  return details.flatMap((d): Candidate[] => {
+    if (d.status !== "fulfilled") return [];
+    const { genres, ...movie } = d.value;
+    return [{ movie: { ...movie, genre_ids: genres.map((g) => g.id) }, sources: [{ kind: "collaborative" }] }];
+  });
+}
 
-  // Remove duplicates by ID
-  const uniqueMap = new Map<number, tmdb.MovieSummary>();
-  for (const movie of unwatched) {
-    if (!uniqueMap.has(movie.id)) {
-      uniqueMap.set(movie.id, movie);
-    }
-  }
-  const unique = Array.from(uniqueMap.values());
+/** Steps 5–7: filter and score candidates against one taste, best first. */
+async function scoreCandidates(
+  sources: RecommendationSources,
+  taste: Taste,
+  candidates: Candidate[],
+  options: RecommendationOptions
+): Promise<ScoredCandidate[]> {
+  const {
+    minRating = 4.5,
+    minVoteCount = 100,
+    dislikePenalty = 1,
+    collaborativeWeight = DEFAULT_COLLABORATIVE_WEIGHT,
+  } = options;
+  const { skipIds, excludedGenres, topGenres, genreDislike, highlyRated, disliked, dismissed, predictions, decay } =
+    taste;
+
+  // Filter out watched, and hold every source to discover's quality bar
+  const unique = candidates.filter(
+    ({ movie }) =>
+      !skipIds.includes(movie.id) &&
+      movie.vote_average >= minRating &&
+      movie.vote_count >= minVoteCount &&
+      !movie.genre_ids.some((g) => excludedGenres.includes(g))
+  );
 
   // Score each candidate
-  const scored = unique.map((movie) => {
-    let score = movie.vote_average; // Base score from TMDB rating
+  const scored = unique.map(({ movie, sources: from }): ScoredCandidate => {
+    const base = movie.vote_average; // Base score from TMDB rating
 
     // Boost if genres match user's highly-rated movies
     const genreOverlap = movie.genre_ids.filter((g) => topGenres.includes(g)).length;
-    score += genreOverlap * 0.5;
+    const genres = genreOverlap * 0.5;
+
+    // Blend in what similar raters predict, where they have an opinion
+    const prediction = predictions.get(movie.id);
+    const predicted = prediction
+      ? Math.min(Math.max(prediction.deviation / FULL_CF_DEVIATION, -1), 1) * prediction.confidence * COLLABORATIVE_POINTS
+      : 0;
+    const collaborative = prediction ? collaborativeWeight * (predicted - genres) : 0;
 
     // Boost by popularity (log scale to avoid huge numbers)
-    score += Math.log10(movie.popularity + 1) * 0.1;
+    const popularity = Math.log10(movie.popularity + 1) * 0.1;
 
-    return { movie, score };
-  });
+    // Penalize genres the user keeps rating low
+    const dislikedGenres = movie.genre_ids.filter((g) => genreDislike[g] > 0);
+    const genrePenalty = dislikedGenres.reduce(
+      (sum, g) => sum + Math.min(genreDislike[g], EXCLUDE_GENRE_AT) * GENRE_DISLIKE_WEIGHT * dislikePenalty,
+      0
+    );
+    const dislike = genrePenalty > 0 ? -genrePenalty : 0;
 
-  // Sort by score descending, then shuffle within score tiers for variety
+    // Boost movies tied to a loved title, and ones several sources agree on
+    const sourceBoost =
+      (from.some(isSeeded) ? SEEDED_BOOST : 0) + Math.min(from.length - 1, 3) * AGREEMENT_BOOST;
+
+    return {
+      movie,
+      sources: from,
+      score: base + genres + collaborative + popularity + sourceBoost + dislike,
+      parts: { base, genres, collaborative, popularity, sources: sourceBoost, content: 0, dislike, recency: 0 },
+      dislikedGenres,
+    };
+  });
   scored.sort((a, b) => b.score - a.score);
-  // Shuffle top candidates (up to 3x limit) so each refresh shows different movies
-  const pool = scored.slice(0, limit * 3);
-  for (let i = pool.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [pool[i], pool[j]] = [pool[j], pool[i]];
+
+  // Similarity to the keywords, directors and lead cast of recent loved (and
+  // disliked or dismissed) movies, for the best candidates so far. Lookups
+  // are cached.
+  const dismissedContent = dismissed.filter((h) => h.contentWeight > 0).slice(0, PROFILE_MOVIES);
+  if (highlyRated.length > 0 || disliked.length > 0 || dismissedContent.length > 0) {
+    const shortlist = scored.slice(0, CONTENT_SHORTLIST);
+    const loved = highlyRated.slice(-PROFILE_MOVIES);
+    const hated = disliked.slice(-PROFILE_MOVIES);
+    const features = await loadFeatures(sources, [
+      ...loved.map((m) => m.movieId),
+      ...hated.map((d) => d.movie.movieId),
+      ...dismissedContent.map((h) => h.movie.movieId),
+      ...shortlist.map((c) => c.movie.id),
+    ]);
+    const profile = buildContentProfile(
+      loved.map((m) => ({ features: features.get(m.movieId)?.features ?? [], weight: (m.rating - 7) * decay(m) }))
+    );
+    const dislikeProfile = buildContentProfile([
+      ...hated.map((d) => ({ features: features.get(d.movie.movieId)?.features ?? [], weight: d.weight })),
+      ...dismissedContent.map((h) => ({
+        features: (features.get(h.movie.movieId)?.features ?? []).filter((f) => !h.castOnly || f.kind === "cast"),
+        weight: h.contentWeight,
+      })),
+    ]);
+    for (const candidate of shortlist) {
+      const candidateFeatures = features.get(candidate.movie.id)?.features ?? [];
+      candidate.collectionId = features.get(candidate.movie.id)?.collectionId;
+      candidate.content = scoreContent(profile, candidateFeatures);
+      candidate.dislikedContent = scoreContent(dislikeProfile, candidateFeatures);
+      const content = candidate.content.similarity * CONTENT_WEIGHT;
+      const penalty = candidate.dislikedContent.similarity * CONTENT_WEIGHT * dislikePenalty;
+      candidate.parts.content = content;
+      candidate.parts.dislike -= penalty;
+      candidate.score += content - penalty;
+    }
+
+    // Movies far older than the era the user usually watches slip down
+    const era = medianYear(
+      loved.map((m) => releaseYear(features.get(m.movieId)?.releaseDate)).filter((y): y is number => y !== null)
+    );
+    if (era !== null) {
+      for (const candidate of scored) {
+        const year = releaseYear(candidate.movie.release_date);
+        const yearsOver = year === null ? 0 : era - year - RECENCY_GRACE_YEARS;
+        if (yearsOver <= 0) continue;
+        const penalty = Math.min(yearsOver * RECENCY_POINTS_PER_YEAR, MAX_RECENCY_POINTS);
+        candidate.parts.recency = -penalty;
+        candidate.score -= penalty;
+      }
+    }
   }
 
-  // Take top N
-  const topN = pool.slice(0, limit);
+  scored.sort((a, b) => b.score - a.score);
+  return scored;
+}
+
+/** Step 9 for one scored candidate: the reason and match score for this taste. */
+function formatScored(
+  { movie, sources: from, score, parts, content, dislikedContent, dislikedGenres }: ScoredCandidate,
+  taste: Taste,
+  genreMap: Record<number, string>,
+  debug: boolean
+): Recommendation {
+  const matchedGenres = movie.genre_ids
+    .filter((g) => taste.topGenres.includes(g))
+    .map((g) => genreMap[g])
+    .slice(0, 2);
+
+  const seed = from.find(isSeeded);
+  const prediction = taste.predictions.get(movie.id);
+  const liked = prediction && prediction.deviation > 0
+    ? taste.history.find((m) => m.movieId === prediction.because)
+    : undefined;
+  const reason =
+    (seed && `Because you loved ${seed.seedTitle}`) ??
+    describeContentMatch(content?.contributors ?? []) ??
+    (liked && `People who liked ${liked.title} also liked this`) ??
+    (matchedGenres.length > 0
+      ? `Matches your favorite genres: ${matchedGenres.join(", ")}`
+      : `Highly rated ${genreMap[movie.genre_ids[0]] || "movie"}`);
+
+  const match = computeMatch({
+    genreIds: movie.genre_ids,
+    genreAffinity: taste.genreAffinity,
+    contentSimilarity: content?.similarity ?? 0,
+    prediction,
+    seeded: seed !== undefined,
+    voteAverage: movie.vote_average,
+    voteCount: movie.vote_count,
+    popularity: movie.popularity,
+    dislikePoints: -parts.dislike,
+    recencyPoints: -parts.recency,
+  });
+
+  return {
+    id: movie.id,
+    title: movie.title,
+    overview: movie.overview,
+    posterPath: movie.poster_path,
+    backdropPath: movie.backdrop_path,
+    voteAverage: movie.vote_average,
+    voteCount: movie.vote_count,
+    releaseDate: movie.release_date,
+    genreIds: movie.genre_ids,
+    reason,
+    matchScore: match.score,
+    match,
+    source: from[0],
+    ...(debug && {
+      breakdown: {
+        ...parts,
+        total: score,
+        dislikedMatches: [
+          ...dislikedGenres.map((g) => genreMap[g] ?? `Genre ${g}`),
+          ...(dislikedContent?.contributors.map((f) => f.name) ?? []),
+        ],
+      },
+    }),
+  };
+}
 
-  // Load genre names for reasons
-  const genres = await tmdb.getGenres();
+async function loadGenreMap(sources: RecommendationSources): Promise<Record<number, string>> {
+  const genres = await sources.getGenres();
   const genreMap: Record<number, string> = {};
   for (const g of genres) {
     genreMap[g.id] = g.name;
   }
+  return genreMap;
+}
 
-  // Format as Recommendation objects with reasons
-  return topN.map(({ movie }) => {
-    const matchedGenres = movie.genre_ids
-      .filter((g) => topGenres.includes(g))
-      .map((g) => genreMap[g])
-      .slice(0, 2);
+/**
+ * Every candidate, best first, in pages of `limit`; getRecommendations() and
+ * getRecommendationPage() slice it.
+ */
+async function rankRecommendations(
+  options: RecommendationOptions,
+  random: Random
+): Promise<Recommendation[]> {
+  const { limit = DEFAULT_LIMIT, diversity = 0.3, debug = false } = options;
+  const sources = { ...defaultSources, ...options.sources };
+
+  const model = await loadItemModel(sources, options);
+  const taste = await loadTaste(sources, options, model);
+  const providers = await providerFilter(sources, options);
 
-    const reason =
-      matchedGenres.length > 0
-        ? `Matches your favorite genres: ${matchedGenres.join(", ")}`
-        : `Highly rated ${genreMap[movie.genre_ids[0]] || "movie"}`;
+  if (taste.topGenres.length === 0 && taste.predictions.size === 0) {
+    // No preferences, return popular movies as fallback
+    return await getPopularFallback(sources, taste.skipIds, providers, taste.excludedGenres);
+  }
 
+  // Too little history for favorite genres: similar raters rank what's popular
+  const candidates = taste.topGenres.length > 0
+    ? await gatherForTaste(sources, taste, options, providers, random)
+    : await popularCandidates(sources, providers);
+  // Like the seeded sources, these can't be limited to streaming services
+  if (!providers) candidates.push(...(await collaborativeCandidates(sources, taste, candidates)));
+  const scored = await scoreCandidates(sources, taste, candidates, options);
+
+  // Re-rank for variety, a page at a time; the jitter inside diversify()
+  // means each refresh shows different movies
+  const ranked = rankStream(scored, limit, diversity, random);
+
+  // Load genre names for reasons, and format with a match score
+  const genreMap = await loadGenreMap(sources);
+  return ranked.map((candidate) => formatScored(candidate, taste, genreMap, debug));
+}
+
+/**
+ * Fallback: return popular movies if user has no preferences. With a
+ * provider filter, popular-on-my-services comes from discover instead.
+ */
+async function getPopularFallback(
+  sources: RecommendationSources,
+  skipIds: number[],
+  providers: Partial<tmdb.DiscoverOptions> | null = null,
+  excludedGenres: number[] = []
+): Promise<Recommendation[]> {
+  const response = providers
+    ? await sources.discoverMovies({ sort_by: "popularity.desc", ...providers })
+    : await sources.getPopularMovies();
+  const unwatched = response.results.filter(
+    (m) => !skipIds.includes(m.id) && !m.genre_ids.some((g) => excludedGenres.includes(g))
+  );
+  return unwatched.map((movie): Recommendation => {
+    // Nothing to match against: the score is just quality and popularity
+    const match = computeMatch({
+      genreIds: movie.genre_ids,
+      genreAffinity: {},
+      contentSimilarity: 0,
+      seeded: false,
+      voteAverage: movie.vote_average,
+      voteCount: movie.vote_count,
+      popularity: movie.popularity,
+      dislikePoints: 0,
+      recencyPoints: 0,
+    });
     return {
       id: movie.id,
       title: movie.title,
@@ -170,23 +969,67 @@ export async function getRecommendations(
       voteCount: movie.vote_count,
       releaseDate: movie.release_date,
       genreIds: movie.genre_ids,
-      reason,
+      reason: "Popular right now",
+      matchScore: match.score,
+      match,
+      source: { kind: "popular" },
     };
   });
 }
 
+// ── Rails ─────────────────────────────────────────────────────────────────
+
 /**
- * Fallback: return popular movies if user has no preferences.
+ * A named, horizontally scrolling list seeded by one thing from the user's
+ * history: a loved movie, a director, or a language and genre.
  */
-async function getPopularFallback(
-  watchedIds: number[],
-  limit: number
-): Promise<Recommendation[]> {
-  const response = await tmdb.getPopularMovies();
-  const unwatched = response.results.filter((m) => !watchedIds.includes(m.id));
-  const top = unwatched.slice(0, limit);
+export interface Rail {
+  id: string;           // Stable key, e.g. "watched:550"; pass to getRailPage()
+  title: string;        // e.g. "Because you watched Fight Club"
+  kind: "watched" | "director" | "genre";
+  items: Recommendation[];
+  page: number;
+  totalPages: number;
+}
+
+export interface RailOptions {
+  maxRails?: number;    // default 5
+  sources?: Partial<RecommendationSources>;
+}
 
-  return top.map((movie) => ({
+/** One page of a rail, for refresh and "see all". */
+export interface RailPage {
+  items: Recommendation[];
+  page: number;
+  totalPages: number;
+}
+
+/** "Because you watched" rails, interleaved with the others. */
+const WATCHED_RAILS = 3;
+
+/** Adjectives for rail titles; other languages get a genre-only rail. */
+const LANGUAGE_NAMES: Record<string, string> = {
+  ko: "Korean",
+  ja: "Japanese",
+  zh: "Chinese",
+  cn: "Cantonese",
+  hi: "Hindi",
+  fr: "French",
+  es: "Spanish",
+  it: "Italian",
+  de: "German",
+  pt: "Portuguese",
+  sv: "Swedish",
+  da: "Danish",
+  no: "Norwegian",
+  ru: "Russian",
+  tr: "Turkish",
+  th: "Thai",
+  fa: "Persian",
+};
+
+function toRecommendation(movie: tmdb.MovieSummary, reason: string, source: CandidateSource): Recommendation {
+  return {
     id: movie.id,
     title: movie.title,
     overview: movie.overview,
@@ -196,8 +1039,324 @@ async function getPopularFallback(
     voteCount: movie.vote_count,
     releaseDate: movie.release_date,
     genreIds: movie.genre_ids,
-    reason: "Popular right now",
+    reason,
+    source,
+  };
+}
+
+/** Fetch one TMDB page for a rail id. */
+async function fetchRail(
+  sources: RecommendationSources,
+  railId: string,
+  page: number
+): Promise<{ results: tmdb.MovieSummary[]; total_pages?: number }> {
+  const [kind, id, language] = railId.split(":");
+  switch (kind) {
+    case "watched":
+      return sources.getMovieRecommendations(Number(id), page);
+    case "director":
+      return sources.discoverMovies({ with_crew: id, sort_by: "popularity.desc", "vote_count.gte": 50, page });
+    case "genre":
+      return sources.discoverMovies({
+        with_genres: id,
+        ...(language && { with_original_language: language }),
+        sort_by: "vote_average.desc",
+        "vote_count.gte": language ? 50 : 300,
+        page,
+      });
+    default:
+      throw new Error(`Unknown rail: ${railId}`);
+  }
+}
+
+/**
+ * One page of a rail, minus movies the user has seen or hidden. Used for
+ * per-rail refresh and the "see all" list.
+ */
+export async function getRailPage(
+  rail: Pick<Rail, "id" | "title">,
+  page = 1,
+  options: Pick<RailOptions, "sources"> = {}
+): Promise<RailPage> {
+  const sources = { ...defaultSources, ...options.sources };
+  const [response, watchedIds, hidden] = await Promise.all([
+    fetchRail(sources, rail.id, page),
+    sources.getWatchedMovieIds(),
+    sources.getHiddenMovies(),
+  ]);
+  const source: CandidateSource = { kind: "rail", railId: rail.id };
+  return {
+    items: response.results
+      .filter((m) => !watchedIds.includes(m.id) && !hidden.some((h) => h.movieId === m.id))
+      .map((m) => toRecommendation(m, rail.title, source)),
+    page,
+    totalPages: response.total_pages ?? page,
+  };
+}
+
+/**
+ * Named rails for Home, each seeded by something different from the user's
+ * history:
+ * - "Because you watched X" for the most recent loved movies
+ * - "More from <director>" for the director behind the most loved movies
+ * - "Top <language> <genre> movies you haven't seen" for the favorite
+ *   non-English language (or just the favorite genre)
+ *
+ * A movie appears in at most one rail. Rails that fail or come back empty
+ * are left out.
+ */
+export async function getRecommendationRails(options: RailOptions = {}): Promise<Rail[]> {
+  const { maxRails = 5 } = options;
+  const sources = { ...defaultSources, ...options.sources };
+
+  const [watchHistory, genres] = await Promise.all([sources.getWatchHistory(), sources.getGenres()]);
+  const loved = watchHistory
+    .filter((m) => m.rating >= 8)
+    .sort((a, b) => b.watchedAt.localeCompare(a.watchedAt) || b.rating - a.rating);
+  if (loved.length === 0) return [];
+
+  const watchedRails = loved.slice(0, WATCHED_RAILS).map((m) => ({
+    id: `watched:${m.movieId}`,
+    title: `Because you watched ${m.title}`,
+    kind: "watched" as const,
   }));
+
+  // Directors and languages come from the loved movies' details
+  const profileMovies = loved.slice(0, PROFILE_MOVIES);
+  const content = await Promise.all(
+    profileMovies.map((m) => sources.getMovieContent(m.movieId).catch(() => null))
+  );
+
+  const directors = new Map<number, { name: string; weight: number }>();
+  const languages = new Map<string, number>();
+  content.forEach((c, i) => {
+    if (!c) return;
+    const weight = profileMovies[i].rating - 7;
+    for (const member of c.credits.crew) {
+      if (member.job !== "Director") continue;
+      const entry = directors.get(member.id) ?? { name: member.name, weight: 0 };
+      entry.weight += weight;
+      directors.set(member.id, entry);
+    }
+    if (c.originalLanguage && c.originalLanguage !== "en" && LANGUAGE_NAMES[c.originalLanguage]) {
+      languages.set(c.originalLanguage, (languages.get(c.originalLanguage) ?? 0) + weight);
+    }
+  });
+
+  const otherRails: { id: string; title: string; kind: Rail["kind"] }[] = [];
+  const [directorId, director] = [...directors.entries()].sort((a, b) => b[1].weight - a[1].weight)[0] ?? [];
+  if (director) {
+    otherRails.push({ id: `director:${directorId}`, title: `More from ${director.name}`, kind: "director" });
+  }
+
+  // Favorite genre, among movies in the favorite foreign language if there is one
+  const language = [...languages.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const genreCounts = new Map<number, number>();
+  profileMovies.forEach((m, i) => {
+    if (language && content[i]?.originalLanguage !== language) return;
+    for (const g of m.genres) genreCounts.set(g, (genreCounts.get(g) ?? 0) + 1);
+  });
+  const genreId = [...genreCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const genreName = genres.find((g) => g.id === genreId)?.name;
+  if (genreId !== undefined && genreName) {
+    otherRails.push({
+      id: language ? `genre:${genreId}:${language}` : `genre:${genreId}`,
+      title: language
+        ? `Top ${LANGUAGE_NAMES[language]} ${genreName} movies you haven't seen`
+        : `Top ${genreName} movies you haven't seen`,
+      kind: "genre",
+    });
+  }
+
+  // Alternate "Because you watched" with the others
+  const planned: { id: string; title: string; kind: Rail["kind"] }[] = [];
+  for (let i = 0; i < Math.max(watchedRails.length, otherRails.length); i++) {
+    if (watchedRails[i]) planned.push(watchedRails[i]);
+    if (otherRails[i]) planned.push(otherRails[i]);
+  }
+
+  const pages = await Promise.allSettled(
+    planned.slice(0, maxRails).map((rail) => getRailPage(rail, 1, { sources }))
+  );
+
+  const shown = new Set<number>();
+  const rails: Rail[] = [];
+  pages.forEach((result, i) => {
+    if (result.status !== "fulfilled") return;
+    const items = result.value.items.filter((item) => !shown.has(item.id));
+    if (items.length === 0) return;
+    items.forEach((item) => shown.add(item.id));
+    rails.push({ ...planned[i], ...result.value, items });
+  });
+  return rails;
+}
+
+// ── Watching together ─────────────────────────────────────────────────────
+
+/**
+ * How members' match scores combine: "leastMisery" ranks by the least happy
+ * member, "average" by the mean.
+ */
+export type GroupStrategy = "leastMisery" | "average";
+
+export interface GroupRecommendationOptions extends RecommendationOptions {
+  strategy?: GroupStrategy;  // default "leastMisery"
+}
+
+/** How well a group pick suits one member. */
+export interface MemberFit {
+  userId: string;
+  name: string;
+  matchScore: number;   // 0–100 against this member's taste alone
+  reason: string;       // From their own history, e.g. "Because you loved Inception"
+}
+
+export interface GroupRecommendation extends Recommendation {
+  groupScore: number;   // Members' match scores combined by the strategy; also in matchScore
+  members: MemberFit[];
+}
+
+/** Members' scores within this many points of each other count as a pick for everyone. */
+const CONSENSUS_SPREAD = 15;
+
+/** The engine's sources, reading one member's data instead of the active user's. */
+function memberSources(sources: RecommendationSources, member: storage.UserData): RecommendationSources {
+  return {
+    ...sources,
+    getPreferences: async () => member.profile.preferences,
+    getWatchedMovieIds: async () => member.profile.watchHistory.map((m) => m.movieId),
+    getWatchHistory: async () => member.profile.watchHistory,
+    getHiddenMovies: async () => member.hidden,
+  };
+}
+
+/**
+ * A pooled candidate as one member sees it: "because you loved" only counts
+ * for whoever loved the seed. Found only through someone else's favorites,
+ * it's just a discovery to them.
+ */
+function forMember(candidate: Candidate, taste: Taste): Candidate {
+  const own = candidate.sources.filter(
+    (s) => !isSeeded(s) || taste.highlyRated.some((m) => m.movieId === s.seedId)
+  );
+  return { movie: candidate.movie, sources: own.length > 0 ? own : [{ kind: "discover" }] };
+}
+
+function groupReason(fits: MemberFit[]): string {
+  if (fits.length === 1) return fits[0].reason;
+  const sorted = [...fits].sort((a, b) => b.matchScore - a.matchScore);
+  if (sorted[0].matchScore - sorted[sorted.length - 1].matchScore <= CONSENSUS_SPREAD) {
+    return fits.length === 2 ? "A good fit for both of you" : `A good fit for all ${fits.length} of you`;
+  }
+  return `Best for ${sorted[0].name}`;
+}
+
+/**
+ * Recommendations for several profiles watching together:
+ * 1. Load each member's taste as getRecommendations() would
+ * 2. Pool everyone's candidates, minus anything any member has seen or hidden
+ * 3. Score the pool against each member; a genre any member excludes
+ *    drops the movie
+ * 4. Combine the members' match scores by `strategy` and re-rank for diversity
+ *
+ * Each pick lists every member's fit so the UI can show who it suits.
+ */
+export async function getGroupRecommendations(
+  userIds: string[],
+  options: GroupRecommendationOptions = {}
+): Promise<GroupRecommendation[]> {
+  const { limit = DEFAULT_LIMIT, diversity = 0.3, strategy = "leastMisery" } = options;
+  const sources = { ...defaultSources, ...options.sources };
+  const random = resolveRandom(options);
+
+  const ids = [...new Set(userIds)];
+  if (ids.length === 0) {
+    throw new Error("Group recommendations need at least one member");
+  }
+  const members = await Promise.all(ids.map((id) => sources.getUserData(id)));
+  const model = await loadItemModel(sources, options);
+  const loaded = await Promise.all(
+    members.map((member) => loadTaste(memberSources(sources, member), options, model))
+  );
+
+  // Nothing anyone has seen or dismissed
+  const skipIds = [...new Set(loaded.flatMap((t) => t.skipIds))];
+  const tastes = loaded.map((taste) => ({ ...taste, skipIds }));
+  const providers = await providerFilter(sources, options);
+
+  const batches = await Promise.all(
+    tastes
+      .filter((taste) => taste.topGenres.length > 0)
+      .map((taste) => gatherForTaste(sources, taste, options, providers, random))
+  );
+  const pool = new Map<number, Candidate>();
+  for (const { movie, sources: from } of batches.flat()) {
+    const existing = pool.get(movie.id);
+    if (existing) {
+      const known = new Set(existing.sources.map(sourceKey));
+      existing.sources.push(...from.filter((s) => !known.has(sourceKey(s))));
+    }
+    else pool.set(movie.id, { movie, sources: [...from] });
+  }
+  if (pool.size === 0) {
+    // Nobody has favorite genres yet: start from what's popular
+    for (const candidate of await popularCandidates(sources, providers)) pool.set(candidate.movie.id, candidate);
+  }
+  if (!providers) {
+    for (const taste of tastes) {
+      for (const candidate of await collaborativeCandidates(sources, taste, [...pool.values()])) {
+        pool.set(candidate.movie.id, candidate);
+      }
+    }
+  }
+
+  const scored = await Promise.all(
+    tastes.map(async (taste) => {
+      const list = await scoreCandidates(sources, taste, [...pool.values()].map((c) => forMember(c, taste)), options);
+      return new Map(list.map((candidate) => [candidate.movie.id, candidate]));
+    })
+  );
+  const genreMap = await loadGenreMap(sources);
+
+  const fitsById = new Map<number, MemberFit[]>();
+  const combined: ScoredCandidate[] = [];
+  for (const candidate of pool.values()) {
+    const perMember = scored.map((byId) => byId.get(candidate.movie.id));
+    if (perMember.some((c) => c === undefined)) continue;
+
+    const fits = (perMember as ScoredCandidate[]).map((c, i): MemberFit => {
+      const { matchScore = 0, reason } = formatScored(c, tastes[i], genreMap, false);
+      return { userId: members[i].id, name: members[i].name, matchScore, reason };
+    });
+    const scores = fits.map((f) => f.matchScore);
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const least = Math.min(...scores);
+    // The other strategy breaks ties
+    const groupScore = strategy === "average" ? average + least / 1000 : least + average / 1000;
+
+    fitsById.set(candidate.movie.id, fits);
+    combined.push({
+      ...candidate,
+      score: groupScore,
+      collectionId: perMember.find((c) => c?.collectionId !== undefined)?.collectionId,
+      parts: { base: 0, genres: 0, collaborative: 0, popularity: 0, sources: 0, content: 0, dislike: 0, recency: 0 },
+      dislikedGenres: [],
+    });
+  }
+  combined.sort((a, b) => b.score - a.score);
+
+  return rankStream(combined, limit, diversity, random)
+    .slice(0, limit)
+    .map(({ movie, sources: from, score }) => {
+      const fits = fitsById.get(movie.id)!;
+      const groupScore = Math.round(score);
+      return {
+        ...toRecommendation(movie, groupReason(fits), from[0]),
+        matchScore: groupScore,
+        groupScore,
+        members: fits,
+      };
+    });
 }
 
 /**
@@ -5,6 +5,8 @@
  * Frontend integration: Import and call these functions to get/set user data.
  */
 
+import { isNodeRuntime, getAsyncStorage, removeItem } from "./persistentStore.ts";
+
 // ── Types ──────────────────────────────────────────────────────────────────
 
 export interface WatchedMovie {
@@ -14,11 +16,26 @@ export interface WatchedMovie {
   watchedAt: string;     // ISO date
   genres: number[];      // TMDB genre IDs
   posterPath?: string | null;
+  collectionId?: number | null;  // TMDB collection; null = standalone, undefined = not looked up yet
 }
 
 export interface UserPreferences {
   favoriteGenres: number[];  // TMDB genre IDs
   notes?: string;
+  watchRegion?: string;          // ISO 3166-1 used for watch providers (default "US")
+  streamingServices?: number[];  // TMDB watch provider IDs the user subscribes to
+  language?: string;             // TMDB language tag for titles/overviews (default "en-US")
+  region?: string;               // ISO 3166-1 for region-aware lists (default "US")
+}
+
+export interface WatchSettings {
+  region: string;
+  services: number[];
+}
+
+export interface LocaleSettings {
+  language: string;
+  region: string;
 }
 
 export interface UserProfile {
@@ -39,6 +56,44 @@ export interface WatchlistEntry {
   addedAt: string; // ISO date
 }
 
+/** Everything the recommendations read for one profile. */
+export interface UserData {
+  id: string;
+  name: string;
+  profile: UserProfile;
+  hidden: HiddenMovie[];
+}
+
+/** One rating by anyone: a profile on this device or a rater in an imported dataset. */
+export interface RaterRating {
+  raterId: string;
+  movieId: number;       // TMDB movie ID
+  rating: number;        // 1-10
+}
+
+/**
+ * Ratings imported from elsewhere (e.g. a MovieLens export), used for
+ * collaborative filtering. The ratings themselves are loaded separately.
+ */
+export interface RatingDataset {
+  id: string;
+  name: string;
+  importedAt: string;    // ISO date
+  count: number;         // Ratings in the dataset
+}
+
+/** Why a movie was dismissed with "Not interested"; null = no reason given. */
+export type NotInterestedReason = "seenElsewhere" | "notMyGenre" | "dislikeActor";
+
+export interface HiddenMovie {
+  movieId: number;
+  title: string;
+  posterPath: string | null;
+  genres: number[];      // TMDB genre IDs
+  reason: NotInterestedReason | null;
+  hiddenAt: string;      // ISO date
+}
+
 // ── Built-in user profiles ────────────────────────────────────────────────
 
 const USER_PROFILES: UserEntry[] = [
@@ -91,9 +146,13 @@ const USER_PROFILES: UserEntry[] = [
 // ── State ─────────────────────────────────────────────────────────────────
 
 let _cachedProfile: UserProfile | null = null;
+let _profileLoad: Promise<UserProfile> | null = null;  // First read still in flight
 let _activeUserId: string = "default";
 const STORAGE_KEY_PREFIX = "flickpix_user_profile_v1";
 const WATCHLIST_KEY_PREFIX = "flickpix_watchlist_v1";
+const HIDDEN_KEY_PREFIX = "flickpix_hidden_v1";
+const RATING_DATASETS_KEY = "flickpix_rating_datasets_v2";  // Shared by every profile
+const RATING_DATASET_KEY_PREFIX = "flickpix_rating_dataset_v2";  // One key per dataset's ratings
 
 function storageKey(): string {
   return `${STORAGE_KEY_PREFIX}_${_activeUserId}`;
@@ -103,6 +162,10 @@ function watchlistKey(): string {
   return `${WATCHLIST_KEY_PREFIX}_${_activeUserId}`;
 }
 
+function hiddenKey(): string {
+  return `${HIDDEN_KEY_PREFIX}_${_activeUserId}`;
+}
+
 /**
  * Get list of available users (for the switcher dropdown).
  */
@@ -128,6 +191,8 @@ export function setActiveUser(userId: string): void {
   }
   _activeUserId = userId;
   _cachedProfile = null;
+  _profileLoad = null;
+  _watchlistRead = null;
 }
 
 function getDefaultProfileForActiveUser(): UserProfile {
@@ -135,36 +200,10 @@ function getDefaultProfileForActiveUser(): UserProfile {
   return JSON.parse(JSON.stringify(entry?.profile ?? USER_PROFILES[0].profile)) as UserProfile;
 }
 
-type AsyncStorageLike = {
-  getItem: (key: string) => Promise<string | null>;
-  setItem: (key: string, value: string) => Promise<void>;
-};
-
-let _asyncStorage: AsyncStorageLike | null | undefined;
-
 function cloneDefaultProfile(): UserProfile {
   return getDefaultProfileForActiveUser();
 }
 
-function isNodeRuntime(): boolean {
-  return typeof process !== "undefined" && !!process.versions?.node;
-}
-
-async function getAsyncStorage(): Promise<AsyncStorageLike | null> {
-  if (_asyncStorage !== undefined) {
-    return _asyncStorage;
-  }
-
-  try {
-    const module = await import("@react-native-async-storage/async-storage");
-    _asyncStorage = module.default;
-  } catch {
-    _asyncStorage = null;
-  }
-
-  return _asyncStorage;
-}
-
 async function readFromPersistentStorage(): Promise<UserProfile | null> {
   if (isNodeRuntime()) {
     return null;
@@ -216,7 +255,19 @@ export async function getUserProfile(): Promise<UserProfile> {
     return _cachedProfile;
   }
 
-  // React Native / web environment
+  // Concurrent callers (e.g. a list of cards mounting) share one storage read
+  if (!_profileLoad) {
+    const load = loadProfile();
+    _profileLoad = load;
+    load.then(
+      () => { if (_profileLoad === load) _profileLoad = null; },
+      () => { if (_profileLoad === load) _profileLoad = null; }
+    );
+  }
+  return _profileLoad;
+}
+
+async function loadProfile(): Promise<UserProfile> {
   const persisted = await readFromPersistentStorage();
   if (persisted) {
     _cachedProfile = persisted;
@@ -264,6 +315,64 @@ export async function getPreferences(): Promise<UserPreferences> {
   return profile.preferences;
 }
 
+export const DEFAULT_WATCH_REGION = "US";
+
+/**
+ * Watch settings from preferences already loaded: the watch region falls
+ * back to the content region, then DEFAULT_WATCH_REGION.
+ */
+export function watchSettingsFrom(preferences: Partial<UserPreferences>): WatchSettings {
+  return {
+    region: preferences.watchRegion ?? preferences.region ?? DEFAULT_WATCH_REGION,
+    services: preferences.streamingServices ?? [],
+  };
+}
+
+/**
+ * Get the user's watch region and subscribed streaming services.
+ */
+export async function getWatchSettings(): Promise<WatchSettings> {
+  return watchSettingsFrom(await getPreferences());
+}
+
+/**
+ * Update the watch region and/or subscribed services.
+ */
+export async function updateWatchSettings(settings: Partial<WatchSettings>): Promise<void> {
+  const profile = await getUserProfile();
+  if (settings.region !== undefined) profile.preferences.watchRegion = settings.region;
+  if (settings.services !== undefined) profile.preferences.streamingServices = [...settings.services];
+  _cachedProfile = profile;
+
+  await writeToPersistentStorage(profile);
+}
+
+export const DEFAULT_LANGUAGE = "en-US";
+export const DEFAULT_REGION = "US";
+
+/**
+ * Language and region the user browses TMDB in.
+ */
+export async function getLocaleSettings(): Promise<LocaleSettings> {
+  const preferences = await getPreferences();
+  return {
+    language: preferences.language ?? DEFAULT_LANGUAGE,
+    region: preferences.region ?? DEFAULT_REGION,
+  };
+}
+
+/**
+ * Update the language and/or region.
+ */
+export async function updateLocaleSettings(settings: Partial<LocaleSettings>): Promise<void> {
+  const profile = await getUserProfile();
+  if (settings.language !== undefined) profile.preferences.language = settings.language;
+  if (settings.region !== undefined) profile.preferences.region = settings.region;
+  _cachedProfile = profile;
+
+  await writeToPersistentStorage(profile);
+}
+
 /**
  * Add a movie to watch history (frontend will call this after user marks as watched).
  * In production, would persist to AsyncStorage.
@@ -306,11 +415,32 @@ export async function removeFromWatchHistory(movieId: number): Promise<void> {
  */
 export function clearCache(): void {
   _cachedProfile = null;
+  _profileLoad = null;
+  _watchlistRead = null;
 }
 
 // ── Watchlist ─────────────────────────────────────────────────────────────
 
+let _watchlistRead: Promise<WatchlistEntry[]> | null = null;
+
+/**
+ * Read the watchlist, sharing one storage read between concurrent callers.
+ * Each caller gets its own copy so mutating it before a write is safe.
+ */
 async function readWatchlistFromStorage(): Promise<WatchlistEntry[]> {
+  if (!_watchlistRead) {
+    const read = readWatchlistEntries();
+    _watchlistRead = read;
+    read.then(
+      () => { if (_watchlistRead === read) _watchlistRead = null; },
+      () => { if (_watchlistRead === read) _watchlistRead = null; }
+    );
+  }
+  const entries = await _watchlistRead;
+  return [...entries];
+}
+
+async function readWatchlistEntries(): Promise<WatchlistEntry[]> {
   if (isNodeRuntime()) return [];
   const key = watchlistKey();
   if (typeof window !== "undefined" && window.localStorage) {
@@ -324,6 +454,7 @@ async function readWatchlistFromStorage(): Promise<WatchlistEntry[]> {
 }
 
 async function writeWatchlistToStorage(entries: WatchlistEntry[]): Promise<void> {
+  _watchlistRead = null; // Don't hand out a read that predates this write
   if (isNodeRuntime()) return;
   const key = watchlistKey();
   const serialized = JSON.stringify(entries);
@@ -374,6 +505,176 @@ export async function isInWatchlist(movieId: number): Promise<boolean> {
   return list.some((e) => e.movieId === movieId);
 }
 
+// ── Not interested ────────────────────────────────────────────────────────
+
+async function writeHiddenMovies(entries: HiddenMovie[]): Promise<void> {
+  await writeToStorage(hiddenKey(), JSON.stringify(entries));
+}
+
+/**
+ * Movies the user dismissed with "Not interested", most recent first.
+ */
+export async function getHiddenMovies(): Promise<HiddenMovie[]> {
+  const raw = await readFromStorage(hiddenKey());
+  return raw ? (JSON.parse(raw) as HiddenMovie[]) : [];
+}
+
+export async function getHiddenMovieIds(): Promise<number[]> {
+  const hidden = await getHiddenMovies();
+  return hidden.map((m) => m.movieId);
+}
+
+/**
+ * Hide a movie from recommendations and mood results. Hiding it again
+ * replaces the earlier reason.
+ */
+export async function hideMovie(entry: {
+  movieId: number;
+  title: string;
+  posterPath?: string | null;
+  genres: number[];
+  reason?: NotInterestedReason | null;
+}): Promise<void> {
+  const hidden = await getHiddenMovies();
+  await writeHiddenMovies([
+    {
+      movieId: entry.movieId,
+      title: entry.title,
+      posterPath: entry.posterPath ?? null,
+      genres: entry.genres,
+      reason: entry.reason ?? null,
+      hiddenAt: new Date().toISOString(),
+    },
+    ...hidden.filter((m) => m.movieId !== entry.movieId),
+  ]);
+}
+
+/**
+ * Undo "Not interested".
+ */
+export async function unhideMovie(movieId: number): Promise<void> {
+  const hidden = await getHiddenMovies();
+  await writeHiddenMovies(hidden.filter((m) => m.movieId !== movieId));
+}
+
+// ── Other profiles ────────────────────────────────────────────────────────
+
+/**
+ * Read any profile on the device without switching to it, e.g. for
+ * watching together. Profiles never opened fall back to their built-in
+ * history.
+ */
+export async function getUserData(userId: string): Promise<UserData> {
+  const entry = USER_PROFILES.find((u) => u.id === userId);
+  if (!entry) {
+    throw new Error(`Unknown user ID: ${userId}`);
+  }
+  if (userId === _activeUserId) {
+    const [profile, hidden] = await Promise.all([getUserProfile(), getHiddenMovies()]);
+    return { id: userId, name: entry.name, profile, hidden };
+  }
+
+  const [rawProfile, rawHidden] = await Promise.all([
+    readFromStorage(`${STORAGE_KEY_PREFIX}_${userId}`),
+    readFromStorage(`${HIDDEN_KEY_PREFIX}_${userId}`),
+  ]);
+  return {
+    id: userId,
+    name: entry.name,
+    profile: rawProfile
+      ? (JSON.parse(rawProfile) as UserProfile)
+      : (JSON.parse(JSON.stringify(entry.profile)) as UserProfile),
+    hidden: rawHidden ? (JSON.parse(rawHidden) as HiddenMovie[]) : [],
+  };
+}
+
+/**
+ * Every rating on the device: each profile's history (as rater
+ * "user:<id>") and every imported dataset (as "<dataset id>:<rater>").
+ */
+export async function getDeviceRatings(): Promise<RaterRating[]> {
+  const [users, datasets] = await Promise.all([
+    Promise.all(USER_PROFILES.map((u) => getUserData(u.id))),
+    getRatingDatasets(),
+  ]);
+  const imported = await Promise.all(datasets.map((d) => getRatingDatasetRatings(d.id)));
+  return [
+    ...users.flatMap((user) =>
+      user.profile.watchHistory.map((m) => ({ raterId: `user:${user.id}`, movieId: m.movieId, rating: m.rating }))
+    ),
+    ...imported.flatMap((ratings, i) =>
+      ratings.map((r) => ({ ...r, raterId: `${datasets[i].id}:${r.raterId}` }))
+    ),
+  ];
+}
+
+// ── Imported ratings ──────────────────────────────────────────────────────
+
+/** A dataset's ratings as [raterId, movieId, rating] rows, about half the size of objects. */
+type StoredRatings = [string, number, number][];
+
+function ratingDatasetKey(datasetId: string): string {
+  return `${RATING_DATASET_KEY_PREFIX}_${datasetId}`;
+}
+
+/** localStorage's QuotaExceededError (Firefox: NS_ERROR_DOM_QUOTA_REACHED) or a full AsyncStorage database. */
+function isStorageFull(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return (
+    error.name === "QuotaExceededError" ||
+    error.name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    /quota|database or disk is full|SQLITE_FULL/i.test(error.message)
+  );
+}
+
+/** The imported datasets, without their ratings. */
+export async function getRatingDatasets(): Promise<RatingDataset[]> {
+  const raw = await readFromStorage(RATING_DATASETS_KEY);
+  return raw ? (JSON.parse(raw) as RatingDataset[]) : [];
+}
+
+export async function getRatingDatasetRatings(datasetId: string): Promise<RaterRating[]> {
+  const raw = await readFromStorage(ratingDatasetKey(datasetId));
+  if (!raw) return [];
+  return (JSON.parse(raw) as StoredRatings).map(([raterId, movieId, rating]) => ({ raterId, movieId, rating }));
+}
+
+/**
+ * Store a dataset of other people's ratings for collaborative filtering.
+ * Ratings must already use TMDB movie IDs and the 1-10 scale, as
+ * collaborative.parseRatingsCsv() gives them. Each dataset gets its own
+ * storage key; if the device runs out of room, nothing is kept and the
+ * error says so.
+ */
+export async function importRatingDataset(name: string, ratings: RaterRating[]): Promise<RatingDataset> {
+  const datasets = await getRatingDatasets();
+  const dataset: RatingDataset = {
+    id: `ds${Date.now().toString(36)}`,
+    name: name.trim() || "Imported ratings",
+    importedAt: new Date().toISOString(),
+    count: ratings.length,
+  };
+  const rows: StoredRatings = ratings.map((r) => [r.raterId, r.movieId, Math.round(r.rating * 10) / 10]);
+  try {
+    await writeToStorage(ratingDatasetKey(dataset.id), JSON.stringify(rows));
+    await writeToStorage(RATING_DATASETS_KEY, JSON.stringify([...datasets, dataset]));
+  } catch (error) {
+    await removeItem(ratingDatasetKey(dataset.id)).catch(() => {});
+    if (!isStorageFull(error)) throw error;
+    throw new Error(
+      `Not enough storage left for ${ratings.length.toLocaleString()} ratings. ` +
+        "Remove a dataset or import a smaller file."
+    );
+  }
+  return dataset;
+}
+
+export async function removeRatingDataset(datasetId: string): Promise<void> {
+  const datasets = await getRatingDatasets();
+  await writeToStorage(RATING_DATASETS_KEY, JSON.stringify(datasets.filter((d) => d.id !== datasetId)));
+  await removeItem(ratingDatasetKey(datasetId));
+}
+
 // ── Onboarding ────────────────────────────────────────────────────────────
 
 const ONBOARDING_KEY = "flickpix_onboarded";
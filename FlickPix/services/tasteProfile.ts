@@ -0,0 +1,98 @@
+/**
+ * Taste over time: how much each watch entry still says about the user's
+ * current taste, and how their top genres have shifted quarter by quarter.
+ *
+ * Pure functions over the watch history.
+ */
+
+import type { WatchedMovie } from "./storage.ts";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface QuarterTaste {
+  label: string;                               // e.g. "2024 Q3"
+  start: string;                               // ISO date of the quarter's first day
+  watched: number;                             // Entries in the quarter
+  genres: { id: number; share: number }[];     // Top genres; share of the quarter's taste in [0, 1]
+}
+
+export interface TasteDriftOptions {
+  quarters?: number;   // Most recent quarters with any entries (default 4)
+  topGenres?: number;  // Genres per quarter (default 3)
+}
+
+/** Default for RecommendationOptions.tasteHalfLifeDays. */
+export const DEFAULT_HALF_LIFE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Recency ───────────────────────────────────────────────────────────────
+
+/**
+ * Weight of each entry by movieId: 1 for the most recent watch, halving for
+ * every `halfLifeDays` before it. Ages count back from the latest entry, not
+ * from today, so a break from the app doesn't wipe the profile. A half-life
+ * of 0 (or less) turns decay off.
+ */
+export function watchWeights(history: WatchedMovie[], halfLifeDays: number): Map<number, number> {
+  const times = history.map((m) => Date.parse(m.watchedAt));
+  const latest = Math.max(...times.filter((t) => !Number.isNaN(t)));
+
+  return new Map(
+    history.map((m, i) => {
+      if (halfLifeDays <= 0 || Number.isNaN(times[i]) || !Number.isFinite(latest)) return [m.movieId, 1];
+      const ageDays = (latest - times[i]) / DAY_MS;
+      return [m.movieId, 0.5 ** (ageDays / halfLifeDays)];
+    })
+  );
+}
+
+// ── Drift ─────────────────────────────────────────────────────────────────
+
+function quarterOf(watchedAt: string): { label: string; start: string } | null {
+  const date = new Date(watchedAt);
+  if (Number.isNaN(date.getTime())) return null;
+  const year = date.getUTCFullYear();
+  const quarter = Math.floor(date.getUTCMonth() / 3);
+  const month = String(quarter * 3 + 1).padStart(2, "0");
+  return { label: `${year} Q${quarter + 1}`, start: `${year}-${month}-01` };
+}
+
+/**
+ * Top genres per calendar quarter, oldest first. Each entry counts towards
+ * its genres by how much the user liked it (a 10 counts 5, a 6 counts 1, a 5
+ * or lower not at all), so the view shows taste rather than volume.
+ */
+export function getTasteDrift(history: WatchedMovie[], options: TasteDriftOptions = {}): QuarterTaste[] {
+  const { quarters = 4, topGenres = 3 } = options;
+
+  const byQuarter = new Map<string, { start: string; watched: number; genres: Map<number, number> }>();
+  for (const movie of history) {
+    const quarter = quarterOf(movie.watchedAt);
+    if (!quarter) continue;
+    const entry = byQuarter.get(quarter.label) ?? { start: quarter.start, watched: 0, genres: new Map() };
+    entry.watched++;
+    const weight = Math.max(movie.rating - 5, 0);
+    for (const genreId of movie.genres) {
+      entry.genres.set(genreId, (entry.genres.get(genreId) ?? 0) + weight);
+    }
+    byQuarter.set(quarter.label, entry);
+  }
+
+  return [...byQuarter.entries()]
+    .sort((a, b) => a[1].start.localeCompare(b[1].start))
+    .slice(-quarters)
+    .map(([label, { start, watched, genres }]) => {
+      const total = [...genres.values()].reduce((sum, w) => sum + w, 0);
+      return {
+        label,
+        start,
+        watched,
+        genres: [...genres.entries()]
+          .filter(([, weight]) => weight > 0)
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, topGenres)
+          .map(([id, weight]) => ({ id, share: weight / total })),
+      };
+    });
+}
@@ -7,7 +7,43 @@
  * Docs: https://developer.themoviedb.org/reference/intro/getting-started
  */
 
-const BASE_URL = "https://api.themoviedb.org/3";
+import { cachedFetch, cacheKey } from "./tmdbCache.ts";
+import {
+  ApiError,
+  AuthError,
+  MalformedResponseError,
+  NetworkError,
+  RateLimitError,
+  RequestAbortedError,
+  errorFromResponse,
+  isAbortError,
+} from "./errors.ts";
+
+export {
+  clearResponseCache,
+  inspectResponseCache,
+  getResponseCacheStats,
+  setResponseCacheEnabled,
+  type CacheEntryInfo,
+  type CacheStats,
+} from "./tmdbCache.ts";
+
+export {
+  ApiError,
+  AuthError,
+  NotFoundError,
+  RateLimitError,
+  NetworkError,
+  QuotaExceededError,
+  MalformedResponseError,
+  RequestAbortedError,
+  describeError,
+  isAbortError,
+  type ApiErrorKind,
+  type ErrorDisplay,
+} from "./errors.ts";
+
+const DEFAULT_BASE_URL = "https://api.themoviedb.org/3";
 const IMAGE_BASE = "https://image.tmdb.org/t/p";
 
 // ── Types ──────────────────────────────────────────────────────────────────
@@ -32,8 +68,22 @@ export interface MovieSummary {
   adult: boolean;
 }
 
+export interface CollectionSummary {
+  id: number;
+  name: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+}
+
+/** A franchise, e.g. "The Lord of the Rings Collection". */
+export interface Collection extends CollectionSummary {
+  overview: string;
+  parts: MovieSummary[];   // TMDB's order; not necessarily release order
+}
+
 export interface MovieDetails extends Omit<MovieSummary, "genre_ids"> {
   genres: Genre[];
+  belongs_to_collection: CollectionSummary | null;
   runtime: number | null;
   tagline: string;
   budget: number;
@@ -63,6 +113,86 @@ export interface Credits {
   crew: CrewMember[];
 }
 
+export interface PersonSummary {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  known_for_department: string;   // "Acting", "Directing", …
+  popularity: number;
+  known_for?: MovieSummary[];     // Only on search results; may include TV entries
+}
+
+export interface Person extends PersonSummary {
+  biography: string;
+  birthday: string | null;        // YYYY-MM-DD
+  deathday: string | null;
+  place_of_birth: string | null;
+  also_known_as: string[];
+  imdb_id: string | null;
+}
+
+/** A movie from a person's filmography, with their role in it. */
+export interface PersonCastCredit extends MovieSummary {
+  character: string;
+  credit_id: string;
+  order: number;
+}
+
+export interface PersonCrewCredit extends MovieSummary {
+  job: string;
+  department: string;
+  credit_id: string;
+}
+
+export interface PersonMovieCredits {
+  id: number;
+  cast: PersonCastCredit[];
+  crew: PersonCrewCredit[];
+}
+
+export interface ReleaseDate {
+  certification: string;   // e.g. "PG-13"; empty when unrated
+  iso_639_1: string;
+  note: string;
+  release_date: string;    // ISO date-time
+  type: number;            // 1 premiere … 3 theatrical, 4 digital, 5 physical, 6 TV
+}
+
+export interface ReleaseDates {
+  results: { iso_3166_1: string; release_dates: ReleaseDate[] }[];
+}
+
+export interface Keyword {
+  id: number;
+  name: string;
+}
+
+export interface WatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path: string | null;
+  display_priority: number;
+}
+
+export interface WatchProviderRegion {
+  link: string;            // TMDB/JustWatch page for this region
+  flatrate?: WatchProvider[];
+  free?: WatchProvider[];
+  ads?: WatchProvider[];
+  rent?: WatchProvider[];
+  buy?: WatchProvider[];
+}
+
+export interface WatchProviders {
+  results: Record<string, WatchProviderRegion>;  // Keyed by ISO 3166-1 region
+}
+
+export interface WatchRegion {
+  iso_3166_1: string;
+  english_name: string;
+  native_name: string;
+}
+
 export interface DiscoverOptions {
   with_genres?: string;
   without_genres?: string;
@@ -85,6 +215,9 @@ export interface DiscoverOptions {
   "certification.lte"?: string;
   with_cast?: string;                     // comma-separated person IDs
   with_crew?: string;
+  with_watch_providers?: string;          // pipe-separated provider IDs (OR)
+  watch_region?: string;                  // ISO 3166-1, required with with_watch_providers
+  with_watch_monetization_types?: string; // pipe-separated: flatrate|free|ads|rent|buy
   page?: number;
 }
 
@@ -106,13 +239,323 @@ function getApiKey(): string {
     _apiKey = envKey;
     return _apiKey;
   }
-  throw new Error(
-    "TMDB API key not set. Call setApiKey() or pass it to the test script."
+  throw new AuthError(
+    "TMDB API key not set. Call setApiKey() or pass it to the test script.",
+    { service: "tmdb", endpoint: "" }
   );
 }
 
-async function tmdbFetch<T>(path: string, params: Record<string, string | number> = {}): Promise<T> {
-  const url = new URL(`${BASE_URL}${path}`);
+export interface RequestOptions {
+  signal?: AbortSignal;  // Stops waiting; the network request is cancelled once no caller is left
+}
+
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/** Requests currently on the wire, keyed like the response cache. */
+const _inflight = new Map<string, InflightRequest>();
+
+let _baseUrl: string | null = null;
+
+/**
+ * Point the client at another TMDB-compatible server, such as the local
+ * stand-in in scripts/mock-tmdb-server.mjs. Pass null to go back to the
+ * EXPO_PUBLIC_TMDB_BASE_URL / TMDB_BASE_URL env var or the real API.
+ */
+export function setBaseUrl(url: string | null) {
+  _baseUrl = url ? url.replace(/\/+$/, "") : null;
+}
+
+export function getBaseUrl(): string {
+  if (_baseUrl) return _baseUrl;
+  const envUrl = typeof process !== "undefined"
+    ? process.env.EXPO_PUBLIC_TMDB_BASE_URL || process.env.TMDB_BASE_URL
+    : undefined;
+  return envUrl ? envUrl.replace(/\/+$/, "") : DEFAULT_BASE_URL;
+}
+
+// ── Locale ────────────────────────────────────────────────────────────────
+
+export interface Locale {
+  language: string;  // IETF tag TMDB understands, e.g. "en-US", "fr-FR", "ja-JP"
+  region: string;    // ISO 3166-1, e.g. "US", "FR"
+}
+
+export const DEFAULT_LOCALE: Locale = { language: "en-US", region: "US" };
+const FALLBACK_LANGUAGE = "en-US";
+
+let _locale: Locale = { ...DEFAULT_LOCALE };
+
+/**
+ * Set the language and region sent with every request. Titles, overviews,
+ * genre names and region-aware lists (popular, top rated, search release
+ * dates) follow it. Call again whenever the active user changes.
+ */
+export function setLocale(locale: Partial<Locale>) {
+  _locale = { ..._locale, ...locale };
+}
+
+export function getLocale(): Locale {
+  return { ..._locale };
+}
+
+type WithOverview = { id?: number; overview?: string };
+type OverviewCarrier = { overview?: string; biography?: string; results?: WithOverview[] };
+
+function hasMissingOverview(data: unknown): boolean {
+  const record = data as OverviewCarrier | null;
+  if (!record || typeof record !== "object") return false;
+  if (record.overview === "" || record.biography === "") return true;
+  return Array.isArray(record.results) && record.results.some((r) => r.overview === "");
+}
+
+function mergeOverviews<T>(data: T, english: T): T {
+  const target = data as OverviewCarrier;
+  const source = english as OverviewCarrier;
+  const merged: OverviewCarrier = { ...target };
+  if (target.overview === "" && source.overview) merged.overview = source.overview;
+  if (target.biography === "" && source.biography) merged.biography = source.biography;
+  if (Array.isArray(target.results) && Array.isArray(source.results)) {
+    const englishById = new Map(source.results.map((r) => [r.id, r.overview]));
+    merged.results = target.results.map((r) =>
+      r.overview === "" && englishById.get(r.id) ? { ...r, overview: englishById.get(r.id) } : r
+    );
+  }
+  return merged as T;
+}
+
+/**
+ * TMDB returns an empty overview when there is no translation. Fill those
+ * from the English version so cards never show a blank synopsis.
+ */
+async function withEnglishOverviews<T>(
+  path: string,
+  params: Record<string, string | number>,
+  data: T,
+  options: RequestOptions
+): Promise<T> {
+  const language = String(params.language ?? "");
+  if (!language || language.startsWith("en") || !hasMissingOverview(data)) return data;
+
+  // Only the overview is needed, so skip any appended sub-requests
+  const { append_to_response: _append, ...rest } = params;
+  try {
+    const english = await sharedFetch<T>(path, { ...rest, language: FALLBACK_LANGUAGE }, options);
+    return mergeOverviews(data, english);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    return data; // A blank overview beats failing the whole request
+  }
+}
+
+// ── Request pipeline ──────────────────────────────────────────────────────
+
+/**
+ * All API methods go through here. The current locale is added to every
+ * request (explicit params win), responses are served from the cache
+ * (see tmdbCache.ts) when fresh enough, and identical concurrent calls
+ * share a single request.
+ */
+async function tmdbFetch<T>(
+  path: string,
+  params: Record<string, string | number> = {},
+  options: RequestOptions = {}
+): Promise<T> {
+  const localized = { language: _locale.language, region: _locale.region, ...params };
+  const data = await sharedFetch<T>(path, localized, options);
+  return withEnglishOverviews(path, localized, data, options);
+}
+
+async function sharedFetch<T>(
+  path: string,
+  params: Record<string, string | number>,
+  options: RequestOptions
+): Promise<T> {
+  const { signal } = options;
+  if (signal?.aborted) throw new RequestAbortedError(path);
+
+  const key = cacheKey(path, params);
+  let request = _inflight.get(key);
+  if (!request) {
+    const controller = new AbortController();
+    const created: InflightRequest = {
+      // A background refresh outlives the callers, so it gets its own signal
+      promise: cachedFetch(path, params, (background) =>
+        requestJson<T>(path, params, background ? new AbortController().signal : controller.signal)
+      ),
+      controller,
+      subscribers: 0,
+    };
+    const settle = () => {
+      if (_inflight.get(key) === created) _inflight.delete(key);
+    };
+    created.promise.then(settle, settle);
+    _inflight.set(key, created);
+    request = created;
+  }
+
+  // Callers without a signal can't leave, so they keep the request alive
+  request.subscribers++;
+  if (!signal) return request.promise as Promise<T>;
+
+  const shared = request;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(new RequestAbortedError(path));
+      shared.subscribers--;
+      if (shared.subscribers === 0) {
+        shared.controller.abort();
+        if (_inflight.get(key) === shared) _inflight.delete(key);
+      }
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    shared.promise.then(
+      (data) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(data as T);
+      },
+      (err) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      }
+    );
+  });
+}
+
+// ── Retry, timeout & rate limiting ────────────────────────────────────────
+
+export interface RequestConfig {
+  maxRetries: number;      // Extra attempts after the first (default 3)
+  baseDelayMs: number;     // First backoff step, doubled on every retry (default 500)
+  maxDelayMs: number;      // Cap for a single backoff wait (default 8000)
+  maxRetryAfterMs: number; // Cap for waits requested via Retry-After (default 30000)
+  timeoutMs: number;       // Per-attempt timeout (default 10000)
+  maxConcurrent: number;   // Requests allowed in flight at once (default 6)
+}
+
+const _requestConfig: RequestConfig = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+  timeoutMs: 10000,
+  maxConcurrent: 6,
+};
+
+/**
+ * Tune retry/backoff, timeout and concurrency for all TMDB requests.
+ */
+export function configureRequests(config: Partial<RequestConfig>): void {
+  Object.assign(_requestConfig, config);
+}
+
+let _activeRequests = 0;
+const _waitingRequests: (() => void)[] = [];
+
+async function acquireSlot(path: string, signal: AbortSignal): Promise<void> {
+  if (_activeRequests < _requestConfig.maxConcurrent) {
+    _activeRequests++;
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      // Leave the queue so an aborted request never takes a slot
+      const index = _waitingRequests.indexOf(grant);
+      if (index >= 0) _waitingRequests.splice(index, 1);
+      reject(new RequestAbortedError(path));
+    };
+    const grant = () => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    _waitingRequests.push(grant);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function releaseSlot(): void {
+  const next = _waitingRequests.shift();
+  if (next) {
+    next(); // Hand the slot straight to the next waiter
+  } else {
+    _activeRequests--;
+  }
+}
+
+/** Wait ms, or less if the signal aborts first. */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+/** Exponential backoff with "equal jitter": half fixed, half random. */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(_requestConfig.maxDelayMs, _requestConfig.baseDelayMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/** Parse a Retry-After header (delta-seconds or HTTP date) into ms. */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+interface RawResponse {
+  status: number;
+  ok: boolean;
+  retryAfter: string | null;
+  body: string;
+}
+
+/**
+ * One attempt: waits for a concurrency slot and aborts after timeoutMs or
+ * when the caller's signal fires.
+ */
+async function attemptRequest(url: string, path: string, signal: AbortSignal): Promise<RawResponse> {
+  await acquireSlot(path, signal);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), _requestConfig.timeoutMs);
+  const onAbort = () => controller.abort();
+  signal.addEventListener("abort", onAbort, { once: true });
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    const body = await res.text();
+    return { status: res.status, ok: res.ok, retryAfter: res.headers.get("Retry-After"), body };
+  } catch (err) {
+    if (signal.aborted) throw new RequestAbortedError(path);
+    const timedOut = controller.signal.aborted;
+    throw new NetworkError(
+      timedOut
+        ? `TMDB request timed out after ${_requestConfig.timeoutMs}ms: ${path}`
+        : `TMDB request failed: ${err instanceof Error ? err.message : String(err)}`,
+      { service: "tmdb", endpoint: path, timedOut, cause: err }
+    );
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener("abort", onAbort);
+    releaseSlot();
+  }
+}
+
+async function requestJson<T>(
+  path: string,
+  params: Record<string, string | number>,
+  signal: AbortSignal
+): Promise<T> {
+  const url = new URL(`${getBaseUrl()}${path}`);
   url.searchParams.set("api_key", getApiKey());
   for (const [key, value] of Object.entries(params)) {
     if (value !== undefined && value !== null) {
@@ -120,18 +563,41 @@ async function tmdbFetch<T>(path: string, params: Record<string, string | number
     }
   }
 
-  const res = await fetch(url.toString());
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`TMDB ${res.status}: ${body}`);
+  for (let attempt = 0; ; attempt++) {
+    if (signal.aborted) throw new RequestAbortedError(path);
+    try {
+      const res = await attemptRequest(url.toString(), path, signal);
+      if (!res.ok) {
+        throw errorFromResponse("tmdb", path, res.status, res.body, parseRetryAfter(res.retryAfter));
+      }
+      try {
+        return JSON.parse(res.body) as T;
+      } catch (parseError) {
+        throw new MalformedResponseError(`TMDB sent invalid JSON for ${path}`, {
+          service: "tmdb",
+          endpoint: path,
+          status: res.status,
+          cause: parseError,
+        });
+      }
+    } catch (err) {
+      const canRetry = err instanceof ApiError && err.retryable && attempt < _requestConfig.maxRetries;
+      if (!canRetry) throw err;
+      await sleep(
+        err instanceof RateLimitError && err.retryAfterMs !== null
+          ? Math.min(err.retryAfterMs, _requestConfig.maxRetryAfterMs)
+          : backoffDelay(attempt),
+        signal
+      );
+    }
   }
-  return res.json() as Promise<T>;
 }
 
 // ── Image URLs ─────────────────────────────────────────────────────────────
 
 export type PosterSize = "w92" | "w154" | "w185" | "w342" | "w500" | "w780" | "original";
 export type BackdropSize = "w300" | "w780" | "w1280" | "original";
+export type LogoSize = "w45" | "w92" | "w154" | "w185" | "original";
 
 export function posterUrl(path: string | null, size: PosterSize = "w500"): string | null {
   return path ? `${IMAGE_BASE}/${size}${path}` : null;
@@ -141,27 +607,39 @@ export function backdropUrl(path: string | null, size: BackdropSize = "w780"): s
   return path ? `${IMAGE_BASE}/${size}${path}` : null;
 }
 
+export type ProfileSize = "w45" | "w185" | "h632" | "original";
+
+/** Headshots of cast and crew. */
+export function profileUrl(path: string | null, size: ProfileSize = "w185"): string | null {
+  return path ? `${IMAGE_BASE}/${size}${path}` : null;
+}
+
+/** Provider and company logos. */
+export function logoUrl(path: string | null, size: LogoSize = "w92"): string | null {
+  return path ? `${IMAGE_BASE}/${size}${path}` : null;
+}
+
 // ── API Methods ────────────────────────────────────────────────────────────
 
 /** Get the full list of movie genres (id → name mapping). */
-export async function getGenres(): Promise<Genre[]> {
-  const data = await tmdbFetch<{ genres: Genre[] }>("/genre/movie/list");
+export async function getGenres(options: RequestOptions = {}): Promise<Genre[]> {
+  const data = await tmdbFetch<{ genres: Genre[] }>("/genre/movie/list", {}, options);
   return data.genres;
 }
 
 /** Search movies by title. */
-export async function searchMovies(query: string, page = 1): Promise<{ results: MovieSummary[]; total_results: number; total_pages: number }> {
-  return tmdbFetch("/search/movie", { query, page });
+export async function searchMovies(query: string, page = 1, options: RequestOptions = {}): Promise<{ results: MovieSummary[]; total_results: number; total_pages: number }> {
+  return tmdbFetch("/search/movie", { query, page }, options);
 }
 
 /** Get full details for a single movie. */
-export async function getMovieDetails(movieId: number): Promise<MovieDetails> {
-  return tmdbFetch(`/movie/${movieId}`);
+export async function getMovieDetails(movieId: number, options: RequestOptions = {}): Promise<MovieDetails> {
+  return tmdbFetch(`/movie/${movieId}`, {}, options);
 }
 
 /** Get cast & crew for a movie. */
-export async function getMovieCredits(movieId: number): Promise<Credits> {
-  return tmdbFetch(`/movie/${movieId}/credits`);
+export async function getMovieCredits(movieId: number, options: RequestOptions = {}): Promise<Credits> {
+  return tmdbFetch(`/movie/${movieId}/credits`, {}, options);
 }
 
 export interface MovieVideo {
@@ -172,42 +650,137 @@ export interface MovieVideo {
 }
 
 /** Get videos (trailers, teasers) for a movie. */
-export async function getMovieVideos(movieId: number): Promise<{ results: MovieVideo[] }> {
-  return tmdbFetch(`/movie/${movieId}/videos`);
+export async function getMovieVideos(movieId: number, options: RequestOptions = {}): Promise<{ results: MovieVideo[] }> {
+  return tmdbFetch(`/movie/${movieId}/videos`, {}, options);
+}
+
+/**
+ * Where a movie can be streamed, rented or bought, per region.
+ * Data comes from JustWatch; show their attribution next to it.
+ */
+export async function getWatchProviders(movieId: number, options: RequestOptions = {}): Promise<WatchProviders> {
+  return tmdbFetch(`/movie/${movieId}/watch/providers`, {}, options);
+}
+
+/** Regions TMDB has watch provider data for. */
+export async function getWatchProviderRegions(options: RequestOptions = {}): Promise<WatchRegion[]> {
+  const data = await tmdbFetch<{ results: WatchRegion[] }>("/watch/providers/regions", {}, options);
+  return data.results;
+}
+
+/** Streaming services available in a region, most popular first. */
+export async function getRegionWatchProviders(region: string, options: RequestOptions = {}): Promise<WatchProvider[]> {
+  const data = await tmdbFetch<{ results: (WatchProvider & { display_priorities?: Record<string, number> })[] }>(
+    "/watch/providers/movie",
+    { watch_region: region },
+    options
+  );
+  return data.results
+    .map((p) => ({
+      provider_id: p.provider_id,
+      provider_name: p.provider_name,
+      logo_path: p.logo_path,
+      display_priority: p.display_priorities?.[region] ?? p.display_priority,
+    }))
+    .sort((a, b) => a.display_priority - b.display_priority);
+}
+
+/** Sub-requests getMovieFull can fold into the details call. */
+export interface MovieAppendResults {
+  credits: Credits;
+  videos: { results: MovieVideo[] };
+  release_dates: ReleaseDates;
+  keywords: { keywords: Keyword[] };
+  "watch/providers": WatchProviders;
+  similar: { results: MovieSummary[]; total_results: number; total_pages: number };
+}
+
+export type MovieAppend = keyof MovieAppendResults;
+
+/** Movie details plus exactly the appended sections that were requested. */
+export type MovieFull<A extends MovieAppend = MovieAppend> = MovieDetails & Pick<MovieAppendResults, A>;
+
+export const ALL_MOVIE_APPENDS: readonly MovieAppend[] = [
+  "credits",
+  "videos",
+  "release_dates",
+  "keywords",
+  "watch/providers",
+  "similar",
+];
+
+/**
+ * Get details and related data for a movie in one request using TMDB's
+ * append_to_response. Without `append`, every section is included.
+ *
+ *   const movie = await getMovieFull(550, { append: ["credits", "videos"] });
+ *   movie.credits.cast; // typed; movie.keywords would be a type error
+ */
+export async function getMovieFull<A extends MovieAppend = MovieAppend>(
+  movieId: number,
+  options: RequestOptions & { append?: readonly A[] } = {}
+): Promise<MovieFull<A>> {
+  const { append = ALL_MOVIE_APPENDS as readonly A[], ...requestOptions } = options;
+  // Sorted so the same set always maps to the same cache entry
+  const sections = [...new Set(append)].sort();
+  const params: Record<string, string | number> = sections.length
+    ? { append_to_response: sections.join(",") }
+    : {};
+  return tmdbFetch(`/movie/${movieId}`, params, requestOptions);
+}
+
+/** Get a collection (franchise) and every movie in it. */
+export async function getCollection(collectionId: number, options: RequestOptions = {}): Promise<Collection> {
+  return tmdbFetch(`/collection/${collectionId}`, {}, options);
 }
 
 /** Get movies similar to a given movie (TMDB's similarity). */
-export async function getSimilarMovies(movieId: number, page = 1): Promise<{ results: MovieSummary[]; total_results: number }> {
-  return tmdbFetch(`/movie/${movieId}/similar`, { page });
+export async function getSimilarMovies(movieId: number, page = 1, options: RequestOptions = {}): Promise<{ results: MovieSummary[]; total_results: number; total_pages: number }> {
+  return tmdbFetch(`/movie/${movieId}/similar`, { page }, options);
 }
 
 /** Get TMDB's own recommendations based on a movie. */
-export async function getRecommendations(movieId: number, page = 1): Promise<{ results: MovieSummary[]; total_results: number }> {
-  return tmdbFetch(`/movie/${movieId}/recommendations`, { page });
+export async function getRecommendations(movieId: number, page = 1, options: RequestOptions = {}): Promise<{ results: MovieSummary[]; total_results: number; total_pages: number }> {
+  return tmdbFetch(`/movie/${movieId}/recommendations`, { page }, options);
 }
 
 /** Discover movies with filters (genre, rating, year, runtime, etc.). */
-export async function discoverMovies(options: DiscoverOptions = {}): Promise<{ results: MovieSummary[]; total_results: number; total_pages: number }> {
+export async function discoverMovies(filters: DiscoverOptions = {}, options: RequestOptions = {}): Promise<{ results: MovieSummary[]; total_results: number; total_pages: number }> {
   const params: Record<string, string | number> = {};
-  for (const [key, value] of Object.entries(options)) {
+  for (const [key, value] of Object.entries(filters)) {
     if (value !== undefined && value !== null) {
       params[key] = value;
     }
   }
-  return tmdbFetch("/discover/movie", params);
+  return tmdbFetch("/discover/movie", params, options);
 }
 
 /** Get currently popular movies. */
-export async function getPopularMovies(page = 1): Promise<{ results: MovieSummary[]; total_results: number }> {
-  return tmdbFetch("/movie/popular", { page });
+export async function getPopularMovies(page = 1, options: RequestOptions = {}): Promise<{ results: MovieSummary[]; total_results: number }> {
+  return tmdbFetch("/movie/popular", { page }, options);
 }
 
 /** Get top-rated movies of all time. */
-export async function getTopRatedMovies(page = 1): Promise<{ results: MovieSummary[]; total_results: number }> {
-  return tmdbFetch("/movie/top_rated", { page });
+export async function getTopRatedMovies(page = 1, options: RequestOptions = {}): Promise<{ results: MovieSummary[]; total_results: number }> {
+  return tmdbFetch("/movie/top_rated", { page }, options);
+}
+
+/** Get a person's profile: biography, birthday, photo. */
+export async function getPerson(personId: number, options: RequestOptions = {}): Promise<Person> {
+  return tmdbFetch(`/person/${personId}`, {}, options);
+}
+
+/** Every movie a person acted in (cast) or worked on (crew). */
+export async function getPersonMovieCredits(personId: number, options: RequestOptions = {}): Promise<PersonMovieCredits> {
+  return tmdbFetch(`/person/${personId}/movie_credits`, {}, options);
+}
+
+/** Search actors, directors and other crew by name. */
+export async function searchPeople(query: string, page = 1, options: RequestOptions = {}): Promise<{ results: PersonSummary[]; total_results: number; total_pages: number }> {
+  return tmdbFetch("/search/person", { query, page }, options);
 }
 
 /** Get trending movies (time_window: "day" or "week"). */
-export async function getTrendingMovies(timeWindow: "day" | "week" = "week"): Promise<{ results: MovieSummary[] }> {
-  return tmdbFetch(`/trending/movie/${timeWindow}`);
+export async function getTrendingMovies(timeWindow: "day" | "week" = "week", options: RequestOptions = {}): Promise<{ results: MovieSummary[] }> {
+  return tmdbFetch(`/trending/movie/${timeWindow}`, {}, options);
 }
@@ -0,0 +1,315 @@
+/**
+ * Response cache for the TMDB client.
+ *
+ * Sits underneath tmdbFetch: responses are kept in memory and mirrored to
+ * localStorage (web) or AsyncStorage (native). In Node (scripts/tests) the
+ * cache is memory-only. Each endpoint family has its own TTL, and expired
+ * entries keep being served for a grace window while a fresh copy is
+ * fetched in the background (stale-while-revalidate).
+ */
+
+import { readItem, writeItem, removeItem } from "./persistentStore.ts";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface CachePolicy {
+  pattern: RegExp;               // Matched against the request path
+  ttl: number;                   // ms an entry is considered fresh
+  staleWhileRevalidate: number;  // ms after expiry an entry may still be served
+}
+
+interface CacheEntry {
+  key: string;
+  path: string;
+  data: unknown;
+  storedAt: number;    // epoch ms
+  expiresAt: number;   // epoch ms
+  staleUntil: number;  // epoch ms
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  path: string;
+  storedAt: number;
+  expiresAt: number;
+  staleUntil: number;
+  status: "fresh" | "stale" | "expired";
+  sizeBytes: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  fresh: number;
+  stale: number;
+  expired: number;
+  sizeBytes: number;
+  hits: number;
+  misses: number;
+  staleHits: number;
+  revalidations: number;
+}
+
+// ── Policies ───────────────────────────────────────────────────────────────
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** First matching pattern wins, so more specific paths come first. */
+const CACHE_POLICIES: CachePolicy[] = [
+  { pattern: /^\/genre\//, ttl: 7 * DAY, staleWhileRevalidate: 30 * DAY },
+  { pattern: /^\/watch\/providers\//, ttl: DAY, staleWhileRevalidate: 7 * DAY },
+  { pattern: /^\/trending\//, ttl: 15 * MINUTE, staleWhileRevalidate: HOUR },
+  { pattern: /^\/movie\/(popular|top_rated|now_playing|upcoming)$/, ttl: HOUR, staleWhileRevalidate: 6 * HOUR },
+  { pattern: /^\/movie\/\d+\/(recommendations|similar)$/, ttl: 12 * HOUR, staleWhileRevalidate: 2 * DAY },
+  { pattern: /^\/movie\/\d+/, ttl: 6 * HOUR, staleWhileRevalidate: 2 * DAY },
+  { pattern: /^\/person\/\d+/, ttl: DAY, staleWhileRevalidate: 7 * DAY },
+  { pattern: /^\/collection\/\d+/, ttl: DAY, staleWhileRevalidate: 7 * DAY },
+  { pattern: /^\/discover\//, ttl: 30 * MINUTE, staleWhileRevalidate: 6 * HOUR },
+  { pattern: /^\/search\//, ttl: 10 * MINUTE, staleWhileRevalidate: HOUR },
+];
+
+const DEFAULT_POLICY: CachePolicy = { pattern: /.*/, ttl: 10 * MINUTE, staleWhileRevalidate: HOUR };
+
+const MAX_ENTRIES = 300;
+const ENTRY_KEY_PREFIX = "flickpix_tmdb_cache_v1:";
+const INDEX_KEY = "flickpix_tmdb_cache_v1_index";
+
+function policyFor(path: string): CachePolicy {
+  return CACHE_POLICIES.find((p) => p.pattern.test(path)) ?? DEFAULT_POLICY;
+}
+
+// ── State ─────────────────────────────────────────────────────────────────
+
+const _memory = new Map<string, CacheEntry>();
+const _revalidating = new Set<string>();
+let _enabled = true;
+let _index: Set<string> | null = null;
+const _stats = { hits: 0, misses: 0, staleHits: 0, revalidations: 0 };
+
+/**
+ * Turn the cache on or off (e.g. for debugging). Existing entries are kept.
+ */
+export function setResponseCacheEnabled(enabled: boolean): void {
+  _enabled = enabled;
+}
+
+// ── Persistence ───────────────────────────────────────────────────────────
+
+async function loadIndex(): Promise<Set<string>> {
+  if (_index) return _index;
+  let keys: string[] = [];
+  try {
+    const raw = await readItem(INDEX_KEY);
+    keys = raw ? (JSON.parse(raw) as string[]) : [];
+  } catch {
+    keys = [];
+  }
+  // Another call may have populated the index while we were reading
+  if (!_index) _index = new Set([...keys, ..._memory.keys()]);
+  return _index;
+}
+
+async function saveIndex(): Promise<void> {
+  const index = await loadIndex();
+  await writeItem(INDEX_KEY, JSON.stringify([...index]));
+}
+
+async function readEntry(key: string): Promise<CacheEntry | null> {
+  const inMemory = _memory.get(key);
+  if (inMemory) return inMemory;
+
+  try {
+    const raw = await readItem(ENTRY_KEY_PREFIX + key);
+    if (!raw) return null;
+    const entry = JSON.parse(raw) as CacheEntry;
+    _memory.set(key, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+async function writeEntry(entry: CacheEntry): Promise<void> {
+  _memory.set(entry.key, entry);
+  const index = await loadIndex();
+  index.add(entry.key);
+
+  try {
+    await writeItem(ENTRY_KEY_PREFIX + entry.key, JSON.stringify(entry));
+    if (index.size > MAX_ENTRIES) await evictOldest(index.size - MAX_ENTRIES);
+    await saveIndex();
+  } catch {
+    // Persisting is best-effort (quota exceeded, storage unavailable)
+  }
+}
+
+async function deleteEntry(key: string): Promise<void> {
+  _memory.delete(key);
+  const index = await loadIndex();
+  index.delete(key);
+  await removeItem(ENTRY_KEY_PREFIX + key);
+}
+
+async function evictOldest(count: number): Promise<void> {
+  const index = await loadIndex();
+  const entries: CacheEntry[] = [];
+  for (const key of index) {
+    const entry = await readEntry(key);
+    if (entry) entries.push(entry);
+    else index.delete(key);
+  }
+  entries.sort((a, b) => a.storedAt - b.storedAt);
+  for (const entry of entries.slice(0, count)) {
+    await deleteEntry(entry.key);
+  }
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Build a stable cache key from a path and its query params.
+ * Param order doesn't matter and the API key is never part of the key.
+ */
+export function cacheKey(path: string, params: Record<string, string | number> = {}): string {
+  const query = Object.entries(params)
+    .filter(([key, value]) => key !== "api_key" && value !== undefined && value !== null)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join("&");
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Serve a response from the cache, falling back to `load` on a miss.
+ * Stale entries are returned immediately and refreshed in the background;
+ * `load(true)` marks that refresh, which no caller is waiting on and so
+ * shouldn't be cancelled when they leave.
+ */
+export async function cachedFetch<T>(
+  path: string,
+  params: Record<string, string | number>,
+  load: (background: boolean) => Promise<T>
+): Promise<T> {
+  if (!_enabled) return load(false);
+
+  const key = cacheKey(path, params);
+  const policy = policyFor(path);
+  const now = Date.now();
+  const entry = await readEntry(key);
+
+  if (entry && now < entry.expiresAt) {
+    _stats.hits++;
+    return entry.data as T;
+  }
+
+  if (entry && now < entry.staleUntil) {
+    _stats.staleHits++;
+    revalidate(key, path, policy, load);
+    return entry.data as T;
+  }
+
+  _stats.misses++;
+  const data = await load(false);
+  void writeEntry(buildEntry(key, path, policy, data));
+  return data;
+}
+
+function buildEntry(key: string, path: string, policy: CachePolicy, data: unknown): CacheEntry {
+  const storedAt = Date.now();
+  return {
+    key,
+    path,
+    data,
+    storedAt,
+    expiresAt: storedAt + policy.ttl,
+    staleUntil: storedAt + policy.ttl + policy.staleWhileRevalidate,
+  };
+}
+
+function revalidate<T>(
+  key: string,
+  path: string,
+  policy: CachePolicy,
+  load: (background: boolean) => Promise<T>
+): void {
+  if (_revalidating.has(key)) return;
+  _revalidating.add(key);
+  _stats.revalidations++;
+  load(true)
+    .then((data) => writeEntry(buildEntry(key, path, policy, data)))
+    .catch(() => {
+      // Keep serving the stale copy; the next read will try again
+    })
+    .finally(() => {
+      _revalidating.delete(key);
+    });
+}
+
+/**
+ * List every cached response with its freshness.
+ */
+export async function inspectResponseCache(): Promise<CacheEntryInfo[]> {
+  const index = await loadIndex();
+  const now = Date.now();
+  const infos: CacheEntryInfo[] = [];
+
+  for (const key of index) {
+    const entry = await readEntry(key);
+    if (!entry) continue;
+    infos.push({
+      key: entry.key,
+      path: entry.path,
+      storedAt: entry.storedAt,
+      expiresAt: entry.expiresAt,
+      staleUntil: entry.staleUntil,
+      status: now < entry.expiresAt ? "fresh" : now < entry.staleUntil ? "stale" : "expired",
+      sizeBytes: JSON.stringify(entry.data).length,
+    });
+  }
+
+  return infos.sort((a, b) => b.storedAt - a.storedAt);
+}
+
+/**
+ * Summary counts for the cache plus hit/miss counters since app start.
+ */
+export async function getResponseCacheStats(): Promise<CacheStats> {
+  const infos = await inspectResponseCache();
+  return {
+    entries: infos.length,
+    fresh: infos.filter((i) => i.status === "fresh").length,
+    stale: infos.filter((i) => i.status === "stale").length,
+    expired: infos.filter((i) => i.status === "expired").length,
+    sizeBytes: infos.reduce((sum, i) => sum + i.sizeBytes, 0),
+    ..._stats,
+  };
+}
+
+/**
+ * True when a cache key is for `pathPrefix` or a path below it: "/movie/27"
+ * covers "/movie/27?…" and "/movie/27/credits", not "/movie/275".
+ */
+function underPath(key: string, pathPrefix: string): boolean {
+  if (!key.startsWith(pathPrefix)) return false;
+  const next = key.charAt(pathPrefix.length);
+  return next === "" || next === "?" || next === "/" || pathPrefix.endsWith("/");
+}
+
+/**
+ * Remove cached responses. With a path prefix (e.g. "/movie/27205") only
+ * that path and the ones below it are removed; without one the whole cache
+ * is cleared.
+ */
+export async function clearResponseCache(pathPrefix?: string): Promise<void> {
+  const index = await loadIndex();
+  for (const key of [...index]) {
+    if (!pathPrefix || underPath(key, pathPrefix)) {
+      await deleteEntry(key);
+    }
+  }
+  for (const key of [..._memory.keys()]) {
+    if (!pathPrefix || underPath(key, pathPrefix)) _memory.delete(key);
+  }
+  await saveIndex();
+}
@@ -0,0 +1,35 @@
+import type { MovieSummary, PersonMovieCredits } from '@/services/tmdb';
+
+/** A movie from a person's filmography, with every role they had in it. */
+export type FilmographyCredit = MovieSummary & { role: string };
+
+export type Filmography = Record<'acting' | 'crew', FilmographyCredit[]>;
+
+/** Newest first; unreleased (no date) titles lead. */
+function byReleaseDesc(a: FilmographyCredit, b: FilmographyCredit) {
+  if (!a.release_date) return b.release_date ? -1 : 0;
+  if (!b.release_date) return 1;
+  return b.release_date.localeCompare(a.release_date);
+}
+
+/** One entry per movie: characters or jobs are joined when a person has several. */
+export function filmography(credits: PersonMovieCredits): Filmography {
+  const collect = (items: FilmographyCredit[]) => {
+    const byMovie = new Map<number, FilmographyCredit>();
+    for (const item of items) {
+      const existing = byMovie.get(item.id);
+      if (existing) {
+        if (item.role && !existing.role.split(', ').includes(item.role)) {
+          existing.role = existing.role ? `${existing.role}, ${item.role}` : item.role;
+        }
+      } else {
+        byMovie.set(item.id, { ...item });
+      }
+    }
+    return [...byMovie.values()].sort(byReleaseDesc);
+  };
+  return {
+    acting: collect(credits.cast.map((c) => ({ ...c, role: c.character }))),
+    crew: collect(credits.crew.map((c) => ({ ...c, role: c.job }))),
+  };
+}